@@ -0,0 +1,60 @@
+import { storage } from "./storage.js";
+import type { Role } from "./auth.js";
+import { diffStates, type StateChange } from "../../src/stateDiff.js";
+
+// ── Audit log ────────────────────────────────────────────────────────────────
+// Who changed what, for settling "who entered that score?". Unlike history,
+// which keeps only the last few versions for rolling back, this list is
+// append-only and never trimmed: each accepted write adds one entry (newest
+// first) with the writer's session and role and a structured diff against
+// the revision it replaced. The entry is pushed by the same storage commit
+// as the state (see writeState), so a saved change can't go unrecorded.
+// Entries are small (ids and changed fields), and /api/audit reads it a page
+// at a time.
+
+// Writes that touch more than this many items (a reset, a fresh schedule)
+// keep the first ones and a count of the rest.
+const MAX_CHANGES = 100;
+
+export type AuditEntry = {
+  revision: number;
+  at: number;
+  sessionId: string;
+  role: Role;
+  source: string;
+  changes: StateChange[];
+  // Total changes in the write, when more than `changes` holds.
+  changeCount: number;
+};
+
+export const auditKey = (eventId: string) => `blind-draw:audit:${eventId}`;
+
+// Added and removed items are recorded by id only; the full versions are in
+// history while they last, and a score dispute only needs the changed fields.
+function compact(c: StateChange): StateChange {
+  if (c.action === "changed") return c;
+  const { before, after, ...rest } = c;
+  return rest;
+}
+
+export function auditEntry(
+  meta: Omit<AuditEntry, "changes" | "changeCount">,
+  before: unknown,
+  after: unknown,
+): AuditEntry {
+  const changes = diffStates(before, after);
+  return { ...meta, changes: changes.slice(0, MAX_CHANGES).map(compact), changeCount: changes.length };
+}
+
+// One page of the log, newest first, and how many entries it holds in all.
+export async function listAudit(
+  eventId: string,
+  offset: number,
+  limit: number,
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const [entries, total] = await Promise.all([
+    storage.listRange<AuditEntry>(auditKey(eventId), offset, offset + limit - 1),
+    storage.listLength(auditKey(eventId)),
+  ]);
+  return { entries, total };
+}
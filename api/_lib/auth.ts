@@ -0,0 +1,139 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { storage } from "./storage.js";
+
+// Admins can change anything. Scorekeepers (SCOREKEEPER_KEY, optional) can
+// only record scores on matches and bracket games, via /api/score.
+export type Role = "admin" | "scorekeeper";
+
+// Keys are only ever sent to POST /api/auth, which trades one for a signed,
+// expiring session token. Every other route takes the token as
+// `Authorization: Bearer <token>`.
+const SESSION_MS = 12 * 60 * 60 * 1000; // a long tournament day
+const THROTTLE_PREFIX = "blind-draw:auth-failures";
+const MAX_FAILURES = 10;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export type Session = { role: Role; expiresAt: number };
+
+// Compares hashes so neither the length nor the contents of the real key
+// leak through timing.
+function sameKey(sent: string, expected: string): boolean {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(sent), digest(expected));
+}
+
+// The role `key` unlocks, or null for a wrong key.
+export function roleForKey(key: string): Role | null {
+  const admin = process.env.ADMIN_KEY || "";
+  const scorekeeper = process.env.SCOREKEEPER_KEY || "";
+  if (!key || !admin) return null;
+  if (sameKey(key, admin)) return "admin";
+  if (scorekeeper && sameKey(key, scorekeeper)) return "scorekeeper";
+  return null;
+}
+
+// Tokens are signed with AUTH_SECRET when set, otherwise with the keys
+// themselves, so changing either key signs everyone out.
+function sign(payload: string): string {
+  const secret = process.env.AUTH_SECRET || `${process.env.ADMIN_KEY}:${process.env.SCOREKEEPER_KEY || ""}`;
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+export function issueToken(role: Role): { token: string } & Session {
+  const expiresAt = Date.now() + SESSION_MS;
+  const payload = Buffer.from(JSON.stringify({ role, exp: expiresAt })).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, role, expiresAt };
+}
+
+// The session a token carries, or null if it is malformed, tampered with or
+// expired.
+export function verifyToken(token: string): Session | null {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const { role, exp } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (role !== "admin" && role !== "scorekeeper") return null;
+    if (typeof exp !== "number" || exp <= Date.now()) return null;
+    return { role, expiresAt: exp };
+  } catch {
+    return null;
+  }
+}
+
+// The session the Authorization header carries, or null for none or a bad
+// token.
+export function sessionFrom(req: VercelRequest): Session | null {
+  const header = (req.headers.authorization as string) || "";
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  return match ? verifyToken(match[1]) : null;
+}
+
+// Checks the request carries a session for one of `allowed`. On failure the
+// error response has already been sent and the caller should just return.
+export function requireRole(req: VercelRequest, res: VercelResponse, allowed: Role[]): Role | null {
+  if (!process.env.ADMIN_KEY) {
+    res.status(500).json({ ok: false, error: "Missing ADMIN_KEY env var" });
+    return null;
+  }
+
+  const session = sessionFrom(req);
+  if (!session) {
+    res.status(401).json({ ok: false, error: "Unauthorized" });
+    return null;
+  }
+
+  if (!allowed.includes(session.role)) {
+    res.status(403).json({ ok: false, error: "Scorekeepers can only enter scores" });
+    return null;
+  }
+
+  return session.role;
+}
+
+export function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
+  return requireRole(req, res, ["admin"]) !== null;
+}
+
+// ── Login throttling ─────────────────────────────────────────────────────────
+// Login attempts are counted per client address in storage (so every
+// function instance sees the same count), with an atomic increment taken
+// before the key is checked: a burst of parallel guesses each claims its own
+// slot, so no more than MAX_FAILURES get tried in the window. A correct key
+// clears the count; after MAX_FAILURES wrong ones, logins from that address
+// are refused until the window ends.
+
+// X-Forwarded-For is only believed behind a proxy that sets it itself:
+// Vercel's edge overwrites whatever the client sent, and TRUST_PROXY=1 says
+// the local server sits behind one that does the same. Anywhere else a
+// client could pick a fresh address for every attempt and never be locked
+// out, so the connection's own address counts.
+const TRUST_FORWARDED = !!process.env.VERCEL || process.env.TRUST_PROXY === "1";
+
+function clientAddress(req: VercelRequest): string {
+  const forwarded = TRUST_FORWARDED ? ((req.headers["x-forwarded-for"] as string) || "").split(",")[0].trim() : "";
+  return (forwarded || req.socket?.remoteAddress || "unknown").replace(/[^A-Za-z0-9.:_-]/g, "").slice(0, 64);
+}
+
+const throttleKey = (req: VercelRequest) => `${THROTTLE_PREFIX}:${clientAddress(req)}`;
+
+// Count this attempt. Returns the milliseconds until this client may try
+// again, or 0 if this attempt may go ahead.
+export async function countLoginAttempt(req: VercelRequest): Promise<number> {
+  const { count, resetAt } = await storage.increment(throttleKey(req), FAILURE_WINDOW_MS);
+  return count > MAX_FAILURES ? Math.max(1, resetAt - Date.now()) : 0;
+}
+
+export async function clearLoginAttempts(req: VercelRequest): Promise<void> {
+  if (await storage.get(throttleKey(req))) await storage.set(throttleKey(req), null);
+}
+
+// The per-tab session id the client sends with writes (the same id used for
+// heartbeats), recorded in history so admins can tell who saved what.
+export function sessionIdFrom(req: VercelRequest): string {
+  const raw = (req.headers["x-session-id"] as string) || "";
+  return raw.replace(/[^A-Za-z0-9_-]/g, "").slice(0, 64) || "unknown";
+}
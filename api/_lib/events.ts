@@ -0,0 +1,113 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { storage } from "./storage.js";
+import { DEFAULT_EVENT_ID } from "./stateStore.js";
+
+const INDEX_KEY = "blind-draw:events";
+const COPIED_GAMES_PREFIX = "blind-draw:copied-games";
+
+export type EventMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Archived events stay browsable but reject every write.
+  archived: boolean;
+  archivedAt?: number;
+  // The event this one was cloned from, results and all (the games it
+  // copied are recorded under COPIED_GAMES_PREFIX, see saveCopiedGames).
+  clonedFrom?: string;
+};
+
+const EVENT_ID_RE = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Event id from the ?event= query param; the default event when omitted.
+// Returns null for a malformed id.
+export function eventIdFrom(req: VercelRequest): string | null {
+  const raw = req.query.event;
+  const id = (Array.isArray(raw) ? raw[0] : raw) || DEFAULT_EVENT_ID;
+  return EVENT_ID_RE.test(id) ? id : null;
+}
+
+function defaultEvent(): EventMeta {
+  return { id: DEFAULT_EVENT_ID, name: "Tournament", createdAt: 0, archived: false };
+}
+
+// The index carries a revision like the state does, so concurrent creates,
+// clones and archives can't overwrite each other. Indexes saved before that
+// hold the bare list and count as revision 0.
+type EventIndex = { revision: number; events: EventMeta[] };
+
+async function readIndex(): Promise<EventIndex> {
+  const raw = await storage.get<EventIndex | EventMeta[]>(INDEX_KEY);
+  const index = Array.isArray(raw) ? { revision: 0, events: raw } : raw ?? { revision: 0, events: [] };
+  // Deployments from before the event index have only the default event.
+  return index.events.length ? index : { ...index, events: [defaultEvent()] };
+}
+
+export async function listEvents(): Promise<EventMeta[]> {
+  return (await readIndex()).events;
+}
+
+export async function getEvent(id: string): Promise<EventMeta | null> {
+  return (await listEvents()).find(e => e.id === id) ?? null;
+}
+
+const INDEX_RETRIES = 5;
+
+// Apply `change` to the current list and save it only if nobody else saved
+// the index in between; otherwise re-read and apply it again, so `change`
+// may run more than once and must work from the list it's given.
+export async function updateEvents(change: (events: EventMeta[]) => EventMeta[]): Promise<EventMeta[]> {
+  for (let attempt = 0; attempt < INDEX_RETRIES; attempt++) {
+    const index = await readIndex();
+    const next: EventIndex = { revision: index.revision + 1, events: change(index.events) };
+    if (await storage.setIfRevision(INDEX_KEY, index.revision, next)) return next.events;
+  }
+  throw new Error("The event list is changing too fast, try again");
+}
+
+// The gameKeys of the scored games a clone started out with, kept apart
+// from the index so listing events doesn't carry them. Ratings skip exactly
+// these in the clone, since they already count in its source; anything
+// played in the clone afterwards counts, even in a slot the source used.
+export async function saveCopiedGames(eventId: string, keys: string[]): Promise<void> {
+  await storage.set(`${COPIED_GAMES_PREFIX}:${eventId}`, keys);
+}
+
+// null for events that weren't cloned, or were cloned before this was
+// recorded.
+export async function readCopiedGames(eventId: string): Promise<string[] | null> {
+  return storage.get<string[]>(`${COPIED_GAMES_PREFIX}:${eventId}`);
+}
+
+export function newEventId(name: string, taken: EventMeta[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 48) || "event";
+  const ids = new Set(taken.map(e => e.id));
+  let id = base;
+  while (ids.has(id)) id = `${base}-${Math.random().toString(36).slice(2, 6)}`;
+  return id;
+}
+
+// Look up the event a request targets. On failure the error response has
+// already been sent and the caller should just return. Pass `forWrite` to
+// also refuse archived events.
+export async function resolveEvent(
+  req: VercelRequest,
+  res: VercelResponse,
+  forWrite = false,
+): Promise<EventMeta | null> {
+  const id = eventIdFrom(req);
+  if (!id) {
+    res.status(400).json({ ok: false, error: "Invalid event id" });
+    return null;
+  }
+  const event = await getEvent(id);
+  if (!event) {
+    res.status(404).json({ ok: false, error: "Unknown event" });
+    return null;
+  }
+  if (forWrite && event.archived) {
+    res.status(403).json({ ok: false, error: "Event is archived (read-only)" });
+    return null;
+  }
+  return event;
+}
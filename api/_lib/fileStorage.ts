@@ -0,0 +1,102 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { StateCommit, StorageAdapter, WindowCount } from "./storage.js";
+
+// Plain-file backend for running the app off a laptop (server/index.ts).
+// Each key is one JSON file; hashes are a directory with one file per field
+// so a history version is written once rather than rewriting all of them on
+// every save. All access is synchronous: the local server is one Node
+// process, so a commit's read-check-write can't interleave with another.
+
+const fileName = (key: string) => encodeURIComponent(key);
+
+export function createFileStorage(dir: string): StorageAdapter {
+  const root = path.resolve(dir);
+  fs.mkdirSync(root, { recursive: true });
+
+  const keyPath = (key: string) => path.join(root, `${fileName(key)}.json`);
+  const fieldPath = (key: string, field: string) => path.join(root, `${fileName(key)}.hash`, `${fileName(field)}.json`);
+
+  function read<T>(file: string): T | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  // Write to a temp file and rename over the target so a crash or power
+  // cut mid-write never leaves half a JSON file behind.
+  function write(file: string, value: unknown) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(value ?? null));
+    fs.renameSync(tmp, file);
+  }
+
+  // Same rule as the Redis script: only a revisioned envelope counts, a bare
+  // legacy state is revision 0.
+  function storedRevision(key: string): number {
+    const raw: any = read(keyPath(key));
+    return !!raw && typeof raw === "object" && typeof raw.revision === "number" && "data" in raw ? raw.revision : 0;
+  }
+
+  return {
+    async get<T>(key: string) {
+      return read<T>(keyPath(key)) ?? null;
+    },
+
+    async set(key: string, value: unknown) {
+      write(keyPath(key), value);
+    },
+
+    async listRange<T>(key: string, start: number, stop: number) {
+      const list = read<T[]>(keyPath(key)) ?? [];
+      return list.slice(start, stop === -1 ? undefined : stop + 1);
+    },
+
+    async listLength(key: string) {
+      return (read<unknown[]>(keyPath(key)) ?? []).length;
+    },
+
+    async hashGet<T>(key: string, field: string) {
+      return read<T | null>(fieldPath(key, field));
+    },
+
+    async commitState(c: StateCommit) {
+      if (storedRevision(c.stateKey) !== c.baseRevision) return false;
+      write(keyPath(c.stateKey), c.envelope);
+      write(keyPath(c.revisionKey), c.entry.revision);
+      write(fieldPath(c.historyDataKey, String(c.entry.revision)), c.data ?? null);
+      const list = [c.entry, ...(read<{ revision: number }[]>(keyPath(c.historyKey)) ?? [])];
+      for (const old of list.slice(c.limit)) {
+        fs.rmSync(fieldPath(c.historyDataKey, String(old.revision)), { force: true });
+      }
+      write(keyPath(c.historyKey), list.slice(0, c.limit));
+      if (c.audit) {
+        write(keyPath(c.auditKey), [c.audit, ...(read<unknown[]>(keyPath(c.auditKey)) ?? [])]);
+      }
+      return true;
+    },
+
+    async setIfRevision(key: string, baseRevision: number, value: { revision: number }) {
+      const raw: any = read(keyPath(key));
+      const stored = !!raw && typeof raw === "object" && typeof raw.revision === "number" ? raw.revision : 0;
+      if (stored !== baseRevision) return false;
+      write(keyPath(key), value);
+      return true;
+    },
+
+    // No expiry here; a stale counter is simply started over.
+    async increment(key: string, windowMs: number) {
+      const now = Date.now();
+      const cur = read<WindowCount | null>(keyPath(key));
+      const next = cur && typeof cur.count === "number" && cur.resetAt > now
+        ? { count: cur.count + 1, resetAt: cur.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+      write(keyPath(key), next);
+      return next;
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { kv } from "@vercel/kv";
+import type { StateCommit, StorageAdapter, WindowCount } from "./storage.js";
+
+// Compare-and-set in a single Redis script so two admins saving at the same
+// moment can't both pass the revision check, with the history push in the
+// same script so the list and hash never disagree, and the audit entry too
+// so a landed write is always in the log. Returns -1 when the write landed,
+// otherwise the revision currently stored.
+const CAS_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local rev = 0
+if raw then
+  local ok, cur = pcall(cjson.decode, raw)
+  if ok and type(cur) == 'table' and type(cur.revision) == 'number' and cur.data ~= nil then
+    rev = cur.revision
+  end
+end
+if rev ~= tonumber(ARGV[1]) then return rev end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[4], ARGV[5])
+redis.call('LPUSH', KEYS[2], ARGV[3])
+redis.call('HSET', KEYS[3], ARGV[5], ARGV[4])
+local limit = tonumber(ARGV[6])
+for _, old in ipairs(redis.call('LRANGE', KEYS[2], limit, -1)) do
+  local ok, meta = pcall(cjson.decode, old)
+  if ok and type(meta) == 'table' and meta.revision then
+    redis.call('HDEL', KEYS[3], tostring(meta.revision))
+  end
+end
+redis.call('LTRIM', KEYS[2], 0, limit - 1)
+if ARGV[7] ~= '' then
+  redis.call('LPUSH', KEYS[5], ARGV[7])
+end
+return -1
+`;
+
+// The same check for a plain revisioned value (the events index).
+const SET_IF_REVISION_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local rev = 0
+if raw then
+  local ok, cur = pcall(cjson.decode, raw)
+  if ok and type(cur) == 'table' and type(cur.revision) == 'number' then
+    rev = cur.revision
+  end
+end
+if rev ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1
+`;
+
+// Read-increment-write of a windowed counter in one script, with the key
+// expiring when the window ends. ARGV[1] is now, ARGV[2] the window (ms).
+const INCREMENT_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local now = tonumber(ARGV[1])
+local count, resetAt = 1, now + tonumber(ARGV[2])
+if raw then
+  local ok, cur = pcall(cjson.decode, raw)
+  if ok and type(cur) == 'table' and type(cur.count) == 'number' and type(cur.resetAt) == 'number' and cur.resetAt > now then
+    count, resetAt = cur.count + 1, cur.resetAt
+  end
+end
+local value = cjson.encode({ count = count, resetAt = resetAt })
+redis.call('SET', KEYS[1], value, 'PX', math.max(1, resetAt - now))
+return value
+`;
+
+export const kvStorage: StorageAdapter = {
+  async get<T>(key: string) {
+    return (await kv.get<T>(key)) ?? null;
+  },
+
+  async set(key: string, value: unknown) {
+    await kv.set(key, value);
+  },
+
+  async listRange<T>(key: string, start: number, stop: number) {
+    return (await kv.lrange<T>(key, start, stop)) ?? [];
+  },
+
+  async listLength(key: string) {
+    return kv.llen(key);
+  },
+
+  async hashGet<T>(key: string, field: string) {
+    const value = await kv.hget<T>(key, field);
+    if (value !== null) return value;
+    return (await kv.hexists(key, field)) ? null : undefined;
+  },
+
+  async commitState(c: StateCommit) {
+    const result = await kv.eval(
+      CAS_SCRIPT,
+      [c.stateKey, c.historyKey, c.historyDataKey, c.revisionKey, c.auditKey],
+      [
+        String(c.baseRevision), JSON.stringify(c.envelope), JSON.stringify(c.entry),
+        JSON.stringify(c.data ?? null), String(c.entry.revision), String(c.limit),
+        c.audit ? JSON.stringify(c.audit) : "",
+      ],
+    );
+    return Number(result) === -1;
+  },
+
+  async setIfRevision(key: string, baseRevision: number, value: { revision: number }) {
+    const result = await kv.eval(SET_IF_REVISION_SCRIPT, [key], [String(baseRevision), JSON.stringify(value)]);
+    return Number(result) === 1;
+  },
+
+  async increment(key: string, windowMs: number) {
+    const result = await kv.eval(INCREMENT_SCRIPT, [key], [String(Date.now()), String(windowMs)]);
+    return (typeof result === "string" ? JSON.parse(result) : result) as WindowCount;
+  },
+};
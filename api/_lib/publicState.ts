@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { DivisionKey, FormatKey, TournamentState } from "../../src/types.js";
+import { emptyTournamentState, parseTournamentState } from "../../src/schema.js";
+import { PUBLIC_DIVISIONS, PUBLIC_FORMATS } from "../../src/publicApi.js";
+import { resolveEvent, type EventMeta } from "./events.js";
+import { readState } from "./stateStore.js";
+
+// Shared plumbing for the read-only public routes (/api/standings,
+// /api/schedule, /api/bracket): no key needed, GET only, and short edge
+// caching so a busy scoreboard doesn't hit storage on every refresh.
+
+export type PublicRequest = {
+  event: Pick<EventMeta, "id" | "name">;
+  revision: number;
+  state: TournamentState;
+  // The ?format= / ?division= filters, or every format / division when omitted.
+  formats: FormatKey[];
+  divisions: DivisionKey[];
+};
+
+function queryParam(req: VercelRequest, name: string): string | undefined {
+  const raw = req.query[name];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return value ? value.toUpperCase() : undefined;
+}
+
+// Handles CORS, the method check and loading the event's state. On failure
+// the response has already been sent and the caller should just return.
+export async function openPublicRequest(req: VercelRequest, res: VercelResponse): Promise<PublicRequest | null> {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    res.status(204).end();
+    return null;
+  }
+  if (req.method !== "GET") {
+    res.status(405).json({ ok: false, error: "Method not allowed" });
+    return null;
+  }
+
+  const format = queryParam(req, "format");
+  if (format && !PUBLIC_FORMATS.includes(format as FormatKey)) {
+    res.status(400).json({ ok: false, error: `Unknown format (expected one of ${PUBLIC_FORMATS.join(", ")})` });
+    return null;
+  }
+  const division = queryParam(req, "division");
+  if (division && !PUBLIC_DIVISIONS.includes(division as DivisionKey)) {
+    res.status(400).json({ ok: false, error: `Unknown division (expected one of ${PUBLIC_DIVISIONS.join(", ")})` });
+    return null;
+  }
+
+  const event = await resolveEvent(req, res);
+  if (!event) return null;
+
+  const stored = await readState(event.id);
+  let state = emptyTournamentState();
+  if (stored.data != null) {
+    const parsed = parseTournamentState(stored.data);
+    if (!parsed.ok) {
+      res.status(500).json({ ok: false, error: "Saved tournament state is invalid" });
+      return null;
+    }
+    state = parsed.state;
+  }
+
+  res.setHeader("Cache-Control", "public, s-maxage=5, stale-while-revalidate=10");
+  return {
+    event: { id: event.id, name: event.name },
+    revision: stored.revision,
+    state,
+    formats: format ? [format as FormatKey] : PUBLIC_FORMATS,
+    divisions: division ? [division as DivisionKey] : PUBLIC_DIVISIONS,
+  };
+}
@@ -0,0 +1,110 @@
+import { storage } from "./storage.js";
+import { auditEntry, auditKey, type AuditEntry } from "./audit.js";
+import type { Role } from "./auth.js";
+import { referencePlayers, resolvePlayers } from "../../src/players.js";
+
+// The original single-tournament key is kept as the "default" event so a
+// deployment's existing data carries over untouched.
+export const DEFAULT_EVENT_ID = "default";
+
+export function stateKey(eventId: string): string {
+  return eventId === DEFAULT_EVENT_ID ? "blind-draw:state" : `blind-draw:state:${eventId}`;
+}
+
+// Every stored state is wrapped with a monotonically increasing revision so
+// writers can prove which version they were editing. Saves from before
+// revisions existed hold the bare state and are treated as revision 0.
+// States (and history versions) are stored with players referenced by
+// registry id and read back with their current names (see players.ts), so
+// everything past this module only ever sees names.
+export type StoredState = { revision: number; updatedAt: number; data: unknown };
+
+export type WriteResult =
+  | { ok: true; revision: number }
+  | { ok: false; current: StoredState };
+
+function isEnvelope(raw: any): raw is StoredState {
+  return !!raw && typeof raw === "object" && typeof raw.revision === "number" && "data" in raw;
+}
+
+export async function readState(eventId: string): Promise<StoredState> {
+  const raw = await storage.get(stateKey(eventId));
+  if (isEnvelope(raw)) return { ...raw, data: resolvePlayers(raw.data) };
+  return { revision: 0, updatedAt: 0, data: resolvePlayers(raw ?? null) };
+}
+
+// Every write also records just the revision number under its own key, so
+// live-update streams can check for changes many times a second without
+// downloading the whole state.
+const revisionKey = (eventId: string) => `blind-draw:revision:${eventId}`;
+
+export async function readRevision(eventId: string): Promise<number> {
+  const revision = await storage.get<number>(revisionKey(eventId));
+  if (typeof revision === "number") return revision;
+  // Nothing saved since revision keys were introduced: seed from the state.
+  const stored = await readState(eventId);
+  await storage.set(revisionKey(eventId), stored.revision);
+  return stored.revision;
+}
+
+// ── History ──────────────────────────────────────────────────────────────────
+// Every accepted write is also recorded in a bounded per-event history so an
+// admin can roll back a mistaken "Delete Round" or reset. Metadata lives in a
+// list (newest first) and each version's data in a hash keyed by revision.
+export const HISTORY_LIMIT = 40;
+
+export type HistorySource = "save" | "score" | "restore" | "clone";
+export type HistoryEntry = { revision: number; savedAt: number; sessionId: string; role?: Role; source: HistorySource };
+export type WriteMeta = { sessionId: string; role: Role; source: HistorySource };
+
+const historyKey = (eventId: string) => `blind-draw:history:${eventId}`;
+const historyDataKey = (eventId: string) => `blind-draw:history-data:${eventId}`;
+
+export async function writeState(
+  eventId: string,
+  baseRevision: number,
+  data: unknown,
+  meta: WriteMeta,
+): Promise<WriteResult> {
+  const stored = referencePlayers(data);
+  const next: StoredState = { revision: baseRevision + 1, updatedAt: Date.now(), data: stored };
+  const entry: HistoryEntry = { revision: next.revision, savedAt: next.updatedAt, ...meta };
+
+  // The audit entry is diffed against the replaced version (the newest one
+  // in history) and goes in with the commit. Working it out mustn't turn a
+  // save into an error the client would retry, so a failure only skips it.
+  let audit: AuditEntry | null = null;
+  try {
+    const before = baseRevision > 0 ? await readHistoryVersion(eventId, baseRevision) : null;
+    // Diffed as it will read back, with every name spelled as its record.
+    audit = auditEntry({ revision: next.revision, at: next.updatedAt, ...meta }, before ?? null, resolvePlayers(stored));
+  } catch (err) {
+    console.error("audit entry failed", err);
+  }
+
+  const landed = await storage.commitState({
+    stateKey: stateKey(eventId),
+    revisionKey: revisionKey(eventId),
+    historyKey: historyKey(eventId),
+    historyDataKey: historyDataKey(eventId),
+    auditKey: auditKey(eventId),
+    baseRevision,
+    envelope: next,
+    entry,
+    data: stored,
+    audit,
+    limit: HISTORY_LIMIT,
+  });
+  if (!landed) return { ok: false, current: await readState(eventId) };
+  return { ok: true, revision: next.revision };
+}
+
+export async function listHistory(eventId: string): Promise<HistoryEntry[]> {
+  return storage.listRange<HistoryEntry>(historyKey(eventId), 0, -1);
+}
+
+// The state as saved at `revision`, or undefined once it has aged out.
+export async function readHistoryVersion(eventId: string, revision: number): Promise<unknown> {
+  const data = await storage.hashGet(historyDataKey(eventId), String(revision));
+  return data === undefined ? undefined : resolvePlayers(data);
+}
@@ -0,0 +1,60 @@
+import { kvStorage } from "./kvStorage.js";
+import { createFileStorage } from "./fileStorage.js";
+
+// ── Storage adapter ──────────────────────────────────────────────────────────
+// Everything the API routes persist goes through this interface, so the same
+// handlers run against Vercel KV in the cloud or plain files on a laptop at
+// the venue (see server/index.ts). Values are JSON; keys are the same
+// "blind-draw:…" strings in both backends.
+
+// One accepted state write: the new envelope replaces the state key, the new
+// revision number goes to the (small) revision key for cheap change checks,
+// its history entry is pushed onto the front of the history list and the data
+// is stored in the history hash under the entry's revision. Entries past
+// `limit` are dropped from both. The audit entry, when there is one, is
+// pushed onto the front of the audit list, which is never trimmed.
+export type StateCommit = {
+  stateKey: string;
+  revisionKey: string;
+  historyKey: string;
+  historyDataKey: string;
+  auditKey: string;
+  baseRevision: number;
+  envelope: unknown;
+  entry: { revision: number };
+  data: unknown;
+  audit: unknown | null;
+  limit: number;
+};
+
+export type WindowCount = { count: number; resetAt: number };
+
+export interface StorageAdapter {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  // Inclusive range, newest first; -1 means "to the end".
+  listRange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  // 0 when the list doesn't exist.
+  listLength(key: string): Promise<number>;
+  // undefined when the field doesn't exist (as opposed to a stored null).
+  hashGet<T>(key: string, field: string): Promise<T | null | undefined>;
+  // Apply a StateCommit only if the stored revision still equals
+  // `baseRevision`, atomically with respect to other commits. Returns true
+  // when it landed.
+  commitState(commit: StateCommit): Promise<boolean>;
+  // Replace a `{ revision, … }` value only if the stored one's revision (0
+  // when the key is missing or holds a value without one) still equals
+  // `baseRevision`, atomically like commitState. Returns true when it landed.
+  setIfRevision(key: string, baseRevision: number, value: { revision: number }): Promise<boolean>;
+  // Add one to a `{ count, resetAt }` counter, starting it over at 1 when it's
+  // missing or its window has passed (the key expires with the window), and
+  // return the new value. Atomic like commitState, so concurrent increments
+  // are never lost.
+  increment(key: string, windowMs: number): Promise<WindowCount>;
+}
+
+// STORAGE_DIR switches to the file backend; otherwise Vercel KV (configured
+// by its usual KV_REST_API_* variables).
+export const storage: StorageAdapter = process.env.STORAGE_DIR
+  ? createFileStorage(process.env.STORAGE_DIR)
+  : kvStorage;
@@ -0,0 +1,37 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "./_lib/auth.js";
+import { resolveEvent } from "./_lib/events.js";
+import { listAudit } from "./_lib/audit.js";
+
+export const config = { runtime: "nodejs" };
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// GET /api/audit?event=<id>[&offset=N][&limit=N] -> { ok, entries, total, nextOffset }
+//   Newest first; the full log is kept, so page back with nextOffset until
+//   it's null. `total` counts every entry the event has.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  try {
+    if (req.method !== "GET") {
+      return res.status(405).json({ ok: false, error: "Method not allowed" });
+    }
+    if (!requireAdmin(req, res)) return;
+    const event = await resolveEvent(req, res);
+    if (!event) return;
+
+    const offset = Math.max(0, Math.floor(Number(req.query.offset) || 0));
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(Number(req.query.limit) || DEFAULT_LIMIT)));
+    const { entries, total } = await listAudit(event.id, offset, limit);
+    const nextOffset = offset + entries.length < total ? offset + entries.length : null;
+    return res.status(200).json({ ok: true, entries, total, nextOffset });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { clearLoginAttempts, countLoginAttempt, issueToken, roleForKey, sessionFrom } from "./_lib/auth.js";
+
+export const config = { runtime: "nodejs" };
+
+// POST /api/auth { key }  -> { ok, role, token, expiresAt }
+//   401 for a wrong key, 429 (with Retry-After) after too many wrong keys.
+// GET  /api/auth  (Authorization: Bearer <token>) -> { ok, role, expiresAt }
+//   401 once the token has expired.
+// Tokens aren't stored anywhere; signing out is just the client forgetting
+// its token.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+  if (!process.env.ADMIN_KEY) return res.status(500).json({ ok: false, error: "Missing ADMIN_KEY env var" });
+
+  try {
+    if (req.method === "GET") {
+      const session = sessionFrom(req);
+      if (!session) return res.status(401).json({ ok: false, error: "Unauthorized" });
+      return res.status(200).json({ ok: true, ...session });
+    }
+
+    if (req.method === "POST") {
+      const lockedFor = await countLoginAttempt(req);
+      if (lockedFor > 0) {
+        res.setHeader("Retry-After", String(Math.ceil(lockedFor / 1000)));
+        return res.status(429).json({ ok: false, error: "Too many attempts. Try again later." });
+      }
+
+      const key = typeof req.body?.key === "string" ? req.body.key : "";
+      const role = roleForKey(key);
+      if (!role) return res.status(401).json({ ok: false, error: "Incorrect key" });
+
+      await clearLoginAttempts(req);
+      return res.status(200).json({ ok: true, ...issueToken(role) });
+    }
+
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { openPublicRequest } from "./_lib/publicState.js";
+import { publicBracket } from "../src/publicApi.js";
+import { renderBracketSvg } from "../src/bracketSvg.js";
+import { formatDivision } from "../src/scorePatch.js";
+import { FORMAT_LABELS } from "../src/stateDiff.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET /api/bracket?event=<id>[&format=DOUBLES][&division=UPPER]
+//   -> { ok, event, revision, brackets: [{ format, division, matches }] }
+// Only divisions whose playoffs have been built are listed. No key needed.
+//
+// GET /api/bracket?event=<id>&format=DOUBLES&division=UPPER&as=svg
+//   -> the division's brackets drawn as an SVG image, for embedding
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const request = await openPublicRequest(req, res);
+    if (!request) return;
+
+    const { event, revision, state, formats, divisions } = request;
+
+    const as = Array.isArray(req.query.as) ? req.query.as[0] : req.query.as;
+    if (as === "svg") {
+      if (formats.length !== 1 || divisions.length !== 1) {
+        return res.status(400).json({ ok: false, error: "as=svg needs a format and a division" });
+      }
+      const [format] = formats;
+      const [division] = divisions;
+      const brackets = formatDivision(state, format, division)?.brackets ?? [];
+      const svg = renderBracketSvg(brackets, {
+        title: `${event.name} · ${FORMAT_LABELS[format]} · ${division} Playoffs`,
+        mickey: format === "MICKEY" || format === "MICKEYBD",
+      });
+      res.setHeader("Content-Type", "image/svg+xml; charset=utf-8");
+      return res.status(200).send(svg);
+    }
+
+    const brackets = formats
+      .flatMap(format => divisions.map(division => ({ format, division, matches: publicBracket(state, format, division) })))
+      .filter(b => b.matches.length > 0);
+    return res.status(200).json({ ok: true, event, revision, brackets });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -0,0 +1,36 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { openPublicRequest } from "./_lib/publicState.js";
+import { calendarFileName, teamCalendar } from "../src/mickey/calendar.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET /api/calendar?event=<id>&division=UPPER&team=<teamId>
+//   -> text/calendar: the Mickey & Minnie team's pool matches and ref duties
+// Calendar apps subscribed to this URL pick up schedule changes on their own.
+// Needs the division's play date to be set. No key needed.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const request = await openPublicRequest(req, res);
+    if (!request) return;
+
+    const { event, revision, state, divisions } = request;
+    const teamId = Array.isArray(req.query.team) ? req.query.team[0] : req.query.team;
+    if (divisions.length !== 1 || !teamId) {
+      return res.status(400).json({ ok: false, error: "division and team are required" });
+    }
+
+    const [division] = divisions;
+    const data = state.mickey[division];
+    const team = data.teams.find(t => t.id === teamId);
+    if (!team) return res.status(404).json({ ok: false, error: "Unknown team" });
+
+    const ics = teamCalendar(data, team.id, { eventId: event.id, eventName: event.name, division, sequence: revision });
+    if (ics === null) return res.status(409).json({ ok: false, error: "The play date hasn't been set for this division" });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `inline; filename="${calendarFileName(team)}"`);
+    return res.status(200).send(ics);
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
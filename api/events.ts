@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin, sessionIdFrom } from "./_lib/auth.js";
+import { listEvents, newEventId, saveCopiedGames, updateEvents, type EventMeta } from "./_lib/events.js";
+import { readState, writeState } from "./_lib/stateStore.js";
+import { parseTournamentState } from "../src/schema.js";
+import { gameKey, ratedGames } from "../src/ratings.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET  /api/events                              -> { ok, events }
+// POST /api/events { action: "create", name }   -> { ok, event }
+// POST /api/events { action: "clone", id, name }-> { ok, event }  (copies rosters, matches, brackets)
+// POST /api/events { action: "archive" | "unarchive", id } -> { ok, event }
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,x-session-id");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  try {
+    if (req.method === "GET") {
+      return res.status(200).json({ ok: true, events: await listEvents() });
+    }
+
+    if (req.method === "POST") {
+      if (!requireAdmin(req, res)) return;
+
+      const { action, id, name } = req.body ?? {};
+      const events = await listEvents();
+
+      if (action === "create" || action === "clone") {
+        const cleanName = typeof name === "string" ? name.trim().slice(0, 80) : "";
+        if (!cleanName) return res.status(400).json({ ok: false, error: "Missing event name" });
+
+        const source = action === "clone" ? events.find(e => e.id === id) : null;
+        if (action === "clone" && !source) return res.status(404).json({ ok: false, error: "Unknown event" });
+
+        // The id is picked against the list the entry is saved into, so two
+        // events created at once can't end up sharing one.
+        let event!: EventMeta;
+        await updateEvents(current => {
+          event = {
+            id: newEventId(cleanName, current),
+            name: cleanName,
+            createdAt: Date.now(),
+            archived: false,
+            ...(source ? { clonedFrom: source.id } : {}),
+          };
+          return [...current, event];
+        });
+        if (source) {
+          const stored = await readState(source.id);
+          await writeState(event.id, 0, stored.data ?? null, { sessionId: sessionIdFrom(req), role: "admin", source: "clone" });
+          const parsed = parseTournamentState(stored.data);
+          await saveCopiedGames(event.id, parsed.ok ? ratedGames(parsed.state).map(gameKey) : []);
+        }
+        return res.status(200).json({ ok: true, event });
+      }
+
+      if (action === "archive" || action === "unarchive") {
+        const existing = events.find(e => e.id === id);
+        if (!existing) return res.status(404).json({ ok: false, error: "Unknown event" });
+
+        let event: EventMeta = existing;
+        await updateEvents(current =>
+          current.map(e => {
+            if (e.id !== existing.id) return e;
+            event = action === "archive"
+              ? { ...e, archived: true, archivedAt: Date.now() }
+              : { ...e, archived: false, archivedAt: undefined };
+            return event;
+          }),
+        );
+        return res.status(200).json({ ok: true, event });
+      }
+
+      return res.status(400).json({ ok: false, error: "Unknown action" });
+    }
+
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -1,9 +1,12 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { kv } from "@vercel/kv";
+import { storage } from "./_lib/storage.js";
+import { requireAdmin } from "./_lib/auth.js";
+import { eventIdFrom } from "./_lib/events.js";
+import { DEFAULT_EVENT_ID } from "./_lib/stateStore.js";
 
 export const config = { runtime: "nodejs" };
 
-const KEY = "blind-draw:heartbeats";
+const KEY_PREFIX = "blind-draw:heartbeats";
 const EXPIRE_MS = 30_000; // 30 seconds — sessions older than this are considered inactive
 
 type HeartbeatEntry = { sessionId: string; ts: number };
@@ -11,29 +14,36 @@ type HeartbeatEntry = { sessionId: string; ts: number };
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization");
 
   if (req.method === "OPTIONS") return res.status(204).end();
 
   try {
     const now = Date.now();
+    // Heartbeats are tracked per event so admins of different tournaments
+    // don't see each other as concurrent editors.
+    const eventId = eventIdFrom(req);
+    if (!eventId) return res.status(400).json({ ok: false, error: "Invalid event id" });
+    const key = eventId === DEFAULT_EVENT_ID ? KEY_PREFIX : `${KEY_PREFIX}:${eventId}`;
 
     if (req.method === "POST") {
+      // Only signed-in admins announce themselves as editors.
+      if (!requireAdmin(req, res)) return;
       const { sessionId } = req.body ?? {};
       if (!sessionId) return res.status(400).json({ ok: false, error: "Missing sessionId" });
 
-      const entries: HeartbeatEntry[] = (await kv.get(KEY)) ?? [];
+      const entries: HeartbeatEntry[] = (await storage.get(key)) ?? [];
       // Update or add this session, prune stale ones
       const fresh = entries.filter(e => e.sessionId !== sessionId && now - e.ts < EXPIRE_MS);
       fresh.push({ sessionId, ts: now });
-      await kv.set(KEY, fresh);
+      await storage.set(key, fresh);
 
       const otherActive = fresh.filter(e => e.sessionId !== sessionId).length;
       return res.status(200).json({ ok: true, otherActive });
     }
 
     if (req.method === "GET") {
-      const entries: HeartbeatEntry[] = (await kv.get(KEY)) ?? [];
+      const entries: HeartbeatEntry[] = (await storage.get(key)) ?? [];
       const fresh = entries.filter(e => now - e.ts < EXPIRE_MS);
       return res.status(200).json({ ok: true, active: fresh.length });
     }
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin, sessionIdFrom } from "./_lib/auth.js";
+import { resolveEvent } from "./_lib/events.js";
+import { listHistory, readHistoryVersion, readState, writeState } from "./_lib/stateStore.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET  /api/history?event=<id>              -> { ok, current, entries }   (newest first, no data)
+// GET  /api/history?event=<id>&revision=N   -> { ok, revision, data }
+// POST /api/history?event=<id> { revision } -> { ok, revision, data }    (restores N as a new revision)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,x-session-id");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  try {
+    if (req.method === "GET") {
+      // History can contain data an admin deliberately removed.
+      if (!requireAdmin(req, res)) return;
+      const event = await resolveEvent(req, res);
+      if (!event) return;
+
+      if (req.query.revision !== undefined) {
+        const revision = Number(req.query.revision);
+        const data = Number.isInteger(revision) ? await readHistoryVersion(event.id, revision) : undefined;
+        if (data === undefined) return res.status(404).json({ ok: false, error: "Revision not in history" });
+        return res.status(200).json({ ok: true, revision, data });
+      }
+
+      const [stored, entries] = await Promise.all([readState(event.id), listHistory(event.id)]);
+      return res.status(200).json({ ok: true, current: stored.revision, entries });
+    }
+
+    if (req.method === "POST") {
+      if (!requireAdmin(req, res)) return;
+      const event = await resolveEvent(req, res, true);
+      if (!event) return;
+
+      const revision = Number(req.body?.revision);
+      const data = Number.isInteger(revision) ? await readHistoryVersion(event.id, revision) : undefined;
+      if (data === undefined) return res.status(404).json({ ok: false, error: "Revision not in history" });
+
+      // Restoring is itself a new revision, so it can be undone the same way.
+      const stored = await readState(event.id);
+      const result = await writeState(event.id, stored.revision, data, { sessionId: sessionIdFrom(req), role: "admin", source: "restore" });
+      if (!result.ok) return res.status(409).json({ ok: false, error: "State changed during restore, try again" });
+      return res.status(200).json({ ok: true, revision: result.revision, data });
+    }
+
+    return res.status(405).json({ ok: false, error: "Method not allowed" });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
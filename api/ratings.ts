@@ -0,0 +1,68 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { parseTournamentState } from "../src/schema.js";
+import { computeRatings, gameKey, ratedGames, type RatedEvent, type RatingTable } from "../src/ratings.js";
+import { requireAdmin } from "./_lib/auth.js";
+import { listEvents, readCopiedGames } from "./_lib/events.js";
+import { readRevision, readState } from "./_lib/stateStore.js";
+import { storage } from "./_lib/storage.js";
+
+export const config = { runtime: "nodejs" };
+
+// Ratings are replayed from every event's results, oldest event first (games
+// a clone copied from its source count once, in the source), and kept with the revisions
+// they were computed from so repeat requests only redo the work once some
+// event has saved since.
+const RATINGS_KEY = "blind-draw:ratings";
+
+type StoredRatings = { sources: Record<string, number>; computedAt: number; ratings: RatingTable };
+
+const sameSources = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([id, rev]) => b[id] === rev);
+
+// GET /api/ratings -> { ok, computedAt, ratings }   (keyed by normalized player name)
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  try {
+    if (req.method !== "GET") {
+      return res.status(405).json({ ok: false, error: "Method not allowed" });
+    }
+    if (!requireAdmin(req, res)) return;
+
+    const events = (await listEvents()).slice().sort((a, b) => a.createdAt - b.createdAt);
+    const revisions = await Promise.all(events.map(e => readRevision(e.id)));
+    const sources = Object.fromEntries(events.map((e, i) => [e.id, revisions[i]]));
+
+    const cached = await storage.get<StoredRatings>(RATINGS_KEY);
+    if (cached && sameSources(cached.sources, sources)) {
+      return res.status(200).json({ ok: true, computedAt: cached.computedAt, ratings: cached.ratings });
+    }
+
+    const rated: RatedEvent[] = [];
+    for (const e of events) {
+      const stored = await readState(e.id);
+      if (stored.data == null) continue;
+      const parsed = parseTournamentState(stored.data);
+      // An unreadable event shouldn't block ratings from the others.
+      if (!parsed.ok) continue;
+      let copied: Set<string> | undefined;
+      if (e.clonedFrom) {
+        // Clones from before the copied games were recorded: skip the games
+        // that still match one in the source exactly.
+        const source = rated.find(r => r.id === e.clonedFrom);
+        const keys = (await readCopiedGames(e.id)) ?? (source ? ratedGames(source.state).map(gameKey) : []);
+        copied = new Set(keys);
+      }
+      rated.push({ id: e.id, state: parsed.state, copied });
+    }
+    const fresh: StoredRatings = { sources, computedAt: Date.now(), ratings: computeRatings(rated) };
+    await storage.set(RATINGS_KEY, fresh);
+    return res.status(200).json({ ok: true, computedAt: fresh.computedAt, ratings: fresh.ratings });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
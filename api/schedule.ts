@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { openPublicRequest } from "./_lib/publicState.js";
+import { publicSchedule } from "../src/publicApi.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET /api/schedule?event=<id>[&format=KOB][&division=UPPER]
+//   -> { ok, event, revision, matches }
+// Pool-play matches of every format and division unless filtered. No key needed.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const request = await openPublicRequest(req, res);
+    if (!request) return;
+
+    const { event, revision, state, formats, divisions } = request;
+    const matches = formats.flatMap(format => divisions.flatMap(division => publicSchedule(state, format, division)));
+    return res.status(200).json({ ok: true, event, revision, matches });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { readState, writeState } from "./_lib/stateStore.js";
+import { requireRole, sessionIdFrom } from "./_lib/auth.js";
+import { resolveEvent } from "./_lib/events.js";
+import { applyScorePatch, parseScorePatch } from "../src/scorePatch.js";
+import { migrateState } from "../src/schema.js";
+
+export const config = { runtime: "nodejs" };
+
+// How many times to re-read and re-apply a patch when another write lands
+// between our read and our compare-and-set.
+const MAX_ATTEMPTS = 5;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,x-session-id");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  try {
+    if (req.method !== "POST") {
+      return res.status(405).json({ ok: false, error: "Method not allowed" });
+    }
+    const role = requireRole(req, res, ["admin", "scorekeeper"]);
+    if (!role) return;
+    const event = await resolveEvent(req, res, true);
+    if (!event) return;
+
+    const patch = parseScorePatch(req.body);
+    if (!patch) return res.status(400).json({ ok: false, error: "Invalid score patch" });
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const stored = await readState(event.id);
+      // Older saves are upgraded first so the patch always sees the
+      // current layout (e.g. Doubles nested under doubles.UPPER).
+      const next = applyScorePatch(migrateState(stored.data), patch);
+      if (!next) return res.status(404).json({ ok: false, error: "Match not found" });
+
+      const result = await writeState(event.id, stored.revision, next, { sessionId: sessionIdFrom(req), role, source: "score" });
+      if (result.ok) return res.status(200).json({ ok: true, revision: result.revision });
+    }
+
+    return res.status(409).json({ ok: false, error: "State is changing too quickly, try again" });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
@@ -0,0 +1,25 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { openPublicRequest } from "./_lib/publicState.js";
+import { publicStandings } from "../src/publicApi.js";
+
+export const config = { runtime: "nodejs" };
+
+// GET /api/standings?event=<id>&format=DOUBLES&division=UPPER
+//   -> { ok, event, revision, format, division, standings }
+// Both format and division are required. No key needed.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const request = await openPublicRequest(req, res);
+    if (!request) return;
+
+    const { event, revision, state, formats, divisions } = request;
+    if (formats.length !== 1 || divisions.length !== 1) {
+      return res.status(400).json({ ok: false, error: "format and division are required" });
+    }
+
+    const [format, division] = [formats[0], divisions[0]];
+    return res.status(200).json({ ok: true, event, revision, format, division, standings: publicStandings(state, format, division) });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+  }
+}
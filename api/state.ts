@@ -1,43 +1,63 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { kv } from "@vercel/kv";
+import { readState, writeState } from "./_lib/stateStore.js";
+import { requireAdmin, sessionFrom, sessionIdFrom } from "./_lib/auth.js";
+import { resolveEvent } from "./_lib/events.js";
+import { parseTournamentState } from "../src/schema.js";
+import { withoutContacts } from "../src/players.js";
 
 export const config = {
   runtime: "nodejs",
 };
 
-const KEY = "blind-draw:state";
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
 
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type,x-admin-key");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type,Authorization,x-base-revision,x-session-id");
 
     if (req.method === "OPTIONS") {
       return res.status(204).end();
     }
 
     if (req.method === "GET") {
-      const data = await kv.get(KEY);
-      return res.status(200).json({ ok: true, data: data ?? null });
+      const event = await resolveEvent(req, res);
+      if (!event) return;
+      const stored = await readState(event.id);
+      const data = stored.data && sessionFrom(req)?.role !== "admin" ? withoutContacts(stored.data) : stored.data ?? null;
+      return res.status(200).json({ ok: true, data, revision: stored.revision, event });
     }
 
     if (req.method === "POST") {
-      const expected = process.env.ADMIN_KEY;
-      const sent = (req.headers["x-admin-key"] as string) || "";
+      if (!requireAdmin(req, res)) return;
+      const event = await resolveEvent(req, res, true);
+      if (!event) return;
 
-      if (!expected) {
-        return res.status(500).json({ ok: false, error: "Missing ADMIN_KEY env var" });
+      // The revision the client's edits were based on. A write is only
+      // accepted if nobody else has saved since that revision.
+      const baseRevision = Number(req.headers["x-base-revision"]);
+      if (!Number.isInteger(baseRevision) || baseRevision < 0) {
+        return res.status(428).json({ ok: false, error: "Missing or invalid x-base-revision header" });
       }
 
-      if (sent !== expected) {
-        return res.status(401).json({ ok: false, error: "Unauthorized" });
+      // Reject malformed payloads here rather than letting every viewer trip
+      // over them on their next poll. Older-schema saves are upgraded first.
+      const parsed = parseTournamentState(req.body);
+      if (!parsed.ok) {
+        return res.status(400).json({ ok: false, error: "Invalid tournament state", errors: parsed.errors });
       }
 
-      await kv.set(KEY, req.body ?? null);
+      const result = await writeState(event.id, baseRevision, parsed.state, { sessionId: sessionIdFrom(req), role: "admin", source: "save" });
+      if (!result.ok) {
+        return res.status(409).json({
+          ok: false,
+          error: "State was changed by another admin",
+          revision: result.current.revision,
+          data: result.current.data ?? null,
+        });
+      }
 
-      return res.status(200).json({ ok: true });
+      return res.status(200).json({ ok: true, revision: result.revision });
     }
 
     return res.status(405).json({ ok: false, error: "Method not allowed" });
@@ -0,0 +1,104 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { resolveEvent } from "./_lib/events.js";
+import { readRevision } from "./_lib/stateStore.js";
+
+export const config = { runtime: "nodejs" };
+
+// How often each event's revision is checked. One check per event is shared
+// by every stream open on this instance (see watchRevision), so a crowd of
+// spectators costs the same lookups as one, and scores still reach phones
+// within a second of entry.
+const CHECK_MS = 1000;
+// Comment line sent every so often, so proxies and phones don't drop an idle
+// connection.
+const KEEPALIVE_MS = 15_000;
+// Close the stream before the function time limit; EventSource reconnects
+// on its own (after the `retry` delay) and picks up where it left off.
+const STREAM_MS = 55_000;
+
+type Watcher = { revision: number | null; listeners: Set<(revision: number) => void> };
+const watchers = new Map<string, Watcher>();
+
+// Call `listener` with the event's revision now (once known) and whenever it
+// changes, until the returned function is called. The first stream for an
+// event starts its check loop and the last one to leave stops it.
+function watchRevision(eventId: string, listener: (revision: number) => void): () => void {
+  const existing = watchers.get(eventId);
+  const watcher: Watcher = existing ?? { revision: null, listeners: new Set() };
+  if (watcher.revision !== null) listener(watcher.revision);
+  watcher.listeners.add(listener);
+
+  if (!existing) {
+    watchers.set(eventId, watcher);
+    const check = async () => {
+      if (!watcher.listeners.size) {
+        watchers.delete(eventId);
+        return;
+      }
+      try {
+        const revision = await readRevision(eventId);
+        if (revision !== watcher.revision) {
+          watcher.revision = revision;
+          for (const l of watcher.listeners) l(revision);
+        }
+      } catch (err) {
+        // Try again on the next check; clients fall back to polling if the
+        // stream stays quiet.
+        console.error("revision check failed", err);
+      }
+      setTimeout(check, CHECK_MS);
+    };
+    void check();
+  }
+  return () => { watcher.listeners.delete(listener); };
+}
+
+// GET /api/stream?event=<id>  (text/event-stream)
+//   event: revision
+//   data: {"revision":N}
+// Sent once on connect and again whenever someone saves. Clients fetch
+// /api/state when the revision differs from the one they have.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") return res.status(204).end();
+  if (req.method !== "GET") return res.status(405).json({ ok: false, error: "Method not allowed" });
+
+  try {
+    const event = await resolveEvent(req, res);
+    if (!event) return;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 1000\n\n");
+
+    let lastSent = -1;
+    const stop = watchRevision(event.id, revision => {
+      if (revision === lastSent) return;
+      res.write(`event: revision\ndata: ${JSON.stringify({ revision })}\n\n`);
+      lastSent = revision;
+    });
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+
+    // The response (not the request, whose body is already read) closes
+    // when the client goes away.
+    let rotate: ReturnType<typeof setTimeout> | undefined;
+    await new Promise<void>(resolve => {
+      res.on("close", resolve);
+      rotate = setTimeout(resolve, STREAM_MS);
+    });
+    clearTimeout(rotate);
+    stop();
+    clearInterval(keepalive);
+    res.end();
+  } catch (err: any) {
+    if (!res.headersSent) return res.status(500).json({ ok: false, error: err?.message || "Server error" });
+    res.end();
+  }
+}
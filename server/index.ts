@@ -0,0 +1,135 @@
+import http from "node:http";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+// ── Local server ─────────────────────────────────────────────────────────────
+// Runs the whole app without Vercel: serves the built client from dist/ and
+// the same /api/* handlers, storing data as files under STORAGE_DIR. Meant
+// for a laptop at the venue hosting phones on the local wifi.
+//
+//   npm run build
+//   ADMIN_KEY=secret npm start            # PORT (3000) and STORAGE_DIR (./data) optional
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DIST = path.join(ROOT, "dist");
+const PORT = Number(process.env.PORT) || 3000;
+
+// Must be set before the handlers load, since the storage backend is picked
+// when api/_lib/storage.ts is first imported.
+process.env.STORAGE_DIR ||= path.join(ROOT, "data");
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+const ROUTES: Record<string, Handler> = {
+  state: (await import("../api/state.js")).default,
+  score: (await import("../api/score.js")).default,
+  events: (await import("../api/events.js")).default,
+  history: (await import("../api/history.js")).default,
+  heartbeat: (await import("../api/heartbeat.js")).default,
+  stream: (await import("../api/stream.js")).default,
+  auth: (await import("../api/auth.js")).default,
+  audit: (await import("../api/audit.js")).default,
+  standings: (await import("../api/standings.js")).default,
+  schedule: (await import("../api/schedule.js")).default,
+  bracket: (await import("../api/bracket.js")).default,
+  calendar: (await import("../api/calendar.js")).default,
+  ratings: (await import("../api/ratings.js")).default,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".ico": "image/x-icon",
+  ".webmanifest": "application/manifest+json",
+};
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return undefined;
+  if (!(req.headers["content-type"] || "").includes("application/json")) return text;
+  try { return JSON.parse(text); } catch { return text; }
+}
+
+// Give Node's request/response the parts of the Vercel helpers the handlers
+// use: req.query, req.body, res.status(), res.json() and res.send().
+async function toVercel(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(url.searchParams.keys())) {
+    const all = url.searchParams.getAll(key);
+    query[key] = all.length > 1 ? all : all[0];
+  }
+  const vreq = Object.assign(req, { query, cookies: {}, body: await readBody(req) });
+  const vres = Object.assign(res, {
+    status(code: number) { res.statusCode = code; return vres; },
+    json(value: unknown) {
+      if (!res.getHeader("Content-Type")) res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify(value));
+      return vres;
+    },
+    send(body: unknown) {
+      if (typeof body === "object" && body !== null && !Buffer.isBuffer(body)) return vres.json(body);
+      res.end(body as string | Buffer);
+      return vres;
+    },
+  });
+  return { vreq: vreq as unknown as VercelRequest, vres: vres as unknown as VercelResponse };
+}
+
+// Static files from dist/, falling back to index.html for client routes
+// (the same rewrite vercel.json does).
+function serveStatic(pathname: string, res: http.ServerResponse) {
+  let file = path.join(DIST, decodeURIComponent(pathname));
+  // Anything resolving outside dist/ (../, or a sibling like dist-old/) gets index.html.
+  const rel = path.relative(DIST, file);
+  if (rel.startsWith("..") || path.isAbsolute(rel) || !fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    file = path.join(DIST, "index.html");
+  }
+  if (!fs.existsSync(file)) {
+    res.statusCode = 503;
+    res.end("dist/ not found. Run `npm run build` first.");
+    return;
+  }
+  res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream");
+  // Vite fingerprints everything under assets/, so those can be cached forever.
+  res.setHeader("Cache-Control", file.includes(`${path.sep}assets${path.sep}`) ? "public, max-age=31536000, immutable" : "no-cache");
+  fs.createReadStream(file).pipe(res);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  try {
+    const match = /^\/api\/([a-z-]+)\/?$/.exec(url.pathname);
+    if (match) {
+      const handler = ROUTES[match[1]];
+      if (!handler) { res.statusCode = 404; res.end(); return; }
+      const { vreq, vres } = await toVercel(req, res, url);
+      await handler(vreq, vres);
+      return;
+    }
+    serveStatic(url.pathname, res);
+  } catch (err: any) {
+    if (!res.headersSent) res.statusCode = 500;
+    res.end(err?.message || "Server error");
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Blind draw running on http://localhost:${PORT}`);
+  for (const addrs of Object.values(os.networkInterfaces())) {
+    for (const a of addrs ?? []) {
+      if (a.family === "IPv4" && !a.internal) console.log(`  on the local network: http://${a.address}:${PORT}`);
+    }
+  }
+  console.log(`Data is stored in ${process.env.STORAGE_DIR}`);
+  if (!process.env.ADMIN_KEY) console.warn("ADMIN_KEY is not set: admin edits will be refused until it is.");
+});
@@ -1,6 +1,15 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import type { MatchRow, QuadsMatchRow, TriplesMatchRow, BracketMatch, KobGameRow, ScoreSettings, MickeyTeam, MickeyMatchRow } from './types';
-import { apiGetState, apiSaveState } from './api';
+import type {
+  MatchRow, QuadsMatchRow, TriplesMatchRow, BracketMatch, KobGameRow, ScoreSettings,
+  MickeyMatchRow, DivisionState, MickeyDivisionState, MickeyBDDivisionState, PlayerRecord, TournamentState,
+} from './types';
+import { CURRENT_SCHEMA_VERSION, emptyDivisionState, emptyMickeyState, emptyMickeyBDState, emptyTournamentState, parseTournamentState } from './schema';
+import { apiGetRatings, apiGetState, apiLogin, loadAdminSession, saveAdminSession, subscribeToState, StateConflictError, SessionExpiredError, type AdminSession, type RemoteState, eventIdFromUrl, getSessionId, DEFAULT_EVENT_ID, type EventMeta } from './api';
+import { mergeStates } from './merge';
+import { availabilityOf, playerKey, renamePlayer, rosterRename, syncPlayerRegistry, withContacts, type RosterField } from './players';
+import type { RatingTable } from './ratings';
+import { diffStates, scorePatchesFrom } from './stateDiff';
+import { enqueueScores, enqueueState, flushQueue, loadConflict, loadQueue, saveConflict, withQueuedScores } from './writeQueue';
 import { SunnyLogo } from './components/SunnyLogo';
 import { LineNumberTextarea } from './components/LinedTextarea';
 import { BracketView } from './components/BracketView';
@@ -25,6 +34,7 @@ import { MickeyMatchesView } from './mickey/MatchesView';
 import { MickeyLeaderboard } from './mickey/Leaderboard';
 import { MickeyPlayoffBuilder } from './mickey/PlayoffBuilder';
 import { MickeyBracketView } from './mickey/BracketView';
+import { TeamCalendars } from './mickey/TeamCalendars';
 import { MickeyBDRoundManager } from './mickeyBlind/RoundManager';
 import { MickeyBDMatchesView } from './mickeyBlind/MatchesView';
 import { MickeyBDLeaderboard } from './mickeyBlind/Leaderboard';
@@ -34,57 +44,21 @@ import { ScoreSettingsPanel } from './components/ScoreSettingsPanel';
 import { Sidebar, SIDEBAR_DIVISIONS, SIDEBAR_SECTIONS, type SidebarSection, type SidebarTabKey } from './components/Sidebar';
 import { ThemeToggle, readStoredTheme, applyTheme, persistTheme, type Theme } from './components/ThemeToggle';
 import { ScoreFocusPage } from './components/ScoreFocusPage';
+import { EventPicker } from './components/EventPicker';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ActivityPanel } from './components/ActivityPanel';
+import { PlayerRegistry } from './components/PlayerRegistry';
+import { RosterImport } from './components/RosterImport';
+import { RosterLint } from './components/RosterLint';
+import { BackupPanel } from './components/BackupPanel';
+import { ResultsExport } from './components/ResultsExport';
+import { ItineraryCards } from './components/ItineraryCards';
+import { doublesItineraries, kobItineraries, mickeyItineraries, quadsItineraries, triplesItineraries } from './itineraries';
 
 type TabKey = SidebarTabKey;
 type DivisionKey = "UPPER" | "LOWER";
 type SectionKey = SidebarSection;
 
-type DivisionState<TMatch> = { guysText: string; girlsText: string; matches: TMatch[]; brackets: BracketMatch[] };
-
-function emptyDivisionState<TMatch>(): DivisionState<TMatch> {
-  return { guysText: "", girlsText: "", matches: [], brackets: [] };
-}
-
-type MickeyDivisionState = {
-  pairsText: string;
-  freeAgentsText: string;
-  teams: MickeyTeam[];
-  matches: MickeyMatchRow[];
-  brackets: BracketMatch[];
-  courtCount?: number;
-  firstFormat?: 'MICKEY' | 'MINNIE';
-  // 'COMBINED' = single round-robin, each match plays both Mickey + Minnie
-  // sets back-to-back (one match card with two score columns).
-  // 'ALTERNATING' = double round-robin, round 1 all one format and round 2
-  // the other (one set per match card).
-  matchFormat?: 'COMBINED' | 'ALTERNATING';
-};
-function emptyMickeyState(): MickeyDivisionState {
-  return {
-    pairsText: "", freeAgentsText: "", teams: [], matches: [], brackets: [],
-    courtCount: 1, firstFormat: 'MICKEY', matchFormat: 'ALTERNATING',
-  };
-}
-
-// Mickey & Minnie Blind Draw — teams re-randomize every round, but pairs
-// stay together within each round (same draw algorithm as fixed M&M).
-type MickeyBDRound = {
-  id: string;
-  number: number;
-  teams: MickeyTeam[];
-  matches: MickeyMatchRow[];
-};
-type MickeyBDDivisionState = {
-  pairsText: string;
-  freeAgentsText: string;
-  rounds: MickeyBDRound[];
-  brackets: BracketMatch[];
-  courtCount?: number;
-};
-function emptyMickeyBDState(): MickeyBDDivisionState {
-  return { pairsText: "", freeAgentsText: "", rounds: [], brackets: [], courtCount: 1 };
-}
-
 // Short description for each format, shown at the top of its Home page.
 const FORMAT_DESCRIPTIONS: Record<SidebarTabKey, { tagline: string; details: React.ReactNode }> = {
   DOUBLES: {
@@ -216,14 +190,55 @@ export default function BlindDrawTourneyApp() {
   }, []);
   const focusedMatchId = hash.startsWith('#score=') ? decodeURIComponent(hash.slice('#score='.length)) : null;
 
-  const [adminKey, setAdminKey] = useState<string>(() => { try { return sessionStorage.getItem("ADMIN_KEY") || ""; } catch { return ""; } });
-  const isAdmin = !!adminKey;
+  // Signing in trades the key for an expiring session token (see /api/auth);
+  // only the token is kept, for this tab.
+  const [session, setSession] = useState<AdminSession | null>(() => loadAdminSession());
+  const authToken = session?.token ?? "";
+  // Each tournament is its own event on the server; the id lives in the URL.
+  const [eventId] = useState<string>(() => eventIdFromUrl());
+  const [eventMeta, setEventMeta] = useState<EventMeta | null>(null);
+  const isArchived = !!eventMeta?.archived;
+  // Archived events are read-only for everyone, admins included.
+  const isAdmin = session?.role === "admin" && !isArchived;
+  // Scorekeepers can enter scores but see none of the structural controls
+  // (round generators, playoff builders, reset); their edits are sent as
+  // score patches rather than whole-state saves.
+  const isScorekeeper = session?.role === "scorekeeper" && !isArchived;
+  const canScore = isAdmin || isScorekeeper;
+  // Back to Viewer Mode: on Lock, when the token expires, or when the server
+  // stops accepting it (e.g. the keys were changed).
+  function endSession(expired = false) {
+    saveAdminSession(null);
+    setSession(null);
+    setAdminKeyError(expired ? "Your session has expired. Unlock editing again." : "");
+  }
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setTimeout(() => endSession(true), session.expiresAt - Date.now());
+    return () => window.clearTimeout(timer);
+  }, [session]);
+  const autosaveKey = eventId === DEFAULT_EVENT_ID ? "sunnysports.autosave" : `sunnysports.autosave:${eventId}`;
   const [loadingRemote, setLoadingRemote] = useState(true);
   const [remoteError, setRemoteError] = useState<string>("");
   const [adminKeyError, setAdminKeyError] = useState<string>("");
   const [otherAdminActive, setOtherAdminActive] = useState(false);
   const saveTimer = useRef<number | null>(null);
-  const [sessionId] = useState<string>(() => { try { let id = sessionStorage.getItem("SESSION_ID"); if (!id) { id = Math.random().toString(36).slice(2); sessionStorage.setItem("SESSION_ID", id); } return id; } catch { return Math.random().toString(36).slice(2); } });
+  // Optimistic concurrency: the server revision our local state is based on,
+  // the state as of that revision (the merge base) and its JSON so unchanged
+  // snapshots aren't re-posted.
+  const revisionRef = useRef(0);
+  const baseStateRef = useRef<TournamentState | null>(null);
+  const syncedJsonRef = useRef<string>("");
+  const [conflict, setConflict] = useState<{ revision: number; theirs: TournamentState; base: TournamentState | null; conflicts: string[] } | null>(null);
+  const [saveRetry, setSaveRetry] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showPlayers, setShowPlayers] = useState(false);
+  // Saves waiting in the offline queue (see writeQueue.ts), and whether the
+  // last attempt to send them couldn't reach the server.
+  const [pendingWrites, setPendingWrites] = useState(() => loadQueue(eventId).length);
+  const [offline, setOffline] = useState(false);
+  const [sessionId] = useState<string>(() => getSessionId());
 
   const [dUpper, setDUpper] = useState<DivisionState<MatchRow>>(emptyDivisionState<MatchRow>());
   const [dLower, setDLower] = useState<DivisionState<MatchRow>>(emptyDivisionState<MatchRow>());
@@ -243,69 +258,34 @@ export default function BlindDrawTourneyApp() {
   const [mbdUpper, setMBDUpper] = useState<MickeyBDDivisionState>(emptyMickeyBDState());
   const [mbdLower, setMBDLower] = useState<MickeyBDDivisionState>(emptyMickeyBDState());
   const [mbdScoreSettings, setMBDScoreSettings] = useState<ScoreSettings>({ playTo: 21, cap: null });
+  const [players, setPlayers] = useState<PlayerRecord[]>([]);
 
   async function handleResetApp() {
     const ok = window.confirm(
-      "Reset the whole app? This will clear all rosters, matches, brackets, and autosaved data."
+      isAdmin
+        ? "Reset the whole app? This will clear all rosters, matches, brackets, and autosaved data. (It can be undone from \"Restore to…\".)"
+        : "Reset the whole app? This will clear all rosters, matches, brackets, and autosaved data."
     );
     if (!ok) return;
 
-    const emptyDUpper = emptyDivisionState<MatchRow>();
-    const emptyDLower = emptyDivisionState<MatchRow>();
-    const emptyQUpper = emptyDivisionState<QuadsMatchRow>();
-    const emptyQLower = emptyDivisionState<QuadsMatchRow>();
-    const emptyTUpper = emptyDivisionState<TriplesMatchRow>();
-    const emptyTLower = emptyDivisionState<TriplesMatchRow>();
-    const emptyKobUpper = emptyDivisionState<KobGameRow>();
-    const emptyKobLower = emptyDivisionState<KobGameRow>();
-    const emptyMUpper = emptyMickeyState();
-    const emptyMLower = emptyMickeyState();
-    const emptyMBDUpper = emptyMickeyBDState();
-    const emptyMBDLower = emptyMickeyBDState();
-
-    setDUpper(emptyDUpper);
-    setDLower(emptyDLower);
-    setQUpper(emptyQUpper);
-    setQLower(emptyQLower);
-    setTUpper(emptyTUpper);
-    setTLower(emptyTLower);
-    setKobUpper(emptyKobUpper);
-    setKobLower(emptyKobLower);
-    setMUpper(emptyMUpper);
-    setMLower(emptyMLower);
-    setMBDUpper(emptyMBDUpper);
-    setMBDLower(emptyMBDLower);
+    const emptySnapshot = emptyTournamentState();
+    applyRemoteState(emptySnapshot);
     setActiveTab("DOUBLES");
     setActiveDivision("UPPER");
     setActiveSection("HOME");
 
     try {
-      localStorage.removeItem("sunnysports.autosave");
+      localStorage.removeItem(autosaveKey);
     } catch {}
 
     if (isAdmin) {
-      const emptySnapshot = {
-        activeTab: "DOUBLES",
-        activeDivision: "UPPER",
-        doubles: { UPPER: emptyDUpper, LOWER: emptyDLower },
-        quads: { UPPER: emptyQUpper, LOWER: emptyQLower },
-        triples: { UPPER: emptyTUpper, LOWER: emptyTLower },
-        mickey: { UPPER: emptyMUpper, LOWER: emptyMLower },
-        guysText: "", girlsText: "", matches: [], brackets: [],
-        qGuysText: "", qGirlsText: "", qMatches: [], qBrackets: [],
-        tGuysText: "", tGirlsText: "", tMatches: [], tBrackets: [],
-      };
-
-      try {
-        await apiSaveState(emptySnapshot as any, adminKey);
-        setRemoteError("");
-      } catch (e: any) {
-        setRemoteError(e?.message || "Failed to reset shared data");
-      }
+      setPendingWrites(enqueueState(eventId, emptySnapshot, baseStateRef.current, revisionRef.current));
+      flushWrites();
     }
   }
 
-  const snapshotState = useMemo(() => ({
+  const snapshotState = useMemo<TournamentState>(() => ({
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     activeTab,
     activeDivision,
     doubles: { UPPER: dUpper, LOWER: dLower },
@@ -314,104 +294,242 @@ export default function BlindDrawTourneyApp() {
     kob: { UPPER: kobUpper, LOWER: kobLower },
     mickey: { UPPER: mUpper, LOWER: mLower },
     mickeyBD: { UPPER: mbdUpper, LOWER: mbdLower },
+    players,
     dScoreSettings, qScoreSettings, tScoreSettings, kobScoreSettings, mScoreSettings, mbdScoreSettings,
-    guysText: dUpper.guysText, girlsText: dUpper.girlsText, matches: dUpper.matches, brackets: dUpper.brackets,
-    qGuysText: qUpper.guysText, qGirlsText: qUpper.girlsText, qMatches: qUpper.matches, qBrackets: qUpper.brackets,
-    tGuysText: tUpper.guysText, tGirlsText: tUpper.girlsText, tMatches: tUpper.matches, tBrackets: tUpper.brackets,
-  } as any), [activeTab, activeDivision, dUpper, dLower, qUpper, qLower, tUpper, tLower, kobUpper, kobLower, mUpper, mLower, mbdUpper, mbdLower, dScoreSettings, qScoreSettings, tScoreSettings, kobScoreSettings, mScoreSettings, mbdScoreSettings]);
+  }), [activeTab, activeDivision, dUpper, dLower, qUpper, qLower, tUpper, tLower, kobUpper, kobLower, mUpper, mLower, mbdUpper, mbdLower, players, dScoreSettings, qScoreSettings, tScoreSettings, kobScoreSettings, mScoreSettings, mbdScoreSettings]);
+
+  const snapshotRef = useRef<TournamentState>(snapshotState);
+  snapshotRef.current = snapshotState;
+
+  function markSynced(data: TournamentState | null, revision: number) {
+    revisionRef.current = revision;
+    baseStateRef.current = data;
+    syncedJsonRef.current = JSON.stringify(data);
+  }
+
+  // Replace every format's data with a remote copy. Navigation (tab and
+  // division) is left alone so an update doesn't yank the user elsewhere.
+  function applyRemoteState(remote: TournamentState) {
+    setDUpper(remote.doubles.UPPER);
+    setDLower(remote.doubles.LOWER);
+    setQUpper(remote.quads.UPPER);
+    setQLower(remote.quads.LOWER);
+    setTUpper(remote.triples.UPPER);
+    setTLower(remote.triples.LOWER);
+    setKobUpper(remote.kob.UPPER);
+    setKobLower(remote.kob.LOWER);
+    setMUpper(remote.mickey.UPPER);
+    setMLower(remote.mickey.LOWER);
+    setMBDUpper(remote.mickeyBD.UPPER);
+    setMBDLower(remote.mickeyBD.LOWER);
+    setPlayers(remote.players);
+    setDScoreSettings(remote.dScoreSettings);
+    setQScoreSettings(remote.qScoreSettings);
+    setTScoreSettings(remote.tScoreSettings);
+    setKobScoreSettings(remote.kobScoreSettings);
+    setMScoreSettings(remote.mScoreSettings);
+    setMBDScoreSettings(remote.mbdScoreSettings);
+  }
+
+  // Another admin saved since our base revision. Edits that don't overlap
+  // are merged silently and re-saved by the autosave; overlapping edits stop
+  // autosaving until the admin picks a side in the conflict prompt.
+  function handleConflict(err: StateConflictError, mine: TournamentState, base = baseStateRef.current) {
+    const theirs = err.data ?? emptyTournamentState();
+    // Tab / division are per-admin navigation, never worth a conflict.
+    const mineData = { ...mine, activeTab: theirs.activeTab, activeDivision: theirs.activeDivision };
+    const { merged, conflicts } = mergeStates(base, mineData, theirs);
+    if (conflicts.length === 0) {
+      saveConflict(eventId, null);
+      markSynced(theirs, err.revision);
+      applyRemoteState(merged);
+      setSaveRetry(n => n + 1);
+      setRemoteError("");
+      return;
+    }
+    setConflict({ revision: err.revision, theirs, base, conflicts });
+  }
+
+  // A roster line corrected in place renames that player everywhere (asking
+  // first when they're already in rounds, brackets or other rosters), so a
+  // fixed typo keeps the games played under it. See rosterRename.
+  const onRosterEdited = (field: RosterField) => (before: string, after: string) => {
+    const r = rosterRename(snapshotRef.current, field, before, after);
+    if (!r) return;
+    if (r.inUse && !window.confirm(
+      `Rename "${r.from}" to "${r.to}" everywhere, including rounds and brackets already drawn? Cancel keeps "${r.to}" as a separate player.`,
+    )) return;
+    // A record registered for the new spelling while it was typed isn't a
+    // second person; drop it so the rename keeps the player's own record.
+    // One with details of its own is merged instead.
+    const current = snapshotRef.current;
+    const players = current.players.filter(p =>
+      playerKey(p.name) !== playerKey(r.to) || !!(p.contact || p.arrivesRound || p.leavesAfterRound));
+    applyRemoteState(renamePlayer({ ...current, players }, r.from, r.to));
+  };
+
+  function resolveConflict(choice: 'merge' | 'reload') {
+    if (!conflict) return;
+    const { theirs, base, revision } = conflict;
+    if (choice === 'reload') {
+      applyRemoteState(theirs);
+    } else {
+      const mineData = { ...snapshotRef.current, activeTab: theirs.activeTab, activeDivision: theirs.activeDivision };
+      applyRemoteState(mergeStates(base, mineData, theirs, 'mine').merged);
+    }
+    markSynced(theirs, revision);
+    saveConflict(eventId, null);
+    setConflict(null);
+    setRemoteError("");
+  }
 
   useEffect(() => {
     (async () => {
       try {
-        const remote: any = await apiGetState();
-        const data: any = remote || (()=> { try { const raw = localStorage.getItem("sunnysports.autosave"); return raw ? JSON.parse(raw) : null; } catch { return null; } })();
+        let remote: RemoteState | null = null;
+        try {
+          remote = await apiGetState(eventId, authToken);
+        } catch (e: any) {
+          setRemoteError(e?.message || "Failed to load shared data");
+        }
+        // Scores still waiting to be sent are laid over the server copy. A
+        // whole-state save left over from before a reload wins outright; its
+        // replay checks the revision it was based on for conflicts.
+        const synced = remote?.data ? withQueuedScores(eventId, remote.data) : null;
+        if (remote) { markSynced(synced, remote.revision); setEventMeta(remote.event); }
+        const queuedState = loadQueue(eventId).filter(w => w.kind === 'state').pop();
+        let data: TournamentState | null = queuedState?.kind === 'state' ? queuedState.state : synced;
+        // This browser's autosave, upgraded like any server copy. A corrupt
+        // autosave is ignored.
+        const readAutosave = () => {
+          try {
+            const raw = localStorage.getItem(autosaveKey);
+            const parsed = raw ? parseTournamentState(JSON.parse(raw)) : null;
+            return parsed?.ok ? parsed.state : null;
+          } catch {
+            return null;
+          }
+        };
+        // A conflict left unresolved before a reload: put our edits back (the
+        // autosave has the newest) and check them again against the newest
+        // server copy, or the one the conflict was against when offline.
+        const pending = session?.role === "admin" && !remote?.event?.archived ? loadConflict(eventId) : null;
+        if (pending) data = readAutosave() ?? pending.mine;
+        // Otherwise fall back to the autosave only when the server has
+        // nothing (or can't be reached).
+        if (!data) data = readAutosave();
         if (data) {
-          if (data.doubles?.UPPER) setDUpper(data.doubles.UPPER); else setDUpper({ guysText: data.guysText || "", girlsText: data.girlsText || "", matches: Array.isArray(data.matches) ? data.matches : [], brackets: Array.isArray(data.brackets) ? data.brackets : [] });
-          if (data.doubles?.LOWER) setDLower(data.doubles.LOWER);
-          if (data.quads?.UPPER) setQUpper(data.quads.UPPER); else setQUpper({ guysText: data.qGuysText || "", girlsText: data.qGirlsText || "", matches: Array.isArray(data.qMatches) ? data.qMatches : [], brackets: Array.isArray(data.qBrackets) ? data.qBrackets : [] });
-          if (data.quads?.LOWER) setQLower(data.quads.LOWER);
-          if (data.triples?.UPPER) setTUpper(data.triples.UPPER); else setTUpper({ guysText: data.tGuysText || "", girlsText: data.tGirlsText || "", matches: Array.isArray(data.tMatches) ? data.tMatches : [], brackets: Array.isArray(data.tBrackets) ? data.tBrackets : [] });
-          if (data.triples?.LOWER) setTLower(data.triples.LOWER);
-          if (data.kob?.UPPER) setKobUpper(data.kob.UPPER);
-          if (data.kob?.LOWER) setKobLower(data.kob.LOWER);
-          if (data.mickey?.UPPER) setMUpper(data.mickey.UPPER);
-          if (data.mickey?.LOWER) setMLower(data.mickey.LOWER);
-          // Merge with empty state so older saves (which may not have all
-          // fields like `brackets`) don't crash on .length / .some().
-          if (data.mickeyBD?.UPPER) setMBDUpper({ ...emptyMickeyBDState(), ...data.mickeyBD.UPPER });
-          if (data.mickeyBD?.LOWER) setMBDLower({ ...emptyMickeyBDState(), ...data.mickeyBD.LOWER });
-          if (data.dScoreSettings) setDScoreSettings(data.dScoreSettings);
-          if (data.qScoreSettings) setQScoreSettings(data.qScoreSettings);
-          else if (data.qScoreCap === 21 || data.qScoreCap === 25) setQScoreSettings({ playTo: 21, cap: data.qScoreCap });
-          if (data.tScoreSettings) setTScoreSettings(data.tScoreSettings);
-          if (data.kobScoreSettings) setKobScoreSettings(data.kobScoreSettings);
-          if (data.mScoreSettings) setMScoreSettings(data.mScoreSettings);
-          if (data.mbdScoreSettings) setMBDScoreSettings(data.mbdScoreSettings);
-          if (data.activeTab === "DOUBLES" || data.activeTab === "QUADS" || data.activeTab === "TRIPLES" || data.activeTab === "KOB" || data.activeTab === "MICKEY" || data.activeTab === "MICKEYBD") setActiveTab(data.activeTab);
-          if (data.activeDivision === "UPPER" || data.activeDivision === "LOWER") setActiveDivision(data.activeDivision);
+          applyRemoteState(data);
+          setActiveTab(data.activeTab);
+          setActiveDivision(data.activeDivision);
+        }
+        if (pending && data) {
+          const err = remote ? new StateConflictError(remote.revision, synced) : new StateConflictError(pending.revision, pending.theirs);
+          handleConflict(err, data, pending.base);
         }
         setLoadingRemote(false);
       } catch (e: any) { setRemoteError(e?.message || "Failed to load shared data"); setLoadingRemote(false); }
     })();
   }, []);
 
-  // Viewer-only polling: non-admin clients re-fetch state every 5 seconds so
-  // the main app shows live scores without needing a manual refresh. Admins
-  // don't poll (their local state is canonical and autosaves). The focused
-  // live-score page is skipped (it has its own poll).
+  // Viewer and scorekeeper live updates: non-admin clients follow the
+  // server's push stream (polling every 5 seconds where it isn't available)
+  // so the main app shows live scores without needing a manual refresh.
+  // A scorekeeper's scores that haven't been sent yet are merged over the
+  // update rather than lost. Admins don't follow (their local state is
+  // canonical and autosaves). The focused live-score page is skipped (it has
+  // its own subscription).
   useEffect(() => {
     if (isAdmin) return;
     if (focusedMatchId) return;
     const VIEWER_POLL_MS = 5000;
-    const interval = setInterval(async () => {
-      try {
-        const remote: any = await apiGetState();
-        if (!remote) return;
-        if (remote.doubles?.UPPER) setDUpper(remote.doubles.UPPER);
-        if (remote.doubles?.LOWER) setDLower(remote.doubles.LOWER);
-        if (remote.quads?.UPPER) setQUpper(remote.quads.UPPER);
-        if (remote.quads?.LOWER) setQLower(remote.quads.LOWER);
-        if (remote.triples?.UPPER) setTUpper(remote.triples.UPPER);
-        if (remote.triples?.LOWER) setTLower(remote.triples.LOWER);
-        if (remote.kob?.UPPER) setKobUpper(remote.kob.UPPER);
-        if (remote.kob?.LOWER) setKobLower(remote.kob.LOWER);
-        if (remote.mickey?.UPPER) setMUpper(remote.mickey.UPPER);
-        if (remote.mickey?.LOWER) setMLower(remote.mickey.LOWER);
-        if (remote.mickeyBD?.UPPER) setMBDUpper({ ...emptyMickeyBDState(), ...remote.mickeyBD.UPPER });
-        if (remote.mickeyBD?.LOWER) setMBDLower({ ...emptyMickeyBDState(), ...remote.mickeyBD.LOWER });
-        if (remote.dScoreSettings) setDScoreSettings(remote.dScoreSettings);
-        if (remote.qScoreSettings) setQScoreSettings(remote.qScoreSettings);
-        if (remote.tScoreSettings) setTScoreSettings(remote.tScoreSettings);
-        if (remote.kobScoreSettings) setKobScoreSettings(remote.kobScoreSettings);
-        if (remote.mScoreSettings) setMScoreSettings(remote.mScoreSettings);
-        if (remote.mbdScoreSettings) setMBDScoreSettings(remote.mbdScoreSettings);
-      } catch {
-        // Swallow polling errors so a flaky network doesn't blow up viewers.
+    return subscribeToState(eventId, remote => {
+      if (!remote.data || remote.revision === revisionRef.current) return;
+      const theirs = withQueuedScores(eventId, remote.data);
+      const pending = isScorekeeper && JSON.stringify(snapshotRef.current) !== syncedJsonRef.current;
+      if (pending) {
+        const mineData = { ...snapshotRef.current, activeTab: theirs.activeTab, activeDivision: theirs.activeDivision };
+        applyRemoteState(mergeStates(baseStateRef.current, mineData, theirs, 'mine').merged);
+      } else {
+        applyRemoteState(theirs);
       }
+      markSynced(theirs, remote.revision);
     }, VIEWER_POLL_MS);
-    return () => clearInterval(interval);
-  }, [isAdmin, focusedMatchId]);
+  }, [isAdmin, isScorekeeper, focusedMatchId]);
+
+  // Register names as they're typed into any roster box, and drop the ones
+  // that were only ever half-typed (see syncPlayerRegistry).
+  useEffect(() => {
+    if (!isAdmin || loadingRemote) return;
+    const next = syncPlayerRegistry(snapshotState);
+    if (next !== players) setPlayers(next);
+  }, [snapshotState, isAdmin, loadingRemote]);
 
   useEffect(() => {
-    try { localStorage.setItem("sunnysports.autosave", JSON.stringify(snapshotState)); } catch {}
-    if (!isAdmin) return;
+    const json = JSON.stringify(snapshotState);
+    try { localStorage.setItem(autosaveKey, json); } catch {}
+    // Wait for the initial load so an empty first render never races the
+    // server copy.
+    if (!canScore || conflict || loadingRemote) return;
+    if (json === syncedJsonRef.current) return;
     if (saveTimer.current) window.clearTimeout(saveTimer.current);
-    saveTimer.current = window.setTimeout(async () => {
-      try { await apiSaveState(snapshotState as any, adminKey); setRemoteError(""); }
-      catch (e: any) { setRemoteError(e?.message || "Failed to save shared data"); }
+    if (isScorekeeper) {
+      // Scorekeepers send each changed score as a patch; the server works out
+      // bracket advancement itself. The revision is left alone so the stream
+      // announcing these patches brings back the server's merged copy.
+      saveTimer.current = window.setTimeout(() => {
+        setPendingWrites(enqueueScores(eventId, scorePatchesFrom(diffStates(baseStateRef.current, snapshotState))));
+        markSynced(snapshotState, revisionRef.current);
+        flushWrites();
+      }, 600);
+      return () => { if (saveTimer.current) window.clearTimeout(saveTimer.current); };
+    }
+    saveTimer.current = window.setTimeout(() => {
+      setPendingWrites(enqueueState(eventId, snapshotState, baseStateRef.current, revisionRef.current));
+      flushWrites();
     }, 600);
     return () => { if (saveTimer.current) window.clearTimeout(saveTimer.current); };
-  }, [snapshotState, isAdmin, adminKey]);
+  }, [snapshotState, isAdmin, isScorekeeper, authToken, conflict, saveRetry, loadingRemote]);
+
+  // Send whatever is in the offline queue. Writes that can't get through
+  // stay queued (and survive a reload) until the next attempt.
+  async function flushWrites() {
+    if (!authToken) return;
+    let rejected = "";
+    const result = await flushQueue(eventId, authToken, {
+      onSaved: (state, revision) => markSynced(state, revision),
+      onConflict: (err, write) => handleConflict(err, snapshotRef.current, write.base),
+      onSessionExpired: () => endSession(true),
+      onRejected: message => { rejected = message; },
+    });
+    setPendingWrites(result.pending);
+    setOffline(result.offline);
+    setRemoteError(rejected);
+  }
+
+  // Replay queued writes left from before a reload, then again whenever the
+  // browser says it's back online, with a periodic retry because phones
+  // don't always say so.
+  useEffect(() => {
+    if (!canScore || loadingRemote) return;
+    const RETRY_MS = 10_000;
+    const retry = () => { if (loadQueue(eventId).length) flushWrites(); };
+    retry();
+    window.addEventListener("online", retry);
+    const iv = window.setInterval(retry, RETRY_MS);
+    return () => { window.removeEventListener("online", retry); window.clearInterval(iv); };
+  }, [canScore, authToken, loadingRemote]);
 
   useEffect(() => {
     if (!isAdmin) { setOtherAdminActive(false); return; }
     const ping = async () => {
       try {
-        const res = await fetch("/api/heartbeat", {
+        const res = await fetch(`/api/heartbeat?event=${encodeURIComponent(eventId)}`, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${authToken}` },
           body: JSON.stringify({ sessionId }),
         });
+        if (res.status === 401) { endSession(true); return; }
         const json = await res.json();
         setOtherAdminActive(json.otherActive > 0);
       } catch { /* ignore network errors */ }
@@ -419,7 +537,23 @@ export default function BlindDrawTourneyApp() {
     ping();
     const iv = window.setInterval(ping, 15_000);
     return () => window.clearInterval(iv);
-  }, [isAdmin, sessionId]);
+  }, [isAdmin, authToken, sessionId, eventId]);
+
+  // Player ratings from every event's results, offered to the generators and
+  // playoff builders. Refetched on each format or section switch so the
+  // latest scores count; the server only recomputes after a save.
+  const [ratings, setRatings] = useState<RatingTable | null>(null);
+  useEffect(() => {
+    if (!isAdmin) { setRatings(null); return; }
+    let cancelled = false;
+    apiGetRatings(authToken)
+      .then(r => { if (!cancelled) setRatings(r); })
+      .catch(err => { if (err instanceof SessionExpiredError) endSession(true); });
+    return () => { cancelled = true; };
+  }, [isAdmin, authToken, activeTab, activeSection]);
+
+  // Arrival / departure rounds from the registry, for the round generators.
+  const availability = useMemo(() => availabilityOf(players), [players]);
 
   // ── Current per-format slices ───────────────────────────────────────────
   const currentD = activeDivision === "UPPER" ? dUpper : dLower;
@@ -443,10 +577,15 @@ export default function BlindDrawTourneyApp() {
   const AdminBanner = (
     <section className="bg-white rounded-lg ring-1 ring-slate-200 p-3 text-[12px] text-slate-700 flex items-center justify-between gap-3 flex-wrap">
       <div className="flex items-center gap-2 flex-wrap">
-        <span className={`inline-block w-2.5 h-2.5 rounded-full ${isAdmin ? "bg-emerald-500" : "bg-slate-400"}`} />
-        <span className="font-semibold">{isAdmin ? "Admin Mode" : "Viewer Mode (read-only)"}</span>
+        <span className={`inline-block w-2.5 h-2.5 rounded-full ${isAdmin ? "bg-emerald-500" : isScorekeeper ? "bg-sky-500" : "bg-slate-400"}`} />
+        <span className="font-semibold">{isAdmin ? "Admin Mode" : isScorekeeper ? "Scorekeeper Mode (scores only)" : "Viewer Mode (read-only)"}</span>
         {loadingRemote && <span className="text-slate-500">Loading shared data…</span>}
         {!!remoteError && <span className="text-red-600">{remoteError}</span>}
+        {pendingWrites > 0 && (
+          <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${offline ? "bg-red-100 text-red-700" : "bg-sky-100 text-sky-700"}`}>
+            {pendingWrites} unsent change{pendingWrites === 1 ? "" : "s"}{offline ? " · offline, will retry" : " · sending…"}
+          </span>
+        )}
         {otherAdminActive && (
           <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-[11px] font-medium">
             Another admin is also editing
@@ -454,37 +593,74 @@ export default function BlindDrawTourneyApp() {
         )}
       </div>
       <div className="flex items-center gap-2">
-        {!isAdmin
+        {!canScore
           ? <>
               <button className="px-3 py-1.5 rounded bg-sky-700 text-white hover:bg-sky-800" onClick={async () => {
                 setAdminKeyError("");
-                const k = prompt("Enter Admin Key to enable editing:");
+                const k = prompt("Enter Admin or Scorekeeper Key to enable editing:");
                 if (!k) return;
                 try {
-                  const getRes = await fetch("/api/state", { cache: "no-store" });
-                  const json = await getRes.json();
-                  const currentState = json?.data ?? null;
-                  const res = await fetch("/api/state", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json", "x-admin-key": k },
-                    body: JSON.stringify(currentState),
-                  });
-                  if (res.status === 401) {
-                    setAdminKeyError("Incorrect admin key. Please try again.");
-                    return;
+                  const next = await apiLogin(k);
+                  saveAdminSession(next);
+                  setSession(next);
+                  setRemoteError("");
+                  // Viewers are sent the state without players' contact
+                  // details. Only the contacts are taken from the admin copy,
+                  // filled in by the updater so whatever changed while it
+                  // was fetched (an edit, a live update) is kept, and the
+                  // synced copy gets them too when it's the same revision so
+                  // they aren't saved back as an edit.
+                  if (next.role === "admin") {
+                    const remote = await apiGetState(eventId, next.token).catch(() => null);
+                    const admin = remote?.data;
+                    if (admin) {
+                      setPlayers(prev => withContacts(prev, admin.players));
+                      const base = baseStateRef.current;
+                      if (base && remote.revision === revisionRef.current) {
+                        markSynced({ ...base, players: withContacts(base.players, admin.players) }, remote.revision);
+                      }
+                    }
                   }
-                } catch {
-                  // Offline use — accept the key
+                } catch (e: any) {
+                  setAdminKeyError(
+                    e?.status === 401 ? "Incorrect key. Please try again."
+                    : e?.status === 429 ? "Too many wrong keys. Wait a few minutes and try again."
+                    : "Couldn't reach the server to check the key."
+                  );
                 }
-                try { sessionStorage.setItem("ADMIN_KEY", k); } catch {}
-                setAdminKeyError("");
-                setAdminKey(k);
               }}>Unlock Editing</button>
               {!!adminKeyError && <span className="text-red-600 text-[11px] font-medium">{adminKeyError}</span>}
             </>
-          : <button className="px-3 py-1.5 rounded border" onClick={() => { try { sessionStorage.removeItem("ADMIN_KEY"); } catch {} setAdminKey(""); }}>Lock (Viewer Mode)</button>
+          : <>
+              {isAdmin && <button className="px-3 py-1.5 rounded border" onClick={() => setShowHistory(v => !v)}>Restore to…</button>}
+              {isAdmin && <button className="px-3 py-1.5 rounded border" onClick={() => setShowActivity(v => !v)}>Activity</button>}
+              {isAdmin && <button className="px-3 py-1.5 rounded border" onClick={() => setShowPlayers(v => !v)}>Players</button>}
+              <button className="px-3 py-1.5 rounded border" onClick={() => endSession()}>Lock (Viewer Mode)</button>
+            </>
         }
       </div>
+      {isAdmin && conflict && (
+        <div className="w-full rounded-md bg-amber-50 ring-1 ring-amber-200 p-3 space-y-2">
+          <div className="font-semibold text-amber-800">
+            Another admin saved changes while you were editing. Autosave is paused.
+          </div>
+          <div className="text-[11px] text-amber-700">
+            {conflict.conflicts.length} field{conflict.conflicts.length === 1 ? ' was' : 's were'} changed by both of you:
+            <ul className="mt-1 list-disc pl-5 max-h-24 overflow-auto font-mono">
+              {conflict.conflicts.slice(0, 20).map(c => <li key={c}>{c}</li>)}
+              {conflict.conflicts.length > 20 && <li>…and {conflict.conflicts.length - 20} more</li>}
+            </ul>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <button className="px-3 py-1.5 rounded bg-sky-700 text-white hover:bg-sky-800" onClick={() => resolveConflict('merge')}>
+              Merge (keep my version of these)
+            </button>
+            <button className="px-3 py-1.5 rounded border hover:bg-slate-100" onClick={() => resolveConflict('reload')}>
+              Reload theirs (discard my changes)
+            </button>
+          </div>
+        </div>
+      )}
     </section>
   );
 
@@ -649,16 +825,31 @@ export default function BlindDrawTourneyApp() {
                   right={<ScoreSettingsPanel settings={dScoreSettings} onChange={setDScoreSettings} />}
                 />
                 <div className="grid md:grid-cols-2 gap-4">
-                  <LineNumberTextarea id={`d-guys-${activeDivision}`} label="Guys" value={currentD.guysText} onChange={(e) => setCurrentD(p => ({ ...p, guysText: e.target.value }))} />
-                  <LineNumberTextarea id={`d-girls-${activeDivision}`} label="Girls" value={currentD.girlsText} onChange={(e) => setCurrentD(p => ({ ...p, girlsText: e.target.value }))} />
+                  <LineNumberTextarea id={`d-guys-${activeDivision}`} label="Guys" value={currentD.guysText} onEdited={onRosterEdited('guysText')} onChange={(e) => setCurrentD(p => ({ ...p, guysText: e.target.value }))} />
+                  <LineNumberTextarea id={`d-girls-${activeDivision}`} label="Girls" value={currentD.girlsText} onEdited={onRosterEdited('girlsText')} onChange={(e) => setCurrentD(p => ({ ...p, girlsText: e.target.value }))} />
                 </div>
+                {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="DOUBLES" division={activeDivision} onApply={applyRemoteState} />}
+                {isAdmin && (
+                  <RosterImport
+                    format="DOUBLES"
+                    activeDivision={activeDivision}
+                    rosters={{ UPPER: dUpper, LOWER: dLower }}
+                    onApply={(d, fields) => (d === "UPPER" ? setDUpper : setDLower)(p => ({ ...p, ...fields }))}
+                  />
+                )}
               </section>
-              <RoundGenerator
-                guysText={currentD.guysText}
-                girlsText={currentD.girlsText}
-                matches={currentD.matches}
-                setMatches={(v: any) => setCurrentD(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
-              />
+              {!isScorekeeper && (
+                <RoundGenerator
+                  guysText={currentD.guysText}
+                  girlsText={currentD.girlsText}
+                  matches={currentD.matches}
+                  setMatches={(v: any) => setCurrentD(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
+                  ratings={ratings}
+                  availability={availability}
+                  catchUp={currentD.catchUp}
+                  setCatchUp={catchUp => setCurrentD(p => ({ ...p, catchUp }))}
+                />
+              )}
             </fieldset>
           </>
         );
@@ -670,13 +861,17 @@ export default function BlindDrawTourneyApp() {
               matches={currentD.matches}
               setMatches={(v: any) => setCurrentD(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
               isAdmin={isAdmin}
+              canScore={canScore}
               scoreSettings={dScoreSettings}
+              division={activeDivision}
             />
+            {isAdmin && <ItineraryCards eventId={eventId} format="DOUBLES" division={activeDivision} itineraries={doublesItineraries(currentD.matches)} />}
             <Leaderboard
               matches={currentD.matches}
               guysText={currentD.guysText}
               girlsText={currentD.girlsText}
               scoreSettings={dScoreSettings}
+              catchUp={currentD.catchUp}
             />
           </>
         );
@@ -684,21 +879,27 @@ export default function BlindDrawTourneyApp() {
       if (activeSection === 'PLAYOFFS') {
         return (
           <>
-            <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
-              <PlayoffBuilder
-                matches={currentD.matches}
-                guysText={currentD.guysText}
-                girlsText={currentD.girlsText}
-                setBrackets={(f) => setCurrentD(prev => ({
-                  ...prev,
-                  brackets: typeof f === "function" ? (f as any)(prev.brackets) : f
-                }))}
-                baseDivision={activeDivision}
-              />
-            </fieldset>
+            {!isScorekeeper && (
+              <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
+                <PlayoffBuilder
+                  matches={currentD.matches}
+                  guysText={currentD.guysText}
+                  girlsText={currentD.girlsText}
+                  setBrackets={(f) => setCurrentD(prev => ({
+                    ...prev,
+                    brackets: typeof f === "function" ? (f as any)(prev.brackets) : f
+                  }))}
+                  baseDivision={activeDivision}
+                  ratings={ratings}
+                  catchUp={currentD.catchUp}
+                />
+              </fieldset>
+            )}
             <BracketView
               brackets={currentD.brackets}
               setBrackets={(v: any) => setCurrentD(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))}
+              format="DOUBLES"
+              division={activeDivision}
             />
           </>
         );
@@ -715,29 +916,43 @@ export default function BlindDrawTourneyApp() {
                 right={<ScoreSettingsPanel settings={qScoreSettings} onChange={setQScoreSettings} />}
               />
               <div className="grid md:grid-cols-2 gap-4">
-                <LineNumberTextarea id={`q-guys-${activeDivision}`} label="Guys (Quads)" value={currentQ.guysText} onChange={(e) => setCurrentQ(p => ({ ...p, guysText: e.target.value }))} />
-                <LineNumberTextarea id={`q-girls-${activeDivision}`} label="Girls (Quads)" value={currentQ.girlsText} onChange={(e) => setCurrentQ(p => ({ ...p, girlsText: e.target.value }))} />
+                <LineNumberTextarea id={`q-guys-${activeDivision}`} label="Guys (Quads)" value={currentQ.guysText} onEdited={onRosterEdited('guysText')} onChange={(e) => setCurrentQ(p => ({ ...p, guysText: e.target.value }))} />
+                <LineNumberTextarea id={`q-girls-${activeDivision}`} label="Girls (Quads)" value={currentQ.girlsText} onEdited={onRosterEdited('girlsText')} onChange={(e) => setCurrentQ(p => ({ ...p, girlsText: e.target.value }))} />
               </div>
+              {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="QUADS" division={activeDivision} onApply={applyRemoteState} />}
+              {isAdmin && (
+                <RosterImport
+                  format="QUADS"
+                  activeDivision={activeDivision}
+                  rosters={{ UPPER: qUpper, LOWER: qLower }}
+                  onApply={(d, fields) => (d === "UPPER" ? setQUpper : setQLower)(p => ({ ...p, ...fields }))}
+                />
+              )}
             </section>
-            <QuadsRoundGenerator guysText={currentQ.guysText} girlsText={currentQ.girlsText} matches={currentQ.matches} setMatches={(v: any) => setCurrentQ(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} />
+            {!isScorekeeper && (
+              <QuadsRoundGenerator guysText={currentQ.guysText} girlsText={currentQ.girlsText} matches={currentQ.matches} setMatches={(v: any) => setCurrentQ(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} ratings={ratings} availability={availability} catchUp={currentQ.catchUp} setCatchUp={catchUp => setCurrentQ(p => ({ ...p, catchUp }))} />
+            )}
           </fieldset>
         );
       }
       if (activeSection === 'POOLS') {
         return (
           <>
-            <QuadsMatchesView matches={currentQ.matches} setMatches={(v: any) => setCurrentQ(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} isAdmin={isAdmin} scoreSettings={qScoreSettings} />
-            <QuadsLeaderboard matches={currentQ.matches} guysText={currentQ.guysText} girlsText={currentQ.girlsText} scoreSettings={qScoreSettings} />
+            <QuadsMatchesView matches={currentQ.matches} setMatches={(v: any) => setCurrentQ(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} isAdmin={isAdmin} canScore={canScore} scoreSettings={qScoreSettings} division={activeDivision} />
+            {isAdmin && <ItineraryCards eventId={eventId} format="QUADS" division={activeDivision} itineraries={quadsItineraries(currentQ.matches)} />}
+            <QuadsLeaderboard matches={currentQ.matches} guysText={currentQ.guysText} girlsText={currentQ.girlsText} scoreSettings={qScoreSettings} catchUp={currentQ.catchUp} />
           </>
         );
       }
       if (activeSection === 'PLAYOFFS') {
         return (
           <>
-            <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
-              <QuadsPlayoffBuilder matches={currentQ.matches} guysText={currentQ.guysText} girlsText={currentQ.girlsText} setBrackets={(v: any) => setCurrentQ(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} baseDivision={activeDivision} scoreSettings={qScoreSettings} />
-            </fieldset>
-            {currentQ.brackets.length > 0 && <BracketView brackets={currentQ.brackets} setBrackets={(v: any) => setCurrentQ(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} />}
+            {!isScorekeeper && (
+              <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
+                <QuadsPlayoffBuilder matches={currentQ.matches} guysText={currentQ.guysText} girlsText={currentQ.girlsText} setBrackets={(v: any) => setCurrentQ(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} baseDivision={activeDivision} scoreSettings={qScoreSettings} ratings={ratings} catchUp={currentQ.catchUp} />
+              </fieldset>
+            )}
+            {currentQ.brackets.length > 0 && <BracketView brackets={currentQ.brackets} setBrackets={(v: any) => setCurrentQ(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} format="QUADS" division={activeDivision} />}
           </>
         );
       }
@@ -753,29 +968,43 @@ export default function BlindDrawTourneyApp() {
                 right={<ScoreSettingsPanel settings={tScoreSettings} onChange={setTScoreSettings} />}
               />
               <div className="grid md:grid-cols-2 gap-4">
-                <LineNumberTextarea id={`t-guys-${activeDivision}`} label="Guys (Triples)" value={currentT.guysText} onChange={(e) => setCurrentT(p => ({ ...p, guysText: e.target.value }))} />
-                <LineNumberTextarea id={`t-girls-${activeDivision}`} label="Girls (Triples)" value={currentT.girlsText} onChange={(e) => setCurrentT(p => ({ ...p, girlsText: e.target.value }))} />
+                <LineNumberTextarea id={`t-guys-${activeDivision}`} label="Guys (Triples)" value={currentT.guysText} onEdited={onRosterEdited('guysText')} onChange={(e) => setCurrentT(p => ({ ...p, guysText: e.target.value }))} />
+                <LineNumberTextarea id={`t-girls-${activeDivision}`} label="Girls (Triples)" value={currentT.girlsText} onEdited={onRosterEdited('girlsText')} onChange={(e) => setCurrentT(p => ({ ...p, girlsText: e.target.value }))} />
               </div>
+              {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="TRIPLES" division={activeDivision} onApply={applyRemoteState} />}
+              {isAdmin && (
+                <RosterImport
+                  format="TRIPLES"
+                  activeDivision={activeDivision}
+                  rosters={{ UPPER: tUpper, LOWER: tLower }}
+                  onApply={(d, fields) => (d === "UPPER" ? setTUpper : setTLower)(p => ({ ...p, ...fields }))}
+                />
+              )}
             </section>
-            <TriplesRoundGenerator guysText={currentT.guysText} girlsText={currentT.girlsText} matches={currentT.matches} setMatches={(v: any) => setCurrentT(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} />
+            {!isScorekeeper && (
+              <TriplesRoundGenerator guysText={currentT.guysText} girlsText={currentT.girlsText} matches={currentT.matches} setMatches={(v: any) => setCurrentT(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} ratings={ratings} availability={availability} catchUp={currentT.catchUp} setCatchUp={catchUp => setCurrentT(p => ({ ...p, catchUp }))} />
+            )}
           </fieldset>
         );
       }
       if (activeSection === 'POOLS') {
         return (
           <>
-            <TriplesMatchesView matches={currentT.matches} setMatches={(v: any) => setCurrentT(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} isAdmin={isAdmin} scoreSettings={tScoreSettings} />
-            <TriplesLeaderboard matches={currentT.matches} guysText={currentT.guysText} girlsText={currentT.girlsText} scoreSettings={tScoreSettings} />
+            <TriplesMatchesView matches={currentT.matches} setMatches={(v: any) => setCurrentT(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))} isAdmin={isAdmin} canScore={canScore} scoreSettings={tScoreSettings} division={activeDivision} />
+            {isAdmin && <ItineraryCards eventId={eventId} format="TRIPLES" division={activeDivision} itineraries={triplesItineraries(currentT.matches)} />}
+            <TriplesLeaderboard matches={currentT.matches} guysText={currentT.guysText} girlsText={currentT.girlsText} scoreSettings={tScoreSettings} catchUp={currentT.catchUp} />
           </>
         );
       }
       if (activeSection === 'PLAYOFFS') {
         return (
           <>
-            <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
-              <TriplesPlayoffBuilder matches={currentT.matches} guysText={currentT.guysText} girlsText={currentT.girlsText} setBrackets={(v: any) => setCurrentT(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} />
-            </fieldset>
-            {currentT.brackets.length > 0 && <BracketView brackets={currentT.brackets} setBrackets={(v: any) => setCurrentT(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} />}
+            {!isScorekeeper && (
+              <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
+                <TriplesPlayoffBuilder matches={currentT.matches} guysText={currentT.guysText} girlsText={currentT.girlsText} setBrackets={(v: any) => setCurrentT(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} ratings={ratings} catchUp={currentT.catchUp} />
+              </fieldset>
+            )}
+            {currentT.brackets.length > 0 && <BracketView brackets={currentT.brackets} setBrackets={(v: any) => setCurrentT(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))} format="TRIPLES" division={activeDivision} />}
           </>
         );
       }
@@ -792,28 +1021,43 @@ export default function BlindDrawTourneyApp() {
                 right={<ScoreSettingsPanel settings={kobScoreSettings} onChange={setKobScoreSettings} />}
               />
               <div className="grid md:grid-cols-2 gap-4">
-                <LineNumberTextarea id={`kob-guys-${activeDivision}`} label="Men (KOB)" value={currentKob.guysText} onChange={(e) => setCurrentKob(p => ({ ...p, guysText: e.target.value }))} />
-                <LineNumberTextarea id={`kob-girls-${activeDivision}`} label="Women (QOB)" value={currentKob.girlsText} onChange={(e) => setCurrentKob(p => ({ ...p, girlsText: e.target.value }))} />
+                <LineNumberTextarea id={`kob-guys-${activeDivision}`} label="Men (KOB)" value={currentKob.guysText} onEdited={onRosterEdited('guysText')} onChange={(e) => setCurrentKob(p => ({ ...p, guysText: e.target.value }))} />
+                <LineNumberTextarea id={`kob-girls-${activeDivision}`} label="Women (QOB)" value={currentKob.girlsText} onEdited={onRosterEdited('girlsText')} onChange={(e) => setCurrentKob(p => ({ ...p, girlsText: e.target.value }))} />
               </div>
+              {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="KOB" division={activeDivision} onApply={applyRemoteState} />}
+              {isAdmin && (
+                <RosterImport
+                  format="KOB"
+                  activeDivision={activeDivision}
+                  rosters={{ UPPER: kobUpper, LOWER: kobLower }}
+                  onApply={(d, fields) => (d === "UPPER" ? setKobUpper : setKobLower)(p => ({ ...p, ...fields }))}
+                />
+              )}
             </section>
-            <div className="grid md:grid-cols-2 gap-4">
-              <KobPoolGenerator
-                label="Men (KOB)"
-                playersText={currentKob.guysText}
-                gender="kob"
-                games={currentKob.matches as KobGameRow[]}
-                setGames={(v: any) => setCurrentKob(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
-                poolBase={0}
-              />
-              <KobPoolGenerator
-                label="Women (QOB)"
-                playersText={currentKob.girlsText}
-                gender="qob"
-                games={currentKob.matches as KobGameRow[]}
-                setGames={(v: any) => setCurrentKob(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
-                poolBase={500}
-              />
-            </div>
+            {!isScorekeeper && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <KobPoolGenerator
+                  label="Men (KOB)"
+                  playersText={currentKob.guysText}
+                  gender="kob"
+                  games={currentKob.matches as KobGameRow[]}
+                  setGames={(v: any) => setCurrentKob(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
+                  poolBase={0}
+                  ratings={ratings}
+                  availability={availability}
+                />
+                <KobPoolGenerator
+                  label="Women (QOB)"
+                  playersText={currentKob.girlsText}
+                  gender="qob"
+                  games={currentKob.matches as KobGameRow[]}
+                  setGames={(v: any) => setCurrentKob(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
+                  poolBase={500}
+                  ratings={ratings}
+                  availability={availability}
+                />
+              </div>
+            )}
           </fieldset>
         );
       }
@@ -824,10 +1068,13 @@ export default function BlindDrawTourneyApp() {
               games={currentKob.matches as KobGameRow[]}
               setGames={(v: any) => setCurrentKob(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
               isAdmin={isAdmin}
+              canScore={canScore}
               guys={currentKob.guysText.split(/\r?\n/).map(s => s.trim()).filter(Boolean)}
               girls={currentKob.girlsText.split(/\r?\n/).map(s => s.trim()).filter(Boolean)}
               scoreSettings={kobScoreSettings}
+              division={activeDivision}
             />
+            {isAdmin && <ItineraryCards eventId={eventId} format="KOB" division={activeDivision} itineraries={kobItineraries(currentKob.matches as KobGameRow[])} />}
             <KobLeaderboard
               games={currentKob.matches as KobGameRow[]}
               guysText={currentKob.guysText}
@@ -838,6 +1085,7 @@ export default function BlindDrawTourneyApp() {
         );
       }
       if (activeSection === 'PLAYOFFS') {
+        if (isScorekeeper) return null;
         return (
           <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
             <KobFinalsGenerator
@@ -846,6 +1094,7 @@ export default function BlindDrawTourneyApp() {
               guysText={currentKob.guysText}
               girlsText={currentKob.girlsText}
               isAdmin={isAdmin}
+              ratings={ratings}
             />
           </fieldset>
         );
@@ -867,28 +1116,43 @@ export default function BlindDrawTourneyApp() {
                   id={`m-pairs-${activeDivision}`}
                   label="Pairs"
                   value={currentM.pairsText}
+                  onEdited={onRosterEdited('pairsText')}
                   onChange={(e) => setCurrentM(p => ({ ...p, pairsText: e.target.value }))}
                 />
                 <LineNumberTextarea
                   id={`m-free-${activeDivision}`}
                   label="Free Agents"
                   value={currentM.freeAgentsText}
+                  onEdited={onRosterEdited('freeAgentsText')}
                   onChange={(e) => setCurrentM(p => ({ ...p, freeAgentsText: e.target.value }))}
                 />
               </div>
+              {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="MICKEY" division={activeDivision} onApply={applyRemoteState} />}
+              {isAdmin && (
+                <RosterImport
+                  format="MICKEY"
+                  activeDivision={activeDivision}
+                  rosters={{ UPPER: mUpper, LOWER: mLower }}
+                  onApply={(d, fields) => (d === "UPPER" ? setMUpper : setMLower)(p => ({ ...p, ...fields }))}
+                />
+              )}
             </section>
-            <MickeyTeamBuilder
-              pairsText={currentM.pairsText}
-              freeAgentsText={currentM.freeAgentsText}
-              teams={currentM.teams}
-              setTeams={(v: any) => setCurrentM(p => ({ ...p, teams: typeof v === 'function' ? v(p.teams) : v }))}
-              matches={currentM.matches}
-              setMatches={(v: any) => setCurrentM(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
-              firstFormat={currentM.firstFormat ?? 'MICKEY'}
-              setFirstFormat={(f) => setCurrentM(p => ({ ...p, firstFormat: f }))}
-              matchFormat={currentM.matchFormat ?? 'ALTERNATING'}
-              setMatchFormat={(f) => setCurrentM(p => ({ ...p, matchFormat: f }))}
-            />
+            {!isScorekeeper && (
+              <MickeyTeamBuilder
+                pairsText={currentM.pairsText}
+                freeAgentsText={currentM.freeAgentsText}
+                teams={currentM.teams}
+                setTeams={(v: any) => setCurrentM(p => ({ ...p, teams: typeof v === 'function' ? v(p.teams) : v }))}
+                matches={currentM.matches}
+                setMatches={(v: any) => setCurrentM(p => ({ ...p, matches: typeof v === 'function' ? v(p.matches) : v }))}
+                firstFormat={currentM.firstFormat ?? 'MICKEY'}
+                setFirstFormat={(f) => setCurrentM(p => ({ ...p, firstFormat: f }))}
+                matchFormat={currentM.matchFormat ?? 'ALTERNATING'}
+                setMatchFormat={(f) => setCurrentM(p => ({ ...p, matchFormat: f }))}
+                ratings={ratings}
+                availability={availability}
+              />
+            )}
           </fieldset>
         );
       }
@@ -903,8 +1167,28 @@ export default function BlindDrawTourneyApp() {
               courtCount={currentM.courtCount ?? 1}
               setCourtCount={(n: number) => setCurrentM(p => ({ ...p, courtCount: Math.max(1, Math.floor(n) || 1) }))}
               isAdmin={isAdmin}
+              canScore={canScore}
               scoreSettings={mScoreSettings}
+              division={activeDivision}
             />
+            {isAdmin && (
+              <ItineraryCards
+                eventId={eventId}
+                format="MICKEY"
+                division={activeDivision}
+                itineraries={mickeyItineraries(currentM.matches, currentM.teams, currentM.courtCount ?? 1)}
+              />
+            )}
+            {currentM.matches.length > 0 && (
+              <TeamCalendars
+                eventId={eventId}
+                division={activeDivision}
+                teams={currentM.teams}
+                scheduleDate={currentM.scheduleDate}
+                setScheduleDate={date => setCurrentM(p => ({ ...p, scheduleDate: date }))}
+                isAdmin={isAdmin}
+              />
+            )}
             <MickeyLeaderboard
               matches={currentM.matches}
               teams={currentM.teams}
@@ -918,21 +1202,26 @@ export default function BlindDrawTourneyApp() {
       if (activeSection === 'PLAYOFFS') {
         return (
           <>
-            <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
-              <MickeyPlayoffBuilder
-                teams={currentM.teams}
-                matches={currentM.matches}
-                pairsText={currentM.pairsText}
-                freeAgentsText={currentM.freeAgentsText}
-                brackets={currentM.brackets}
-                setBrackets={(v: any) => setCurrentM(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))}
-                division={activeDivision}
-              />
-            </fieldset>
+            {!isScorekeeper && (
+              <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
+                <MickeyPlayoffBuilder
+                  teams={currentM.teams}
+                  matches={currentM.matches}
+                  pairsText={currentM.pairsText}
+                  freeAgentsText={currentM.freeAgentsText}
+                  brackets={currentM.brackets}
+                  setBrackets={(v: any) => setCurrentM(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))}
+                  division={activeDivision}
+                  ratings={ratings}
+                />
+              </fieldset>
+            )}
             <MickeyBracketView
               brackets={currentM.brackets}
               setBrackets={(v: any) => setCurrentM(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets) : v }))}
               isAdmin={isAdmin}
+              canScore={canScore}
+              division={activeDivision}
             />
           </>
         );
@@ -954,24 +1243,39 @@ export default function BlindDrawTourneyApp() {
                   id={`mbd-pairs-${activeDivision}`}
                   label="Pairs"
                   value={currentMBD.pairsText}
+                  onEdited={onRosterEdited('pairsText')}
                   onChange={(e) => setCurrentMBD(p => ({ ...p, pairsText: e.target.value }))}
                 />
                 <LineNumberTextarea
                   id={`mbd-free-${activeDivision}`}
                   label="Free Agents"
                   value={currentMBD.freeAgentsText}
+                  onEdited={onRosterEdited('freeAgentsText')}
                   onChange={(e) => setCurrentMBD(p => ({ ...p, freeAgentsText: e.target.value }))}
                 />
               </div>
+              {isAdmin && <RosterLint eventId={eventId} state={snapshotState} format="MICKEYBD" division={activeDivision} onApply={applyRemoteState} />}
+              {isAdmin && (
+                <RosterImport
+                  format="MICKEYBD"
+                  activeDivision={activeDivision}
+                  rosters={{ UPPER: mbdUpper, LOWER: mbdLower }}
+                  onApply={(d, fields) => (d === "UPPER" ? setMBDUpper : setMBDLower)(p => ({ ...p, ...fields }))}
+                />
+              )}
             </section>
-            <MickeyBDRoundManager
-              pairsText={currentMBD.pairsText}
-              freeAgentsText={currentMBD.freeAgentsText}
-              rounds={currentMBD.rounds ?? []}
-              setRounds={(v: any) => setCurrentMBD(p => ({ ...p, rounds: typeof v === 'function' ? v(p.rounds ?? []) : v }))}
-              courtCount={currentMBD.courtCount ?? 1}
-              setCourtCount={(n: number) => setCurrentMBD(p => ({ ...p, courtCount: Math.max(1, Math.floor(n) || 1) }))}
-            />
+            {!isScorekeeper && (
+              <MickeyBDRoundManager
+                pairsText={currentMBD.pairsText}
+                freeAgentsText={currentMBD.freeAgentsText}
+                rounds={currentMBD.rounds ?? []}
+                setRounds={(v: any) => setCurrentMBD(p => ({ ...p, rounds: typeof v === 'function' ? v(p.rounds ?? []) : v }))}
+                courtCount={currentMBD.courtCount ?? 1}
+                setCourtCount={(n: number) => setCurrentMBD(p => ({ ...p, courtCount: Math.max(1, Math.floor(n) || 1) }))}
+                ratings={ratings}
+                availability={availability}
+              />
+            )}
           </fieldset>
         );
       }
@@ -984,7 +1288,9 @@ export default function BlindDrawTourneyApp() {
               pairsText={currentMBD.pairsText}
               courtCount={currentMBD.courtCount ?? 1}
               isAdmin={isAdmin}
+              canScore={canScore}
               scoreSettings={mbdScoreSettings}
+              division={activeDivision}
             />
             <MickeyBDLeaderboard
               rounds={currentMBD.rounds}
@@ -1003,20 +1309,26 @@ export default function BlindDrawTourneyApp() {
       if (activeSection === 'PLAYOFFS') {
         return (
           <>
-            <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
-              <MickeyBDPlayoffBuilder
-                rounds={currentMBD.rounds ?? []}
-                pairsText={currentMBD.pairsText}
-                freeAgentsText={currentMBD.freeAgentsText}
-                brackets={currentMBD.brackets ?? []}
-                setBrackets={(v: any) => setCurrentMBD(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets ?? []) : v }))}
-                division={activeDivision}
-              />
-            </fieldset>
+            {!isScorekeeper && (
+              <fieldset disabled={!isAdmin} className={!isAdmin ? "opacity-95" : ""}>
+                <MickeyBDPlayoffBuilder
+                  rounds={currentMBD.rounds ?? []}
+                  pairsText={currentMBD.pairsText}
+                  freeAgentsText={currentMBD.freeAgentsText}
+                  brackets={currentMBD.brackets ?? []}
+                  setBrackets={(v: any) => setCurrentMBD(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets ?? []) : v }))}
+                  division={activeDivision}
+                  ratings={ratings}
+                />
+              </fieldset>
+            )}
             <MickeyBracketView
               brackets={currentMBD.brackets ?? []}
               setBrackets={(v: any) => setCurrentMBD(p => ({ ...p, brackets: typeof v === 'function' ? v(p.brackets ?? []) : v }))}
               isAdmin={isAdmin}
+              canScore={canScore}
+              format="MICKEYBD"
+              division={activeDivision}
             />
           </>
         );
@@ -1028,7 +1340,7 @@ export default function BlindDrawTourneyApp() {
 
   // Focused live-scoring page short-circuits the rest of the app.
   if (focusedMatchId) {
-    return <ScoreFocusPage matchId={focusedMatchId} />;
+    return <ScoreFocusPage eventId={eventId} matchId={focusedMatchId} />;
   }
 
   return (
@@ -1066,7 +1378,27 @@ export default function BlindDrawTourneyApp() {
 
         <div className="flex-1 min-w-0">
           <div className="max-w-5xl mx-auto px-4 py-5 space-y-4">
+            <EventPicker eventId={eventId} authToken={session?.role === "admin" ? authToken : ""} />
             {AdminBanner}
+            {isAdmin && showHistory && (
+              <HistoryPanel
+                eventId={eventId}
+                authToken={authToken}
+                currentState={snapshotState}
+                onRestored={(data, revision) => {
+                  if (data) applyRemoteState(data);
+                  markSynced(data, revision);
+                  setShowHistory(false);
+                }}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+            {isAdmin && showActivity && (
+              <ActivityPanel eventId={eventId} authToken={authToken} onClose={() => setShowActivity(false)} />
+            )}
+            {isAdmin && showPlayers && (
+              <PlayerRegistry state={snapshotState} onChange={applyRemoteState} onClose={() => setShowPlayers(false)} />
+            )}
 
             {/* Format header with sub-tab bar */}
             <div className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 px-4 pt-4 pb-0">
@@ -1097,6 +1429,7 @@ export default function BlindDrawTourneyApp() {
                       {div}
                     </button>
                   ))}
+                  <ResultsExport eventId={eventId} format={activeTab} division={activeDivision} state={snapshotState} />
                 </div>
               </div>
               <div className="flex gap-1 mt-3 border-b border-slate-200 -mx-4 px-4 overflow-x-auto">
@@ -1123,15 +1456,26 @@ export default function BlindDrawTourneyApp() {
             </div>
 
             {/* Reset (kept at bottom, low-key) */}
-            <section className="bg-white/60 rounded-lg p-3 text-[11px] text-slate-500 mt-6">
-              <button
-                className="px-2 py-1 border rounded text-[11px] hover:bg-slate-100"
-                onClick={handleResetApp}
-              >
-                {isAdmin ? "Reset App" : "Reset Local App"}
-              </button>
-              <span className="ml-2">Each format keeps separate UPPER and LOWER division data.</span>
-            </section>
+            {!isScorekeeper && (
+              <section className="bg-white/60 rounded-lg p-3 text-[11px] text-slate-500 mt-6 space-y-2">
+                <div>
+                  <button
+                    className="px-2 py-1 border rounded text-[11px] hover:bg-slate-100"
+                    onClick={handleResetApp}
+                  >
+                    {isAdmin ? "Reset App" : "Reset Local App"}
+                  </button>
+                  <span className="ml-2">Each format keeps separate UPPER and LOWER division data.</span>
+                </div>
+                <BackupPanel
+                  eventId={eventId}
+                  currentState={snapshotState}
+                  revision={revisionRef.current}
+                  canSave={isAdmin}
+                  onLoad={applyRemoteState}
+                />
+              </section>
+            )}
           </div>
         </div>
       </div>
@@ -1,33 +1,322 @@
-import type { MatchRow, BracketMatch, QuadsMatchRow, TriplesMatchRow } from './types';
-
-export type PersistedState = {
-  guysText: string;
-  girlsText: string;
-  matches: MatchRow[];
-  brackets: BracketMatch[];
-  qGuysText: string;
-  qGirlsText: string;
-  qMatches: QuadsMatchRow[];
-  qBrackets: BracketMatch[];
-  tGuysText: string;
-  tGirlsText: string;
-  tMatches: TriplesMatchRow[];
-  tBrackets: BracketMatch[];
-  activeTab: "DOUBLES" | "QUADS" | "TRIPLES";
-};
+import type { TournamentState } from './types';
+import type { ScorePatch } from './scorePatch';
+import type { StateChange } from './stateDiff';
+import type { RatingTable } from './ratings';
+import { parseTournamentState } from './schema';
+
+// A named tournament. Each event keeps its own state on the server; archived
+// events are read-only.
+export type EventMeta = { id: string; name: string; createdAt: number; archived: boolean; archivedAt?: number };
+
+export const DEFAULT_EVENT_ID = "default";
+
+// The active event is carried in the URL (?event=<id>) so links and reloads
+// stay on the same tournament.
+export function eventIdFromUrl(): string {
+  try { return new URLSearchParams(window.location.search).get("event") || DEFAULT_EVENT_ID; } catch { return DEFAULT_EVENT_ID; }
+}
+
+export function eventUrl(eventId: string): string {
+  const params = new URLSearchParams(window.location.search);
+  if (eventId === DEFAULT_EVENT_ID) params.delete("event"); else params.set("event", eventId);
+  const qs = params.toString();
+  return `${window.location.pathname}${qs ? `?${qs}` : ""}`;
+}
+
+const eventQuery = (eventId: string) => `?event=${encodeURIComponent(eventId)}`;
+
+// What an unlocked key may do: admins change anything, scorekeepers only
+// enter scores (sent as /api/score patches).
+export type Role = "admin" | "scorekeeper";
+
+// A signed-in admin or scorekeeper: the token /api/auth issued for their key
+// and when it stops being accepted. The key itself is never stored.
+export type AdminSession = { token: string; role: Role; expiresAt: number };
+
+const SESSION_STORAGE_KEY = "ADMIN_SESSION";
+
+// Trades a key for a session token. Rejects with { status: 401 } for a wrong
+// key and { status: 429 } after too many; network failures reject as usual
+// so callers can tell them apart.
+export async function apiLogin(key: string): Promise<AdminSession> {
+  const res = await fetch("/api/auth", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ key }),
+  });
+  if (!res.ok) throw Object.assign(new Error(`POST /api/auth failed (${res.status})`), { status: res.status });
+  const json = await res.json();
+  return { token: String(json?.token ?? ""), role: json?.role === "scorekeeper" ? "scorekeeper" : "admin", expiresAt: Number(json?.expiresAt) || 0 };
+}
+
+// The session saved in this tab, or null if there is none or it has expired.
+export function loadAdminSession(): AdminSession | null {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) || "null");
+    if (!session?.token || !(session.expiresAt > Date.now())) return null;
+    return { token: session.token, role: session.role === "scorekeeper" ? "scorekeeper" : "admin", expiresAt: session.expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+export function saveAdminSession(session: AdminSession | null) {
+  try {
+    if (session) sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {}
+}
+
+// Thrown by any signed-in call the server refuses with 401: the token expired
+// or the keys were changed. Callers drop back to Viewer Mode.
+export class SessionExpiredError extends Error {
+  constructor() {
+    super("Session expired");
+    this.name = 'SessionExpiredError';
+  }
+}
+
+function checkSession(res: Response) {
+  if (res.status === 401) throw new SessionExpiredError();
+}
+
+// Random id for this browser tab, sent with every write (and heartbeat) so
+// the server can attribute changes in its history.
+let fallbackSessionId = "";
+export function getSessionId(): string {
+  try {
+    let id = sessionStorage.getItem("SESSION_ID");
+    if (!id) { id = Math.random().toString(36).slice(2); sessionStorage.setItem("SESSION_ID", id); }
+    return id;
+  } catch {
+    if (!fallbackSessionId) fallbackSessionId = Math.random().toString(36).slice(2);
+    return fallbackSessionId;
+  }
+}
+
+const authHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+const writeHeaders = (token: string) => ({
+  "Content-Type": "application/json",
+  ...authHeaders(token),
+  "x-session-id": getSessionId(),
+});
+
+// Shared state as stored on the server, tagged with the revision it was saved at.
+export type RemoteState = { data: TournamentState | null; revision: number; event: EventMeta | null };
 
-export async function apiGetState(): Promise<PersistedState | null> {
-  const res = await fetch("/api/state", { cache: "no-store" });
+// Thrown by apiSaveState when someone else saved after `baseRevision`.
+// Carries the server's current state so the caller can merge or reload.
+export class StateConflictError extends Error {
+  constructor(public revision: number, public data: TournamentState | null) {
+    super(`State was changed by another admin (revision ${revision})`);
+    this.name = 'StateConflictError';
+  }
+}
+
+// Upgrade and check state data from the server. Malformed data is rejected
+// here so no view ever renders a half-shaped state.
+function readStateData(raw: unknown): TournamentState | null {
+  if (raw === null || raw === undefined) return null;
+  const parsed = parseTournamentState(raw);
+  if (!parsed.ok) throw new Error(`Saved data is invalid: ${parsed.errors.slice(0, 3).join("; ")}`);
+  return parsed.state;
+}
+
+// Pass an admin's token to get the player registry's contact details too.
+export async function apiGetState(eventId: string, token = ""): Promise<RemoteState | null> {
+  const res = await fetch(`/api/state${eventQuery(eventId)}`, { cache: "no-store", headers: token ? authHeaders(token) : {} });
   if (!res.ok) return null;
   const json = await res.json();
-  return json?.data ?? null;
+  return { data: readStateData(json?.data), revision: Number(json?.revision) || 0, event: json?.event ?? null };
 }
 
-export async function apiSaveState(state: PersistedState, adminKey: string): Promise<void> {
-  const res = await fetch("/api/state", {
+// Live updates for one event. Listens on the /api/stream push channel, which
+// announces every new revision, and fetches the state only when it changed.
+// Falls back to polling every `pollMs` when EventSource isn't available or
+// the stream never delivers (an older deployment, a buffering proxy).
+// Returns an unsubscribe function.
+const STREAM_CONNECT_TIMEOUT_MS = 10_000;
+
+export function subscribeToState(eventId: string, onState: (remote: RemoteState) => void, pollMs: number): () => void {
+  let stopped = false;
+  let lastRevision = -1;
+  let source: EventSource | null = null;
+  let pollTimer: number | undefined;
+  let connectTimer: number | undefined;
+
+  const refresh = async () => {
+    try {
+      const remote = await apiGetState(eventId);
+      if (stopped || !remote) return;
+      lastRevision = remote.revision;
+      onState(remote);
+    } catch {
+      // Swallow fetch errors so a flaky network doesn't blow up viewers; the
+      // next notification or poll tries again.
+    }
+  };
+
+  const fallBackToPolling = () => {
+    source?.close();
+    source = null;
+    window.clearTimeout(connectTimer);
+    if (!stopped && pollTimer === undefined) pollTimer = window.setInterval(refresh, pollMs);
+  };
+
+  if (typeof EventSource === "undefined") {
+    fallBackToPolling();
+  } else {
+    let delivered = false;
+    source = new EventSource(`/api/stream${eventQuery(eventId)}`);
+    source.addEventListener("revision", e => {
+      delivered = true;
+      window.clearTimeout(connectTimer);
+      const revision = Number(JSON.parse((e as MessageEvent).data)?.revision);
+      if (revision !== lastRevision) refresh();
+    });
+    // EventSource reconnects by itself after the server rotates the stream;
+    // CLOSED means it gave up (e.g. the route doesn't exist).
+    source.onerror = () => {
+      if (source?.readyState === EventSource.CLOSED) fallBackToPolling();
+    };
+    connectTimer = window.setTimeout(() => { if (!delivered) fallBackToPolling(); }, STREAM_CONNECT_TIMEOUT_MS);
+  }
+
+  return () => {
+    stopped = true;
+    source?.close();
+    window.clearTimeout(connectTimer);
+    window.clearInterval(pollTimer);
+  };
+}
+
+// Returns the new revision on success.
+export async function apiSaveState(eventId: string, state: TournamentState, token: string, baseRevision: number): Promise<number> {
+  const res = await fetch(`/api/state${eventQuery(eventId)}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json", "x-admin-key": adminKey },
+    headers: { ...writeHeaders(token), "x-base-revision": String(baseRevision) },
     body: JSON.stringify(state),
   });
-  if (!res.ok) throw new Error(`POST /api/state failed (${res.status})`);
+  if (res.status === 409) {
+    const json = await res.json().catch(() => null);
+    throw new StateConflictError(Number(json?.revision) || 0, readStateData(json?.data));
+  }
+  checkSession(res);
+  if (!res.ok) throw Object.assign(new Error(`POST /api/state failed (${res.status})`), { status: res.status });
+  const json = await res.json().catch(() => null);
+  return Number(json?.revision) || baseRevision + 1;
+}
+
+// Record one score on the server without re-posting the rest of the state.
+// Returns the revision the patch was saved at.
+export async function apiPatchScore(eventId: string, patch: ScorePatch, token: string): Promise<number> {
+  const res = await fetch(`/api/score${eventQuery(eventId)}`, {
+    method: "POST",
+    headers: writeHeaders(token),
+    body: JSON.stringify(patch),
+  });
+  checkSession(res);
+  if (!res.ok) throw Object.assign(new Error(`POST /api/score failed (${res.status})`), { status: res.status });
+  const json = await res.json().catch(() => null);
+  return Number(json?.revision) || 0;
+}
+
+export async function apiListEvents(): Promise<EventMeta[]> {
+  const res = await fetch("/api/events", { cache: "no-store" });
+  if (!res.ok) throw new Error(`GET /api/events failed (${res.status})`);
+  const json = await res.json();
+  return Array.isArray(json?.events) ? json.events : [];
+}
+
+export type EventAction =
+  | { action: "create"; name: string }
+  | { action: "clone"; id: string; name: string }
+  | { action: "archive" | "unarchive"; id: string };
+
+export async function apiEventAction(body: EventAction, token: string): Promise<EventMeta> {
+  const res = await fetch("/api/events", {
+    method: "POST",
+    headers: writeHeaders(token),
+    body: JSON.stringify(body),
+  });
+  checkSession(res);
+  if (!res.ok) throw new Error(`POST /api/events failed (${res.status})`);
+  const json = await res.json();
+  return json.event;
+}
+
+// One saved version of an event's state on the server (newest first).
+export type HistoryEntry = {
+  revision: number;
+  savedAt: number;
+  sessionId: string;
+  role?: Role;
+  source: "save" | "score" | "restore" | "clone";
+};
+
+export async function apiListHistory(eventId: string, token: string): Promise<{ current: number; entries: HistoryEntry[] }> {
+  const res = await fetch(`/api/history${eventQuery(eventId)}`, { cache: "no-store", headers: authHeaders(token) });
+  checkSession(res);
+  if (!res.ok) throw new Error(`GET /api/history failed (${res.status})`);
+  const json = await res.json();
+  return { current: Number(json?.current) || 0, entries: Array.isArray(json?.entries) ? json.entries : [] };
+}
+
+export async function apiGetHistoryVersion(eventId: string, revision: number, token: string): Promise<TournamentState | null> {
+  const res = await fetch(`/api/history${eventQuery(eventId)}&revision=${revision}`, { cache: "no-store", headers: authHeaders(token) });
+  checkSession(res);
+  if (!res.ok) throw new Error(`GET /api/history failed (${res.status})`);
+  const json = await res.json();
+  return readStateData(json?.data);
+}
+
+// Saves revision `revision` back as the newest state; returns the new revision.
+export async function apiRestoreHistory(eventId: string, revision: number, token: string): Promise<number> {
+  const res = await fetch(`/api/history${eventQuery(eventId)}`, {
+    method: "POST",
+    headers: writeHeaders(token),
+    body: JSON.stringify({ revision }),
+  });
+  checkSession(res);
+  if (!res.ok) throw new Error(`POST /api/history failed (${res.status})`);
+  const json = await res.json();
+  return Number(json?.revision) || 0;
+}
+
+// One accepted write in the server's append-only audit log (newest first).
+// Added and removed items carry only their id; `changeCount` is the write's
+// full size when `changes` was cut short.
+export type AuditEntry = {
+  revision: number;
+  at: number;
+  sessionId: string;
+  role: Role;
+  source: HistoryEntry["source"];
+  changes: StateChange[];
+  changeCount: number;
+};
+
+export type AuditPage = { entries: AuditEntry[]; total: number; nextOffset: number | null };
+
+export async function apiListAudit(eventId: string, token: string, offset = 0, limit = 200): Promise<AuditPage> {
+  const res = await fetch(`/api/audit${eventQuery(eventId)}&offset=${offset}&limit=${limit}`, { cache: "no-store", headers: authHeaders(token) });
+  checkSession(res);
+  if (!res.ok) throw new Error(`GET /api/audit failed (${res.status})`);
+  const json = await res.json();
+  const entries: AuditEntry[] = Array.isArray(json?.entries) ? json.entries : [];
+  return {
+    entries,
+    total: typeof json?.total === "number" ? json.total : entries.length,
+    nextOffset: typeof json?.nextOffset === "number" ? json.nextOffset : null,
+  };
+}
+
+// Player ratings learned from every event's results (see ratings.ts).
+export async function apiGetRatings(token: string): Promise<RatingTable> {
+  const res = await fetch("/api/ratings", { cache: "no-store", headers: authHeaders(token) });
+  checkSession(res);
+  if (!res.ok) throw new Error(`GET /api/ratings failed (${res.status})`);
+  const json = await res.json();
+  return json?.ratings && typeof json.ratings === "object" ? json.ratings : {};
 }
@@ -0,0 +1,62 @@
+import type { TournamentState } from './types';
+import { parseTournamentState } from './schema';
+import { downloadText } from './download';
+
+// ── Backup files ─────────────────────────────────────────────────────────────
+// A backup is the complete versioned tournament state wrapped with where it
+// came from. Reading one runs the same migrate-then-validate path as every
+// other saved copy, so files exported by older builds still load. A bare
+// state (e.g. the contents of a localStorage autosave) is accepted too.
+
+export const BACKUP_KIND = 'sunnysports-backup';
+
+export type BackupFile = {
+  kind: typeof BACKUP_KIND;
+  exportedAt: number;
+  eventId: string;
+  // Server revision the state was at, when known.
+  revision: number | null;
+  state: TournamentState;
+};
+
+export type ReadBackupResult =
+  | { ok: true; backup: BackupFile }
+  | { ok: false; errors: string[] };
+
+export function makeBackup(eventId: string, state: TournamentState, revision: number | null): BackupFile {
+  return { kind: BACKUP_KIND, exportedAt: Date.now(), eventId, revision, state };
+}
+
+export function backupFileName(backup: BackupFile): string {
+  const d = new Date(backup.exportedAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}`;
+  return `sunnysports-${backup.eventId}-${stamp}.json`;
+}
+
+export function readBackup(text: string): ReadBackupResult {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["This isn't a JSON file"] };
+  }
+  const wrapped = raw?.kind === BACKUP_KIND;
+  const parsed = parseTournamentState(wrapped ? raw.state : raw);
+  if (!parsed.ok) return parsed;
+  return {
+    ok: true,
+    backup: {
+      kind: BACKUP_KIND,
+      exportedAt: wrapped && typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+      eventId: wrapped && typeof raw.eventId === 'string' ? raw.eventId : '',
+      revision: wrapped && typeof raw.revision === 'number' ? raw.revision : null,
+      state: parsed.state,
+    },
+  };
+}
+
+// Save `backup` through the browser's download prompt.
+export function downloadBackup(backup: BackupFile) {
+  downloadText(backupFileName(backup), JSON.stringify(backup, null, 2), 'application/json');
+}
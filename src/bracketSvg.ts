@@ -0,0 +1,203 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { BracketMatch, PlayDiv, Team } from './types.js';
+import { parseScore } from './utils.js';
+import { bracketMatchWinner } from './scorePatch.js';
+
+// ── Bracket layout ───────────────────────────────────────────────────────────
+
+export function buildVisualColumns(brackets: BracketMatch[], division: PlayDiv) {
+  const list = brackets.filter(b => b.division === division);
+  if (list.length === 0) return { cols: [] as BracketMatch[][], rounds: 0, size: 0 };
+
+  const maxRound = Math.max(1, ...list.map(b => b.round));
+  const cols: BracketMatch[][] = [];
+
+  for (let r = 1; r <= maxRound; r++) {
+    let col = list.filter(b => b.round === r).sort((a, b) => a.slot - b.slot);
+
+    if (r === 1) {
+      col = col.filter(m => {
+        const onlyOneTeam = (!!m.team1 && !m.team2) || (!m.team1 && !!m.team2);
+        const isBye = m.score === 'BYE';
+        return !(onlyOneTeam && isBye);
+      });
+    }
+
+    cols.push(col);
+  }
+
+  return { cols, rounds: maxRound, size: (cols[0]?.length || 1) * 2 };
+}
+
+// ── SVG bracket ──────────────────────────────────────────────────────────────
+// The playoff brackets of one format and division as a standalone SVG, for
+// printing as a poster, downloading, or embedding on a website (it's also
+// served by /api/bracket?as=svg). Same columns and positions as the on-screen
+// views, drawn at a fixed size so nothing is clipped.
+
+const BOX_W = 230;
+const LINE_H = 24;
+const BOX_H = LINE_H * 2;
+const LABEL_H = 16;
+const UNIT = BOX_H + LABEL_H + 20;
+const COL_GAP = 40;
+const MARGIN = 24;
+const TITLE_H = 40;
+const SECTION_HEAD = 44;
+const SECTION_GAP = 28;
+const MAX_NAME = 24;
+
+const DIVISIONS: { div: PlayDiv; label: string }[] = [
+  { div: 'UPPER', label: 'Upper' },
+  { div: 'LOWER', label: 'Lower' },
+  { div: 'RR', label: 'Redemption Rally' },
+];
+
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const clip = (s: string, max: number) => (s.length > max ? `${s.slice(0, max - 1)}…` : s);
+
+export function bracketRoundName(round: number, rounds: number, division: PlayDiv): string {
+  if (division !== 'RR' && rounds > 1) {
+    if (round === rounds) return 'Final';
+    if (round === rounds - 1) return 'Semifinals';
+  }
+  return `Round ${round}`;
+}
+
+// Points per side, one entry per game played: a single score for most
+// brackets, every game for Mickey & Minnie match play.
+function sidePoints(m: BracketMatch, mickey: boolean): [string[], string[]] {
+  const games = mickey && m.games?.length ? m.games : m.score ? [m.score] : [];
+  const a: string[] = [], b: string[] = [];
+  for (const g of games) {
+    const p = parseScore(g);
+    if (!p) continue;
+    a.push(String(p[0]));
+    b.push(String(p[1]));
+  }
+  return [a, b];
+}
+
+// Where each match in each column sits: first-round matches evenly spaced,
+// later ones centred on the matches that feed them.
+function columnTops(cols: BracketMatch[][]): number[][] {
+  const tops: number[][] = [];
+  cols.forEach((col, colIdx) => {
+    tops.push(col.map((m, i) => {
+      if (colIdx === 0) return i * UNIT;
+      const prev = cols[colIdx - 1];
+      const src = [prev.findIndex(p => p.id === m.team1SourceId), prev.findIndex(p => p.id === m.team2SourceId)]
+        .filter(idx => idx >= 0)
+        .map(idx => tops[colIdx - 1][idx]);
+      if (src.length === 2) return (src[0] + src[1]) / 2;
+      if (src.length === 1) return src[0];
+      return i * UNIT;
+    }));
+  });
+  return tops;
+}
+
+function teamLine(t: Team | undefined, placeholder: string, points: string[], won: boolean, x: number, y: number): string {
+  const mid = y + LINE_H / 2 + 4;
+  const parts = [`<rect x="${x}" y="${y}" width="${BOX_W}" height="${LINE_H}" class="${won ? 'won' : 'line'}"/>`];
+  if (t) {
+    parts.push(`<text x="${x + 6}" y="${mid}" class="seed">#${t.seed}</text>`);
+    parts.push(`<text x="${x + 32}" y="${mid}" class="${won ? 'name win' : 'name'}">${esc(clip(t.name, MAX_NAME))}</text>`);
+  } else {
+    parts.push(`<text x="${x + 6}" y="${mid}" class="tbd">${esc(placeholder)}</text>`);
+  }
+  if (points.length) {
+    parts.push(`<text x="${x + BOX_W - 6}" y="${mid}" class="${won ? 'pts win' : 'pts'}" text-anchor="end">${points.join('  ')}</text>`);
+  }
+  return parts.join('');
+}
+
+function matchBox(m: BracketMatch, byId: Map<string, BracketMatch>, mickey: boolean, x: number, y: number): string {
+  const winner = m.team1 && m.team2 ? bracketMatchWinner(m, mickey) : null;
+  const [p1, p2] = sidePoints(m, mickey);
+  const from = (sourceId?: string) => {
+    const src = sourceId ? byId.get(sourceId) : undefined;
+    return src ? `Winner of R${src.round} G${src.slot}` : 'TBD';
+  };
+  const label = [`R${m.round} · G${m.slot}`, m.redemption ? 'Redemption' : null, m.score === 'BYE' ? 'BYE' : null]
+    .filter(Boolean).join(' · ');
+  const boxY = y + LABEL_H;
+  return `<g>
+    <text x="${x + 2}" y="${y + 11}" class="label">${esc(label)}</text>
+    ${m.court !== undefined ? `<text x="${x + BOX_W - 2}" y="${y + 11}" class="label" text-anchor="end">Court ${m.court}</text>` : ''}
+    ${teamLine(m.team1, from(m.team1SourceId), p1, winner === 'team1', x, boxY)}
+    ${teamLine(m.team2, from(m.team2SourceId), p2, winner === 'team2', x, boxY + LINE_H)}
+  </g>`;
+}
+
+const STYLE = `
+  text { font-family: system-ui, -apple-system, sans-serif; fill: #0f172a; }
+  .title { font-size: 20px; font-weight: 700; }
+  .section { font-size: 16px; font-weight: 700; fill: #0c4a6e; }
+  .round { font-size: 12px; font-weight: 600; fill: #475569; }
+  .label { font-size: 10px; fill: #64748b; }
+  .line { fill: #ffffff; stroke: #94a3b8; }
+  .won { fill: #ecfdf5; stroke: #94a3b8; }
+  .seed { font-size: 10px; fill: #0369a1; }
+  .name { font-size: 12px; }
+  .pts { font-size: 12px; fill: #334155; }
+  .win { font-weight: 700; fill: #065f46; }
+  .tbd { font-size: 11px; font-style: italic; fill: #94a3b8; }
+  .wire { fill: none; stroke: #94a3b8; }
+`;
+
+/**
+ * Render `brackets` (every PlayDiv they contain) as an SVG document. Mickey &
+ * Minnie brackets show every game and decide winners by games won.
+ */
+export function renderBracketSvg(brackets: BracketMatch[], opts: { title: string; mickey?: boolean }): string {
+  const mickey = !!opts.mickey;
+  const byId = new Map(brackets.map(m => [m.id, m] as const));
+  const body: string[] = [];
+  let y = MARGIN + TITLE_H;
+  let maxCols = 1;
+
+  for (const { div, label } of DIVISIONS) {
+    const { cols, rounds } = buildVisualColumns(brackets, div);
+    if (!cols.length) continue;
+    maxCols = Math.max(maxCols, cols.length);
+    const tops = columnTops(cols);
+    const top = y + SECTION_HEAD;
+    const colX = (i: number) => MARGIN + i * (BOX_W + COL_GAP);
+
+    body.push(`<text x="${MARGIN}" y="${y + 16}" class="section">${esc(label)}</text>`);
+    cols.forEach((col, colIdx) => {
+      body.push(`<text x="${colX(colIdx)}" y="${y + 36}" class="round">${esc(bracketRoundName(colIdx + 1, rounds, div))}</text>`);
+      col.forEach((m, i) => {
+        const mx = colX(colIdx);
+        const my = top + tops[colIdx][i];
+        body.push(matchBox(m, byId, mickey, mx, my));
+        // Wire into the match this one feeds, when it's drawn in the next column.
+        const nextIdx = cols[colIdx + 1]?.findIndex(n => n.id === m.nextId) ?? -1;
+        if (nextIdx >= 0) {
+          const x1 = mx + BOX_W;
+          const y1 = my + LABEL_H + LINE_H;
+          const x2 = colX(colIdx + 1);
+          const y2 = top + tops[colIdx + 1][nextIdx] + LABEL_H + (m.nextSide === 'team2' ? LINE_H * 1.5 : LINE_H / 2);
+          const xm = x1 + COL_GAP / 2;
+          body.push(`<path d="M${x1} ${y1} H${xm} V${y2} H${x2}" class="wire"/>`);
+        }
+      });
+    });
+
+    const flat = tops.flat();
+    y = top + (flat.length ? Math.max(...flat) : 0) + UNIT + SECTION_GAP;
+  }
+
+  const width = MARGIN * 2 + maxCols * BOX_W + (maxCols - 1) * COL_GAP;
+  const height = y + MARGIN - SECTION_GAP;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <style>${STYLE}</style>
+  <rect width="100%" height="100%" fill="#ffffff"/>
+  <text x="${MARGIN}" y="${MARGIN + 18}" class="title">${esc(opts.title)}</text>
+  ${body.join('\n  ')}
+</svg>
+`;
+}
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { apiListAudit, getSessionId, type AuditEntry, type Role } from '../api';
+import { describeChange, FORMAT_LABELS, isScoreChange, type StateChange } from '../stateDiff';
+import type { ScoreFormat } from '../scorePatch';
+
+const PAGE_SIZE = 200;
+
+const SOURCE_LABELS: Record<AuditEntry['source'], string> = {
+  save: 'Save',
+  score: 'Score entry',
+  restore: 'Restore',
+  clone: 'Cloned event',
+};
+
+const ROLE_LABELS: Record<Role, string> = { admin: 'Admin', scorekeeper: 'Scorekeeper' };
+
+type Filters = {
+  format: ScoreFormat | '';
+  division: 'UPPER' | 'LOWER' | '';
+  role: Role | '';
+  sessionId: string;
+  scoresOnly: boolean;
+  text: string;
+};
+
+const NO_FILTERS: Filters = { format: '', division: '', role: '', sessionId: '', scoresOnly: false, text: '' };
+
+/**
+ * Activity feed from the server's audit log: every accepted write, who sent
+ * it (session and role) and which matches, brackets and roster lines it
+ * changed. Filters narrow it to one format, division, person or search term
+ * (a player name or match id) when chasing down a disputed score.
+ */
+export function ActivityPanel({
+  eventId,
+  authToken,
+  onClose,
+}: {
+  eventId: string;
+  authToken: string;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [more, setMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState('');
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const mySession = useMemo(() => getSessionId(), []);
+
+  const load = async (offset: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const page = await apiListAudit(eventId, authToken, offset, PAGE_SIZE);
+      setEntries(prev => (offset === 0 ? page.entries : [...prev, ...page.entries]));
+      setMore(page.nextOffset !== null);
+      setTotal(page.total);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { load(0); }, [eventId, authToken]);
+
+  const sessions = useMemo(() => [...new Set(entries.map(e => e.sessionId))], [entries]);
+  const filtering = JSON.stringify(filters) !== JSON.stringify(NO_FILTERS);
+
+  const visible = useMemo(() => {
+    const text = filters.text.trim().toLowerCase();
+    const keep = (c: StateChange) =>
+      (!filters.format || c.format === filters.format)
+      && (!filters.division || c.division === filters.division)
+      && (!filters.scoresOnly || isScoreChange(c))
+      && (!text || describeChange(c).toLowerCase().includes(text));
+    return entries
+      .filter(e => (!filters.role || e.role === filters.role) && (!filters.sessionId || e.sessionId === filters.sessionId))
+      .map(e => ({ entry: e, changes: e.changes.filter(keep) }))
+      .filter(({ changes }) => !filtering || changes.length > 0);
+  }, [entries, filters, filtering]);
+
+  const set = <K extends keyof Filters>(key: K, value: Filters[K]) => setFilters(f => ({ ...f, [key]: value }));
+  const who = (id: string) => (id === mySession ? 'this tab' : id);
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 p-4 text-[12px] text-slate-700">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-[16px] font-semibold text-sky-800">Activity</h2>
+          <p className="text-[11px] text-slate-500 mt-0.5">
+            Every change saved to this event, newest first, with the session and role that made it.
+          </p>
+        </div>
+        <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select className="border rounded px-1.5 py-1" value={filters.format} onChange={e => set('format', e.target.value as Filters['format'])}>
+          <option value="">All formats</option>
+          {(Object.keys(FORMAT_LABELS) as ScoreFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+        </select>
+        <select className="border rounded px-1.5 py-1" value={filters.division} onChange={e => set('division', e.target.value as Filters['division'])}>
+          <option value="">Both divisions</option>
+          <option value="UPPER">UPPER</option>
+          <option value="LOWER">LOWER</option>
+        </select>
+        <select className="border rounded px-1.5 py-1" value={filters.role} onChange={e => set('role', e.target.value as Filters['role'])}>
+          <option value="">Anyone</option>
+          <option value="admin">Admins</option>
+          <option value="scorekeeper">Scorekeepers</option>
+        </select>
+        <select className="border rounded px-1.5 py-1" value={filters.sessionId} onChange={e => set('sessionId', e.target.value)}>
+          <option value="">All sessions</option>
+          {sessions.map(id => <option key={id} value={id}>{who(id)}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={filters.scoresOnly} onChange={e => set('scoresOnly', e.target.checked)} />
+          Scores only
+        </label>
+        <input
+          className="border rounded px-2 py-1 flex-1 min-w-[10rem]"
+          placeholder="Player, match id…"
+          value={filters.text}
+          onChange={e => set('text', e.target.value)}
+        />
+        {filtering && (
+          <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={() => setFilters(NO_FILTERS)}>Clear</button>
+        )}
+      </div>
+
+      {!!error && <p className="text-red-600 mb-2">{error}</p>}
+      {!loading && !error && visible.length === 0 && (
+        <p className="text-slate-500 italic">{entries.length ? 'Nothing matches these filters.' : 'No changes recorded yet.'}</p>
+      )}
+
+      {visible.length > 0 && (
+        <ol className="max-h-[28rem] overflow-auto border rounded-lg divide-y">
+          {visible.map(({ entry, changes }) => {
+            const hidden = entry.changeCount - entry.changes.length;
+            return (
+              <li key={entry.revision} className="px-3 py-2">
+                <div className="flex flex-wrap items-baseline gap-x-2 text-[11px]">
+                  <span className="tabular-nums font-semibold text-slate-800">Rev {entry.revision}</span>
+                  <span className="tabular-nums text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+                  <span>{SOURCE_LABELS[entry.source] ?? entry.source}</span>
+                  <span className={'text-[9.5px] px-1 py-0.5 rounded font-semibold ' + (entry.role === 'scorekeeper' ? 'bg-amber-100 text-amber-700' : 'bg-sky-100 text-sky-700')}>
+                    {ROLE_LABELS[entry.role] ?? entry.role}
+                  </span>
+                  <span className="text-slate-400">{who(entry.sessionId)}</span>
+                </div>
+                {changes.length > 0 ? (
+                  <ul className="mt-1 list-disc pl-5 text-[11px] font-mono text-slate-600">
+                    {changes.map((c, i) => <li key={i}>{describeChange(c)}</li>)}
+                    {!filtering && hidden > 0 && <li>…and {hidden} more</li>}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-[11px] text-slate-400 italic">No changes</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {loading && <p className="text-slate-500 mt-2">Loading activity…</p>}
+      {!loading && more && (
+        <button className="mt-2 px-3 py-1.5 rounded border hover:bg-slate-100" onClick={() => load(entries.length)}>
+          Load older ({entries.length} of {total} shown)
+        </button>
+      )}
+    </section>
+  );
+}
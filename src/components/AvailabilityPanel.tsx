@@ -0,0 +1,86 @@
+import React from 'react';
+import type { CatchUpPolicy } from '../types';
+import { isAvailable, playerKey, type Availability } from '../players';
+
+const windowLabel = (w: { arrivesRound?: number; leavesAfterRound?: number }) =>
+  [w.arrivesRound && `arrives R${w.arrivesRound}`, w.leavesAfterRound && `leaves after R${w.leavesAfterRound}`]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * Arrival and departure rounds for one roster (set per player under
+ * Players), who that leaves out of the next round, and the division's
+ * catch-up policy for late arrivals when the format has one. `note` says how
+ * a format that draws everything at once treats the windows.
+ */
+export function AvailabilityPanel({
+  players,
+  availability,
+  nextRound,
+  catchUp,
+  setCatchUp,
+  note,
+}: {
+  players: string[];
+  availability?: Availability;
+  nextRound: number;
+  catchUp?: CatchUpPolicy;
+  setCatchUp?: (policy: CatchUpPolicy | undefined) => void;
+  note?: string;
+}) {
+  const windows = players.flatMap(name => {
+    const w = availability?.get(playerKey(name));
+    return w ? [{ name, w }] : [];
+  });
+  const outNext = windows.filter(({ name }) => !isAvailable(availability, name, nextRound)).map(({ name }) => name);
+
+  return (
+    <div className="mt-3 border-t border-slate-200 pt-3 text-[11px] text-slate-600">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-[12px] font-semibold text-slate-700">Availability</span>
+        {setCatchUp && (
+          <label className="flex items-center gap-1">
+            Late arrivals
+            <select
+              className="border rounded px-1 py-0.5"
+              value={catchUp ?? ''}
+              onChange={e => setCatchUp((e.target.value || undefined) as CatchUpPolicy | undefined)}
+            >
+              <option value="">Rotate as usual</option>
+              <option value="PRIORITY">Priority to play</option>
+              <option value="PER_GAME">Rank per game</option>
+            </select>
+          </label>
+        )}
+      </div>
+      {windows.length === 0 ? (
+        <p className="mt-1 text-slate-400">
+          Everyone is here for every round. Set arrival and departure rounds under Players.
+        </p>
+      ) : (
+        <>
+          <ul className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5">
+            {windows.map(({ name, w }) => (
+              <li key={name}>
+                <span className={outNext.includes(name) ? 'line-through text-amber-600' : 'text-slate-700'}>{name}</span>{' '}
+                <span className="text-slate-400">{windowLabel(w)}</span>
+              </li>
+            ))}
+          </ul>
+          {outNext.length > 0 && (
+            <p className="mt-1 text-amber-700">
+              Not in round {nextRound}: {outNext.join(', ')}.
+            </p>
+          )}
+          {note && <p className="mt-1 text-slate-400">{note}</p>}
+        </>
+      )}
+      {setCatchUp && catchUp === 'PRIORITY' && (
+        <p className="mt-1 text-slate-400">Rounds missed count as sit-outs, so late arrivals sit last until they catch up.</p>
+      )}
+      {setCatchUp && catchUp === 'PER_GAME' && (
+        <p className="mt-1 text-slate-400">Standings and playoff seeding rank on win rate and point differential per game.</p>
+      )}
+    </div>
+  );
+}
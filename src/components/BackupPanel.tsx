@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import type { TournamentState } from '../types';
+import { downloadBackup, makeBackup, readBackup, type BackupFile } from '../backup';
+import { describeChange, diffStates, FORMAT_LABELS, isScoreChange } from '../stateDiff';
+import { formatDivision, SCORE_FORMATS } from '../scorePatch';
+
+const MAX_PREVIEW_LINES = 60;
+
+const lineCount = (text?: string) => (text || '').split(/\r?\n/).filter(l => l.trim()).length;
+
+// Per-format totals across both divisions, so an admin can tell at a glance
+// whether a file is the event they think it is.
+function summarize(state: TournamentState) {
+  return SCORE_FORMATS.map(format => {
+    let signups = 0, matches = 0, brackets = 0;
+    for (const division of ['UPPER', 'LOWER'] as const) {
+      const d = formatDivision(state, format, division);
+      if (!d) continue;
+      signups += 'pairsText' in d
+        ? lineCount(d.pairsText) + lineCount(d.freeAgentsText)
+        : lineCount(d.guysText) + lineCount(d.girlsText);
+      matches += 'rounds' in d
+        ? (d.rounds ?? []).reduce((n, r) => n + (r.matches?.length ?? 0), 0)
+        : d.matches?.length ?? 0;
+      brackets += d.brackets?.length ?? 0;
+    }
+    return { format, signups, matches, brackets };
+  }).filter(s => s.signups || s.matches || s.brackets);
+}
+
+/**
+ * Export the whole event to a JSON file and load one back. Loading previews
+ * what would change against what's on screen; for admins it is then saved
+ * like any other edit (and can be undone from "Restore to…"), otherwise it
+ * only replaces this browser's copy.
+ */
+export function BackupPanel({
+  eventId,
+  currentState,
+  revision,
+  canSave,
+  onLoad,
+}: {
+  eventId: string;
+  currentState: TournamentState;
+  revision: number | null;
+  canSave: boolean;
+  onLoad: (state: TournamentState) => void;
+}) {
+  const [picked, setPicked] = useState<{ name: string; backup: BackupFile } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const pickFile = async (file: File | undefined) => {
+    setPicked(null);
+    setErrors([]);
+    if (!file) return;
+    try {
+      const result = readBackup(await file.text());
+      if (result.ok) setPicked({ name: file.name, backup: result.backup });
+      else setErrors(result.errors);
+    } catch {
+      setErrors(["Couldn't read that file"]);
+    }
+  };
+
+  const changes = useMemo(() => (picked ? diffStates(currentState, picked.backup.state) : []), [currentState, picked]);
+  const summary = useMemo(() => (picked ? summarize(picked.backup.state) : []), [picked]);
+  const scoreChanges = changes.filter(isScoreChange).length;
+
+  const load = () => {
+    if (!picked) return;
+    const where = canSave ? 'Everyone will see it once it saves.' : 'Only this browser is affected.';
+    if (!window.confirm(`Replace this event's data with ${picked.name}? ${where}`)) return;
+    onLoad(picked.backup.state);
+    setPicked(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          className="px-2 py-1 border rounded text-[11px] hover:bg-slate-100"
+          onClick={() => downloadBackup(makeBackup(eventId, currentState, revision))}
+        >
+          Export Backup
+        </button>
+        <label className="px-2 py-1 border rounded text-[11px] hover:bg-slate-100 cursor-pointer">
+          Import Backup…
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => { pickFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-red-600">
+          That file can't be loaded:
+          <ul className="list-disc pl-5">{errors.slice(0, 10).map((e, i) => <li key={i}>{e}</li>)}</ul>
+        </div>
+      )}
+
+      {picked && (
+        <div className="rounded-lg ring-1 ring-slate-200 bg-white p-3 space-y-2 text-slate-700">
+          <div className="font-semibold text-slate-800">{picked.name}</div>
+          <div>
+            {picked.backup.exportedAt ? `Exported ${new Date(picked.backup.exportedAt).toLocaleString()}` : 'No export date'}
+            {picked.backup.eventId && <> · event {picked.backup.eventId}</>}
+            {picked.backup.revision !== null && <> · revision {picked.backup.revision}</>}
+          </div>
+          <ul>
+            {summary.map(s => (
+              <li key={s.format}>
+                {FORMAT_LABELS[s.format]}: {s.signups} sign-up{s.signups === 1 ? '' : 's'}, {s.matches} match{s.matches === 1 ? '' : 'es'}, {s.brackets} playoff game{s.brackets === 1 ? '' : 's'}
+              </li>
+            ))}
+            {summary.length === 0 && <li className="italic">Empty tournament</li>}
+          </ul>
+          <div className="font-semibold text-slate-800">
+            Loading it would make {changes.length} change{changes.length === 1 ? '' : 's'}
+            {scoreChanges > 0 && <> ({scoreChanges} score{scoreChanges === 1 ? '' : 's'})</>}
+          </div>
+          <ul className="max-h-48 overflow-auto list-disc pl-5 font-mono text-slate-600">
+            {changes.slice(0, MAX_PREVIEW_LINES).map((c, i) => <li key={i}>{describeChange(c)}</li>)}
+            {changes.length > MAX_PREVIEW_LINES && <li>…and {changes.length - MAX_PREVIEW_LINES} more</li>}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              className="px-3 py-1.5 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+              onClick={load}
+              disabled={changes.length === 0}
+            >
+              Load Backup
+            </button>
+            <button className="px-3 py-1.5 rounded border hover:bg-slate-100" onClick={() => setPicked(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { RoundBalance } from '../skillBalance';
+
+const fmt = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(1));
+
+/**
+ * Skill gap between the two sides of each match, per round: the average and
+ * the worst. Gaps are in roster-marker points (total skill per side).
+ */
+export function BalanceReadout({ rounds }: { rounds: RoundBalance[] }) {
+  if (!rounds.length) return null;
+  return (
+    <div className="mt-3 text-[11px] text-slate-600">
+      <div className="font-semibold text-slate-700 mb-1">Balance</div>
+      <div className="flex flex-wrap gap-1.5">
+        {rounds.map(r => (
+          <span
+            key={r.round}
+            className={`px-1.5 py-0.5 rounded border tabular-nums ${
+              r.worstGap >= 3 ? 'border-red-200 bg-red-50 text-red-700'
+                : r.worstGap >= 2 ? 'border-amber-200 bg-amber-50 text-amber-800'
+                  : 'border-slate-200 bg-slate-50'
+            }`}
+            title={`${r.matches} match${r.matches === 1 ? '' : 'es'}`}
+          >
+            R{r.round} · avg gap {fmt(r.avgGap)} · worst {fmt(r.worstGap)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
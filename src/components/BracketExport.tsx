@@ -0,0 +1,46 @@
+import React from 'react';
+import type { BracketMatch, DivisionKey, FormatKey } from '../types';
+import { renderBracketSvg } from '../bracketSvg';
+import { downloadText } from '../download';
+import { printHtml } from '../print';
+import { sheetTitle } from '../scoresheets';
+
+const POSTER_STYLES = `
+  @page { size: landscape; margin: 8mm; }
+  body { margin: 0; }
+  svg { width: 100%; height: auto; }
+`;
+
+/** "Download SVG" and "Print poster" for a format's playoff brackets. */
+export function BracketExport({
+  brackets,
+  format,
+  division,
+}: {
+  brackets: BracketMatch[];
+  format: FormatKey;
+  division?: DivisionKey;
+}) {
+  const mickey = format === 'MICKEY' || format === 'MICKEYBD';
+  const title = sheetTitle(format, division, 'Playoffs');
+  const svg = () => renderBracketSvg(brackets, { title, mickey });
+  const fileName = ['sunnysports', format, division, 'bracket'].filter(Boolean).join('-').toLowerCase() + '.svg';
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+        onClick={() => downloadText(fileName, svg(), 'image/svg+xml')}
+        title="Download the brackets as an image you can embed or send to a print shop"
+      >
+        Download SVG
+      </button>
+      <button
+        className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+        onClick={() => printHtml(title, svg(), POSTER_STYLES)}
+      >
+        Print poster
+      </button>
+    </div>
+  );
+}
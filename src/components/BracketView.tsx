@@ -1,6 +1,10 @@
 import React, { useMemo } from 'react';
-import type { BracketMatch, Team, PlayDiv } from '../types';
+import type { BracketMatch, Team, PlayDiv, DivisionKey, FormatKey } from '../types';
 import { courtFor, nextPow2, parseScore } from '../utils';
+import { advanceBracketWinner, parseScoreLoose } from '../scorePatch';
+import { bracketSheets, printScoresheets, sheetTitle } from '../scoresheets';
+import { BracketExport } from './BracketExport';
+import { bracketRoundName, buildVisualColumns } from '../bracketSvg';
 
 export function buildBracket(division: PlayDiv, teams: Team[]): BracketMatch[] {
   const N = teams.length; if (N === 0) return [];
@@ -92,30 +96,6 @@ export function buildBracket(division: PlayDiv, teams: Team[]): BracketMatch[] {
   return matches;
 }
 
-export function buildVisualColumns(brackets: BracketMatch[], division: PlayDiv) {
-  const list = brackets.filter(b => b.division === division);
-  if (list.length === 0) return { cols: [] as BracketMatch[][], rounds: 0, size: 0 };
-
-  const maxRound = Math.max(1, ...list.map(b => b.round));
-  const cols: BracketMatch[][] = [];
-
-  for (let r = 1; r <= maxRound; r++) {
-    let col = list.filter(b => b.round === r).sort((a, b) => a.slot - b.slot);
-
-    if (r === 1) {
-      col = col.filter(m => {
-        const onlyOneTeam = (!!m.team1 && !m.team2) || (!m.team1 && !!m.team2);
-        const isBye = m.score === 'BYE';
-        return !(onlyOneTeam && isBye);
-      });
-    }
-
-    cols.push(col);
-  }
-
-  return { cols, rounds: maxRound, size: (cols[0]?.length || 1) * 2 };
-}
-
 export function seedBadge(seed?: number) {
   if (!seed && seed !== 0) return null;
   return (
@@ -246,22 +226,17 @@ function BracketCard({
 export function BracketView({
   brackets,
   setBrackets,
+  format,
+  division,
 }: {
   brackets: BracketMatch[];
   setBrackets: (f: (prev: BracketMatch[]) => BracketMatch[] | BracketMatch[]) => void;
+  // Only label printed scoresheets.
+  format: FormatKey;
+  division?: DivisionKey;
 }) {
   const divisions: PlayDiv[] = ['UPPER', 'LOWER', 'RR'];
 
-  function parseScoreLoose(s?: string): [number, number] | null {
-    if (!s) return null;
-    const txt = String(s).trim();
-    const sep = txt.includes('–') ? '–' : '-';
-    const parts = txt.split(sep).map(p => p.trim());
-    if (parts.length !== 2) return null;
-    const a = parseInt(parts[0], 10), b = parseInt(parts[1], 10);
-    return (isFinite(a) && isFinite(b)) ? [a, b] : null;
-  }
-
   const onScore = (id: string, score: string) => setBrackets(prev => {
     const copy = prev.map(x => ({ ...x }));
     const map = new Map(copy.map(m => [m.id, m] as const));
@@ -270,16 +245,7 @@ export function BracketView({
     const parsed = parseScoreLoose(score);
     if (parsed) {
       const [a, b] = parsed;
-      const winner = a > b ? m.team1 : (a < b ? m.team2 : undefined);
-      const loser = a > b ? m.team2 : (a < b ? m.team1 : undefined);
-      if (winner && m.nextId && m.nextSide) {
-        const p = map.get(m.nextId);
-        if (p) { if (m.nextSide === 'team1') p.team1 = winner; else p.team2 = winner; }
-      }
-      if (loser && m.loserNextId && m.loserNextSide) {
-        const q = map.get(m.loserNextId);
-        if (q) { if (m.loserNextSide === 'team1') q.team1 = loser; else q.team2 = loser; }
-      }
+      advanceBracketWinner(map, m, a > b ? 'team1' : a < b ? 'team2' : null);
     }
     return copy;
   });
@@ -291,7 +257,10 @@ export function BracketView({
 
   return (
     <section className="bg-white/95 backdrop-blur rounded-2xl shadow-lg ring-1 ring-sky-200 p-6">
-      <h2 className="text-[20px] font-bold text-sky-900 mb-2 tracking-tight">Playoff Brackets</h2>
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-2">
+        <h2 className="text-[20px] font-bold text-sky-900 tracking-tight">Playoff Brackets</h2>
+        {brackets.length > 0 && <BracketExport brackets={brackets} format={format} division={division} />}
+      </div>
       <p className="text-[11px] text-slate-500 mb-4">
         ESPN-style seeding and BYEs. Quarterfinals → Semifinals → Final. Winners auto-advance. Redemption Rally is built from completed Round 1 / Round 2 losers in the current playoff mode.
       </p>
@@ -301,7 +270,25 @@ export function BracketView({
         if (!cols.length) return null;
         return (
           <div key={div} className="mb-8">
-            <h3 className="font-semibold text-slate-700 mb-2 text-[14px]">{div}</h3>
+            <div className="flex items-center gap-2 flex-wrap mb-2">
+              <h3 className="font-semibold text-slate-700 text-[14px]">{div}</h3>
+              <span className="text-[11px] text-slate-500 ml-2">Print scoresheets:</span>
+              {cols.map((col, colIdx) => {
+                const name = bracketRoundName(colIdx + 1, cfg.rounds, div);
+                return (
+                  <button
+                    key={colIdx}
+                    className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+                    onClick={() => printScoresheets(
+                      sheetTitle(format, division, `${div === 'RR' ? 'Redemption Rally' : `${div} Playoffs`} · ${name}`),
+                      bracketSheets(col, () => [{ label: 'Game', rule: null }]),
+                    )}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
             <div className="overflow-x-auto">
               <div
                 className="grid gap-2"
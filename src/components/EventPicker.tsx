@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { apiEventAction, apiListEvents, eventUrl, type EventAction, type EventMeta } from '../api';
+
+/**
+ * Switch between named tournaments and (for admins) create, clone or archive
+ * them. Switching navigates to ?event=<id> so the whole app reloads scoped to
+ * that event. Archived events are listed under "Past events" and open
+ * read-only.
+ */
+export function EventPicker({
+  eventId,
+  authToken,
+}: {
+  eventId: string;
+  authToken: string;
+}) {
+  const [events, setEvents] = useState<EventMeta[]>([]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    apiListEvents().then(setEvents).catch((e: any) => setError(e?.message || 'Failed to load events'));
+  }, []);
+
+  const current = events.find(e => e.id === eventId);
+  const active = events.filter(e => !e.archived).sort((a, b) => b.createdAt - a.createdAt);
+  const past = events.filter(e => e.archived).sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0));
+
+  const open = (id: string) => { window.location.href = eventUrl(id); };
+
+  // Every action lands on the affected event with a fresh load, so the app
+  // picks up its data and archived flag from the server.
+  const run = async (body: EventAction) => {
+    setBusy(true);
+    setError('');
+    try {
+      const ev = await apiEventAction(body, authToken);
+      open(ev.id);
+    } catch (e: any) {
+      setError(e?.message || 'Event action failed');
+      setBusy(false);
+    }
+  };
+
+  const createEvent = () => {
+    const name = prompt('Name for the new event (e.g. "Saturday Revco – June 14"):');
+    if (name?.trim()) run({ action: 'create', name: name.trim() });
+  };
+  const cloneEvent = () => {
+    const name = prompt('Name for the copy:', current ? `${current.name} (copy)` : '');
+    if (name?.trim()) run({ action: 'clone', id: eventId, name: name.trim() });
+  };
+  const toggleArchive = () => {
+    if (!current) return;
+    if (!current.archived && !window.confirm(`Archive "${current.name}"? It will stay viewable but can no longer be edited.`)) return;
+    run({ action: current.archived ? 'unarchive' : 'archive', id: eventId });
+  };
+
+  return (
+    <section className="bg-white rounded-lg ring-1 ring-slate-200 p-3 text-[12px] text-slate-700 flex items-center justify-between gap-3 flex-wrap">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-slate-500">Event:</span>
+        <select
+          className="border border-slate-300 rounded px-2 py-1 text-[12px] font-semibold max-w-[16rem]"
+          value={eventId}
+          onChange={e => open(e.target.value)}
+        >
+          {!current && <option value={eventId}>{eventId}</option>}
+          {active.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+          {past.length > 0 && (
+            <optgroup label="Past events (read-only)">
+              {past.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {current?.archived && (
+          <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-700 text-[11px] font-medium">
+            Archived · read-only
+          </span>
+        )}
+        {!!error && <span className="text-red-600">{error}</span>}
+      </div>
+      {!!authToken && (
+        <div className="flex items-center gap-2">
+          <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={createEvent} disabled={busy}>New event</button>
+          <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={cloneEvent} disabled={busy || !current}>Clone</button>
+          <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={toggleArchive} disabled={busy || !current}>
+            {current?.archived ? 'Unarchive' : 'Archive'}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
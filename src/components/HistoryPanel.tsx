@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  apiGetHistoryVersion, apiListHistory, apiRestoreHistory, getSessionId,
+  type HistoryEntry,
+} from '../api';
+import type { TournamentState } from '../types';
+import { describeChange, diffStates, isScoreChange } from '../stateDiff';
+
+const SOURCE_LABELS: Record<HistoryEntry['source'], string> = {
+  save: 'Admin save',
+  score: 'Score entry',
+  restore: 'Restore',
+  clone: 'Cloned event',
+};
+
+const MAX_PREVIEW_LINES = 60;
+
+/**
+ * "Restore to…" screen. Lists the server's recent versions of this event and
+ * previews what restoring one would change compared with what's on screen
+ * now. Restoring saves that version as a new revision, so it can itself be
+ * undone from the same list.
+ */
+export function HistoryPanel({
+  eventId,
+  authToken,
+  currentState,
+  onRestored,
+  onClose,
+}: {
+  eventId: string;
+  authToken: string;
+  currentState: TournamentState;
+  onRestored: (data: TournamentState | null, revision: number) => void;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<number | null>(null);
+  const [preview, setPreview] = useState<TournamentState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const mySession = useMemo(() => getSessionId(), []);
+
+  useEffect(() => {
+    apiListHistory(eventId, authToken)
+      .then(({ current, entries }) => { setCurrent(current); setEntries(entries); })
+      .catch((e: any) => setError(e?.message || 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [eventId, authToken]);
+
+  const select = async (revision: number) => {
+    setSelected(revision);
+    setPreview(null);
+    setError('');
+    try {
+      setPreview(await apiGetHistoryVersion(eventId, revision, authToken));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load that version');
+    }
+  };
+
+  const changes = useMemo(() => (preview ? diffStates(currentState, preview) : []), [currentState, preview]);
+  const scoreChanges = changes.filter(isScoreChange).length;
+  const removed = changes.filter(c => c.action === 'removed').length;
+  const added = changes.filter(c => c.action === 'added').length;
+
+  const restore = async () => {
+    if (selected === null) return;
+    if (!window.confirm(`Restore revision ${selected}? Everyone will see that version immediately.`)) return;
+    setBusy(true);
+    try {
+      const revision = await apiRestoreHistory(eventId, selected, authToken);
+      onRestored(preview, revision);
+    } catch (e: any) {
+      setError(e?.message || 'Restore failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 p-4 text-[12px] text-slate-700">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-[16px] font-semibold text-sky-800">Restore to…</h2>
+          <p className="text-[11px] text-slate-500 mt-0.5">
+            The last {entries.length || 'few'} saved versions of this event. Pick one to preview what would change.
+          </p>
+        </div>
+        <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={onClose}>Close</button>
+      </div>
+
+      {loading && <p className="text-slate-500">Loading history…</p>}
+      {!!error && <p className="text-red-600 mb-2">{error}</p>}
+      {!loading && entries.length === 0 && !error && (
+        <p className="text-slate-500 italic">No saved versions yet.</p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {entries.length > 0 && (
+          <div className="max-h-80 overflow-auto border rounded-lg">
+            <table className="min-w-full">
+              <thead className="sticky top-0 bg-slate-50 text-left text-slate-600">
+                <tr>
+                  <th className="py-1 px-2">Rev</th>
+                  <th className="py-1 px-2">Saved</th>
+                  <th className="py-1 px-2">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(e => (
+                  <tr
+                    key={e.revision}
+                    className={'border-t cursor-pointer hover:bg-sky-50 ' + (selected === e.revision ? 'bg-sky-100' : '')}
+                    onClick={() => select(e.revision)}
+                  >
+                    <td className="py-1 px-2 tabular-nums">
+                      {e.revision}
+                      {e.revision === current && (
+                        <span className="ml-1 text-[9px] px-1 py-0.5 rounded bg-emerald-100 text-emerald-700 font-semibold">NOW</span>
+                      )}
+                    </td>
+                    <td className="py-1 px-2 tabular-nums">{new Date(e.savedAt).toLocaleString()}</td>
+                    <td className="py-1 px-2">
+                      {SOURCE_LABELS[e.source] ?? e.source}
+                      <span className="text-slate-400"> · {e.sessionId === mySession ? 'this tab' : e.sessionId}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {selected !== null && (
+          <div className="space-y-2">
+            {!preview && !error && <p className="text-slate-500">Loading revision {selected}…</p>}
+            {preview && (
+              <>
+                <div className="font-semibold text-slate-800">
+                  Restoring revision {selected} would make {changes.length} change{changes.length === 1 ? '' : 's'}
+                </div>
+                {changes.length > 0 && (
+                  <div className="text-[11px] text-slate-600">
+                    {scoreChanges} score{scoreChanges === 1 ? '' : 's'} changed · {added} item{added === 1 ? '' : 's'} brought back · {removed} item{removed === 1 ? '' : 's'} removed
+                  </div>
+                )}
+                <ul className="max-h-60 overflow-auto list-disc pl-5 text-[11px] font-mono text-slate-600">
+                  {changes.slice(0, MAX_PREVIEW_LINES).map((c, i) => <li key={i}>{describeChange(c)}</li>)}
+                  {changes.length > MAX_PREVIEW_LINES && <li>…and {changes.length - MAX_PREVIEW_LINES} more</li>}
+                </ul>
+                <button
+                  className="px-3 py-1.5 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+                  onClick={restore}
+                  disabled={busy || changes.length === 0}
+                >
+                  Restore revision {selected}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
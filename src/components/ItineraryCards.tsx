@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { DivisionKey, FormatKey } from '../types';
+import {
+  cardStatus, loadPrintedCodes, printItineraries, savePrintedCodes,
+  type CardStatus, type Itinerary, type PrintedCodes,
+} from '../itineraries';
+
+const STATUS_BADGES: Record<CardStatus, { label: string; className: string }> = {
+  new: { label: 'Not printed', className: 'bg-slate-100 text-slate-500' },
+  current: { label: 'Printed', className: 'bg-emerald-100 text-emerald-700' },
+  stale: { label: 'Changed', className: 'bg-amber-100 text-amber-800' },
+};
+
+/**
+ * Per-player itinerary cards for the schedule on screen. Cards always show
+ * the current rounds; once a card has been printed, regenerating rounds that
+ * change it flags it here so the old paper copy can be swapped out.
+ */
+export function ItineraryCards({
+  eventId,
+  format,
+  division,
+  itineraries,
+}: {
+  eventId: string;
+  format: FormatKey;
+  division: DivisionKey;
+  itineraries: Itinerary[];
+}) {
+  const [printed, setPrinted] = useState<PrintedCodes>(() => loadPrintedCodes(eventId, format, division));
+  const [open, setOpen] = useState(false);
+  useEffect(() => { setPrinted(loadPrintedCodes(eventId, format, division)); }, [eventId, format, division]);
+
+  const statuses = useMemo(() => itineraries.map(it => ({ it, status: cardStatus(it, printed) })), [itineraries, printed]);
+  const stale = statuses.filter(s => s.status === 'stale').map(s => s.it);
+  const fresh = statuses.filter(s => s.status === 'new').map(s => s.it);
+  const scheduled = new Set(itineraries.map(it => it.player));
+  const dropped = Object.keys(printed).filter(p => !scheduled.has(p));
+
+  const print = (list: Itinerary[]) => {
+    if (!printItineraries(format, division, list)) return;
+    const next = { ...printed };
+    for (const it of list) next[it.player] = it.code;
+    savePrintedCodes(eventId, format, division, next);
+    setPrinted(next);
+  };
+
+  const forget = (players: string[]) => {
+    const next = { ...printed };
+    for (const p of players) delete next[p];
+    savePrintedCodes(eventId, format, division, next);
+    setPrinted(next);
+  };
+
+  if (itineraries.length === 0 && dropped.length === 0) return null;
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 p-4 text-[12px] text-slate-700 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="font-semibold text-slate-800 mr-auto">
+          Player Cards
+          <span className="ml-2 font-normal text-slate-500">
+            {itineraries.length} player{itineraries.length === 1 ? '' : 's'}
+            {stale.length > 0 && <> · <span className="text-amber-700">{stale.length} changed since printing</span></>}
+          </span>
+        </div>
+        <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={() => print(itineraries)} disabled={!itineraries.length}>
+          Print all
+        </button>
+        {stale.length > 0 && (
+          <button className="px-2 py-1 rounded border border-amber-300 bg-amber-50 hover:bg-amber-100" onClick={() => print(stale)}>
+            Reprint changed ({stale.length})
+          </button>
+        )}
+        {fresh.length > 0 && fresh.length < itineraries.length && (
+          <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={() => print(fresh)}>
+            Print unprinted ({fresh.length})
+          </button>
+        )}
+        <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={() => setOpen(o => !o)}>
+          {open ? 'Hide players' : 'Show players'}
+        </button>
+      </div>
+
+      {dropped.length > 0 && (
+        <div className="text-amber-800">
+          Printed cards for players no longer in the schedule: {dropped.join(', ')}.{' '}
+          <button className="underline" onClick={() => forget(dropped)}>Dismiss</button>
+        </div>
+      )}
+
+      {open && (
+        <ul className="max-h-72 overflow-auto divide-y">
+          {statuses.map(({ it, status }) => (
+            <li key={it.player} className="flex items-center gap-2 py-1">
+              <span className="mr-auto">{it.player}</span>
+              <span className="text-[11px] text-slate-400 font-mono">{it.code}</span>
+              <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium ${STATUS_BADGES[status].className}`}>
+                {STATUS_BADGES[status].label}
+              </span>
+              <button className="text-[11px] px-2 py-0.5 rounded border hover:bg-slate-100" onClick={() => print([it])}>
+                Print
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
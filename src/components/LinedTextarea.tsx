@@ -6,17 +6,21 @@ export function LinedTextarea({
   onChange,
   placeholder,
   id,
+  onEdited,
 }: {
   label: string;
   value: string;
   onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   placeholder?: string;
   id: string;
+  // Called when the box is left with different text than it was focused with.
+  onEdited?: (before: string, after: string) => void;
 }) {
   const gutterRef = useRef<HTMLDivElement | null>(null);
   const taRef = useRef<HTMLTextAreaElement | null>(null);
   const selRef = useRef<{ start: number; end: number }>({ start: 0, end: 0 });
   const scrollRef = useRef<number>(0);
+  const focusedValueRef = useRef<string | null>(null);
 
   const lines = useMemo(() => (value ?? '').split(/\r?\n/), [value]);
   const trimmed = useMemo(() => lines.map((s) => s.trim()), [lines]);
@@ -90,6 +94,12 @@ export function LinedTextarea({
               selRef.current = { start: ta.selectionStart ?? 0, end: ta.selectionEnd ?? 0 };
             }}
             onScroll={(e) => { scrollRef.current = (e.currentTarget as HTMLTextAreaElement).scrollTop; }}
+            onFocus={() => { focusedValueRef.current = value; }}
+            onBlur={() => {
+              const before = focusedValueRef.current;
+              focusedValueRef.current = null;
+              if (before !== null && before !== value) onEdited?.(before, value);
+            }}
             style={{ resize: 'vertical', lineHeight: '1.25rem' }}
             aria-invalid={hasDupes}
             aria-errormessage={hasDupes ? `${id}-dups` : undefined}
@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { PlayerRecord, TournamentState } from '../types';
+import { playerKey, playerUsage, renamePlayer, setPlayerMarkers, type PlayerUsage } from '../players';
+import { FORMAT_LABELS } from '../stateDiff';
+import { RenamePlayerTool } from './RenamePlayerTool';
+
+function UsageChips({ usage }: { usage: PlayerUsage[] }) {
+  if (!usage.length) return <span className="text-[11px] text-slate-400 italic">Not on any roster</span>;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {usage.map(u => (
+        <span
+          key={`${u.format}-${u.division}`}
+          className={'text-[10px] px-1.5 py-0.5 rounded-full ' + (u.onRoster ? 'bg-sky-100 text-sky-800' : 'bg-amber-100 text-amber-800')}
+          title={u.onRoster ? undefined : 'In rounds or brackets but no longer on the roster'}
+        >
+          {FORMAT_LABELS[u.format]} · {u.division}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+// A round-number cell: blank clears it.
+function RoundInput({ value, placeholder, onChange }: { value?: number; placeholder: string; onChange: (round?: number) => void }) {
+  return (
+    <input
+      type="number"
+      min={1}
+      className="w-14 border border-slate-300 rounded px-1.5 py-0.5"
+      placeholder={placeholder}
+      value={value ?? ''}
+      onChange={e => {
+        const n = Math.floor(Number(e.target.value));
+        onChange(e.target.value && n > 0 ? n : undefined);
+      }}
+    />
+  );
+}
+
+function PlayerRow({
+  player,
+  usage,
+  onRename,
+  onUpdate,
+}: {
+  player: PlayerRecord;
+  usage: PlayerUsage[];
+  onRename: (to: string) => boolean;
+  onUpdate: (changes: Partial<PlayerRecord>) => void;
+}) {
+  const [name, setName] = useState(player.name);
+  const [contact, setContact] = useState(player.contact ?? '');
+  useEffect(() => { setName(player.name); }, [player.name]);
+  useEffect(() => { setContact(player.contact ?? ''); }, [player.contact]);
+
+  const commitName = () => {
+    const to = name.trim().replace(/\s+/g, ' ');
+    if (!to || to === player.name || !onRename(to)) setName(player.name);
+  };
+
+  return (
+    <tr className="border-t border-slate-100 align-top">
+      <td className="py-1 pr-2">
+        <input
+          className="w-full border border-slate-300 rounded px-1.5 py-0.5"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        />
+      </td>
+      <td className="py-1 pr-2">
+        <select
+          className="border border-slate-300 rounded px-1 py-0.5"
+          value={player.gender ?? ''}
+          onChange={e => onUpdate({ gender: (e.target.value || undefined) as PlayerRecord['gender'] })}
+        >
+          <option value="">—</option>
+          <option value="M">M</option>
+          <option value="F">F</option>
+        </select>
+      </td>
+      <td className="py-1 pr-2">
+        <select
+          className="border border-slate-300 rounded px-1 py-0.5"
+          value={player.skill ?? ''}
+          onChange={e => onUpdate({ skill: e.target.value ? Number(e.target.value) : undefined })}
+        >
+          <option value="">—</option>
+          {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </td>
+      <td className="py-1 pr-2 whitespace-nowrap">
+        <RoundInput value={player.arrivesRound} placeholder="from" onChange={arrivesRound => onUpdate({ arrivesRound })} />
+        {' – '}
+        <RoundInput value={player.leavesAfterRound} placeholder="until" onChange={leavesAfterRound => onUpdate({ leavesAfterRound })} />
+      </td>
+      <td className="py-1 pr-2">
+        <input
+          className="w-full border border-slate-300 rounded px-1.5 py-0.5"
+          placeholder="Phone or email"
+          value={contact}
+          onChange={e => setContact(e.target.value)}
+          onBlur={() => { if (contact.trim() !== (player.contact ?? '')) onUpdate({ contact: contact.trim() || undefined }); }}
+        />
+      </td>
+      <td className="py-1"><UsageChips usage={usage} /></td>
+    </tr>
+  );
+}
+
+/**
+ * The event's player registry. Names typed into any roster box show up here
+ * on their own; renaming someone here rewrites the name in every roster,
+ * round and bracket at once, and renaming them to someone else's name opens
+ * the merge preview instead. Gender and skill changes also update the
+ * markers on Mickey & Minnie roster lines that carry one.
+ */
+export function PlayerRegistry({
+  state,
+  onChange,
+  onClose,
+}: {
+  state: TournamentState;
+  onChange: (next: TournamentState) => void;
+  onClose: () => void;
+}) {
+  const [search, setSearch] = useState('');
+  const [mergeRequest, setMergeRequest] = useState<{ from: string; to: string } | null>(null);
+  const usage = useMemo(() => playerUsage(state), [state]);
+  const players = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return state.players
+      .filter(p => !q || p.name.toLowerCase().includes(q) || (p.contact ?? '').toLowerCase().includes(q))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+  }, [state.players, search]);
+
+  const rename = (player: PlayerRecord, to: string): boolean => {
+    const taken = state.players.find(p => p.id !== player.id && playerKey(p.name) === playerKey(to));
+    if (taken) {
+      // Same name as someone else: offer the merge, with its preview.
+      setMergeRequest({ from: player.name, to: taken.name });
+      return false;
+    }
+    onChange(renamePlayer(state, player.name, to));
+    return true;
+  };
+
+  const update = (player: PlayerRecord, changes: Partial<PlayerRecord>) => {
+    const record = { ...player, ...changes };
+    for (const k of Object.keys(changes) as (keyof PlayerRecord)[]) if (record[k] === undefined) delete record[k];
+    const next = { ...state, players: state.players.map(p => (p.id === player.id ? record : p)) };
+    onChange('gender' in changes || 'skill' in changes ? setPlayerMarkers(next, record.name, record.gender, record.skill) : next);
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 p-4 text-[12px] text-slate-700">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-[16px] font-semibold text-sky-800">Players</h2>
+          <p className="text-[11px] text-slate-500 mt-0.5">
+            Everyone on any roster in this event. Renaming a player here updates every roster, round and bracket.
+            Set rounds for anyone arriving late or leaving early. Contact details are only shown to admins.
+          </p>
+        </div>
+        <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={onClose}>Close</button>
+      </div>
+
+      <RenamePlayerTool state={state} onApply={onChange} initial={mergeRequest} />
+
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          className="border border-slate-300 rounded px-2 py-1 w-56"
+          placeholder="Search players"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+        <span className="text-[11px] text-slate-500">{state.players.length} player{state.players.length === 1 ? '' : 's'}</span>
+      </div>
+
+      {state.players.length === 0 ? (
+        <p className="text-slate-500 italic">Add names to a roster to register players.</p>
+      ) : (
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-left">
+            <thead className="text-[11px] text-slate-500">
+              <tr>
+                <th className="font-medium pr-2">Name</th>
+                <th className="font-medium pr-2">Gender</th>
+                <th className="font-medium pr-2">Skill</th>
+                <th className="font-medium pr-2" title="First and last round they can play; blank for all. Round generators leave them out of other rounds.">Rounds</th>
+                <th className="font-medium pr-2">Contact</th>
+                <th className="font-medium">Playing in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map(p => (
+                <PlayerRow
+                  key={p.id}
+                  player={p}
+                  usage={usage.get(playerKey(p.name)) ?? []}
+                  onRename={to => rename(p, to)}
+                  onUpdate={changes => update(p, changes)}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
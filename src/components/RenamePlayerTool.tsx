@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { TournamentState } from '../types';
+import { knownPlayerNames, mergeClashes, playerKey, renamePlayer } from '../players';
+import { describeChange, diffStates, type ChangeKind } from '../stateDiff';
+
+const MAX_PREVIEW_LINES = 40;
+
+const KIND_LABELS: Partial<Record<ChangeKind, string>> = {
+  roster: 'roster box',
+  match: 'match',
+  bracket: 'bracket game',
+  team: 'team',
+  player: 'registry record',
+};
+
+/**
+ * Rename a player, or merge two spellings of one, across the whole event in
+ * a single save. Picks from every name in use, including ones that are only
+ * left in generated rounds after a roster line was corrected, and previews
+ * each record that would change before anything is applied.
+ */
+export function RenamePlayerTool({
+  state,
+  onApply,
+  initial,
+}: {
+  state: TournamentState;
+  onApply: (next: TournamentState) => void;
+  // Prefills the form, e.g. after a registry rename ran into another player.
+  initial?: { from: string; to: string } | null;
+}) {
+  const [from, setFrom] = useState(initial?.from ?? '');
+  const [to, setTo] = useState(initial?.to ?? '');
+  useEffect(() => {
+    if (initial) { setFrom(initial.from); setTo(initial.to); }
+  }, [initial]);
+
+  const names = useMemo(() => knownPlayerNames(state), [state]);
+  const source = names.find(n => playerKey(n) === playerKey(from));
+  const cleanTo = to.trim().replace(/\s+/g, ' ');
+  const target = source ? names.find(n => playerKey(n) === playerKey(cleanTo) && n !== source) : undefined;
+  const newName = target ?? cleanTo;
+  const ready = !!source && !!newName && newName !== source;
+
+  const next = useMemo(() => (ready ? renamePlayer(state, source!, newName) : null), [state, ready, source, newName]);
+  const changes = useMemo(() => (next ? diffStates(state, next) : []), [state, next]);
+  const clashes = useMemo(() => (ready && target ? mergeClashes(state, source!, target) : []), [state, ready, source, target]);
+
+  const counts = new Map<ChangeKind, Set<string>>();
+  for (const c of changes) {
+    if (!counts.has(c.kind)) counts.set(c.kind, new Set());
+    counts.get(c.kind)!.add(`${c.format}-${c.division}-${c.id}`);
+  }
+  const summary = [...counts.entries()]
+    .map(([kind, ids]) => `${ids.size} ${KIND_LABELS[kind] ?? kind}${ids.size === 1 ? '' : 's'}`)
+    .join(', ');
+
+  const apply = () => {
+    if (!next) return;
+    onApply(next);
+    setFrom('');
+    setTo('');
+  };
+
+  return (
+    <div className="rounded-lg ring-1 ring-slate-200 p-3 space-y-2 mb-3">
+      <div className="font-semibold text-slate-800">Rename or merge</div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className="border border-slate-300 rounded px-2 py-1 w-48"
+          list="rename-player-names"
+          placeholder="Player"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+        />
+        <span className="text-slate-400">→</span>
+        <input
+          className="border border-slate-300 rounded px-2 py-1 w-48"
+          list="rename-player-names"
+          placeholder="New name, or a player to merge into"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+        />
+        <datalist id="rename-player-names">
+          {names.map(n => <option key={n} value={n} />)}
+        </datalist>
+        <button
+          className="px-2 py-1 rounded border hover:bg-slate-100 disabled:opacity-50"
+          disabled={!ready || changes.length === 0}
+          onClick={apply}
+        >
+          {target ? `Merge into ${target}` : 'Rename everywhere'}
+        </button>
+      </div>
+
+      {from.trim() && !source && <p className="text-[11px] text-slate-500">No player called “{from.trim()}” in this event.</p>}
+      {ready && (
+        <div className="space-y-1">
+          <p className="text-[11px] text-slate-600">
+            {changes.length ? `Changes ${summary}.` : 'Nothing to change.'}
+            {target && ' Both spellings become one player, with one set of results.'}
+          </p>
+          {clashes.length > 0 && (
+            <div className="text-[11px] text-amber-800 bg-amber-50 rounded p-2">
+              Already has both names — check these after merging:
+              <ul className="list-disc pl-5">
+                {clashes.map(c => <li key={c}>{c}</li>)}
+              </ul>
+            </div>
+          )}
+          {changes.length > 0 && (
+            <ul className="max-h-48 overflow-auto list-disc pl-5 text-[11px] font-mono text-slate-600">
+              {changes.slice(0, MAX_PREVIEW_LINES).map((c, i) => <li key={i}>{describeChange(c)}</li>)}
+              {changes.length > MAX_PREVIEW_LINES && <li>…and {changes.length - MAX_PREVIEW_LINES} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { DivisionKey, FormatKey, TournamentState } from '../types';
+import { resultTables, tablesToCsv, type ExportPart } from '../resultsExport';
+import { downloadText } from '../download';
+
+const PARTS: { key: ExportPart; label: string }[] = [
+  { key: 'matches', label: 'Matches' },
+  { key: 'standings', label: 'Standings' },
+  { key: 'playoffs', label: 'Playoffs' },
+];
+
+/**
+ * "Export CSV" for the format on screen: matches, leaderboards and playoff
+ * results as one spreadsheet-ready file, for this division or both.
+ */
+export function ResultsExport({
+  eventId,
+  format,
+  division,
+  state,
+}: {
+  eventId: string;
+  format: FormatKey;
+  division: DivisionKey;
+  state: TournamentState;
+}) {
+  const [open, setOpen] = useState(false);
+  const [parts, setParts] = useState<ExportPart[]>(['matches', 'standings', 'playoffs']);
+  const [bothDivisions, setBothDivisions] = useState(false);
+
+  const toggle = (part: ExportPart) =>
+    setParts(p => (p.includes(part) ? p.filter(x => x !== part) : PARTS.map(x => x.key).filter(k => k === part || p.includes(k))));
+
+  const download = () => {
+    const divisions: DivisionKey[] = bothDivisions ? ['UPPER', 'LOWER'] : [division];
+    const csv = tablesToCsv(resultTables(state, format, divisions, parts));
+    const name = `sunnysports-${eventId}-${format.toLowerCase()}-${bothDivisions ? 'both' : division.toLowerCase()}.csv`;
+    downloadText(name, csv, 'text/csv;charset=utf-8');
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="px-2.5 py-1 rounded-md text-[11px] font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+        onClick={() => setOpen(v => !v)}
+      >
+        Export CSV
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-56 rounded-lg bg-white shadow-lg ring-1 ring-slate-200 p-3 text-[12px] text-slate-700 space-y-2">
+          {PARTS.map(p => (
+            <label key={p.key} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={parts.includes(p.key)} onChange={() => toggle(p.key)} />
+              {p.label}
+            </label>
+          ))}
+          <label className="flex items-center gap-1.5 border-t pt-2">
+            <input type="checkbox" checked={bothDivisions} onChange={e => setBothDivisions(e.target.checked)} />
+            Both divisions
+          </label>
+          <button
+            className="w-full px-3 py-1.5 rounded bg-sky-700 text-white hover:bg-sky-800 disabled:opacity-50"
+            onClick={download}
+            disabled={parts.length === 0}
+          >
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
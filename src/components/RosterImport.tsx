@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import type { DivisionKey, FormatKey } from '../types';
+import {
+  mergeRosterFields, PAIRED_FORMATS, planRosterImport,
+  type DivisionImport, type RosterFields,
+} from '../rosterImport';
+
+const DIVISIONS: DivisionKey[] = ['UPPER', 'LOWER'];
+
+/**
+ * "Import CSV…" for a roster screen. Reads a sign-up form export, previews
+ * where everyone will land (guys / girls, or pairs / free agents) and lists
+ * every row it had to skip or adjust before anything is changed. Rows with
+ * a division column go to that division; the rest go to the one on screen.
+ */
+export function RosterImport({
+  format,
+  activeDivision,
+  rosters,
+  onApply,
+}: {
+  format: FormatKey;
+  activeDivision: DivisionKey;
+  rosters: Record<DivisionKey, RosterFields>;
+  onApply: (division: DivisionKey, fields: RosterFields) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [replace, setReplace] = useState(false);
+  const [readError, setReadError] = useState('');
+
+  const paired = PAIRED_FORMATS.includes(format);
+  const plan = useMemo(
+    () => (csvText ? planRosterImport(csvText, format, activeDivision, replace ? {} : rosters) : null),
+    [csvText, format, activeDivision, replace, rosters],
+  );
+  const targets = plan ? DIVISIONS.filter(d => plan.divisions[d]) : [];
+  const errors = plan?.issues.filter(i => i.severity === 'error').length ?? 0;
+
+  const reset = () => { setOpen(false); setFileName(''); setCsvText(''); setReadError(''); };
+
+  const pickFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError('');
+    try {
+      setFileName(file.name);
+      setCsvText(await file.text());
+    } catch {
+      setReadError("Couldn't read that file");
+    }
+  };
+
+  const apply = () => {
+    if (!plan) return;
+    const hasRoster = (f: RosterFields) => [f.guysText, f.girlsText, f.pairsText, f.freeAgentsText].some(v => v?.trim());
+    if (replace && targets.some(d => hasRoster(rosters[d]))) {
+      if (!window.confirm(`Replace the current ${targets.join(' and ')} roster with this file?`)) return;
+    }
+    for (const d of targets) onApply(d, mergeRosterFields(rosters[d], plan.divisions[d]!, format, replace));
+    reset();
+  };
+
+  if (!open) {
+    return (
+      <button type="button" className="mt-3 px-2 py-1 rounded border text-[12px] hover:bg-slate-100" onClick={() => setOpen(true)}>
+        Import CSV…
+      </button>
+    );
+  }
+
+  const column = (title: string, names: string[]) => (
+    <div>
+      <div className="font-semibold text-slate-700">{title} ({names.length})</div>
+      <ul className="mt-0.5 max-h-40 overflow-auto text-slate-600">
+        {names.map((n, i) => <li key={i}>{n}</li>)}
+        {names.length === 0 && <li className="italic text-slate-400">none</li>}
+      </ul>
+    </div>
+  );
+
+  const preview = (d: DivisionKey, imp: DivisionImport) => (
+    <div key={d} className="border rounded-lg p-2">
+      <div className="text-[11px] uppercase tracking-wide text-slate-500 mb-1">{d}</div>
+      <div className="grid grid-cols-2 gap-3">
+        {paired
+          ? <>{column('Pairs', imp.pairs)}{column('Free Agents', imp.freeAgents)}</>
+          : <>{column('Guys', imp.guys)}{column('Girls', imp.girls)}</>}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full mt-3 rounded-lg ring-1 ring-sky-200 bg-sky-50/40 p-3 text-[12px] text-slate-700 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="font-semibold text-sky-800">Import roster from CSV</div>
+          <p className="text-[11px] text-slate-500 mt-0.5">
+            Columns: Name (or First / Last Name), Gender, Skill (1–5), Partner, Division. Only Name is required
+            {paired ? '' : ', and Gender is needed to split guys from girls'}.
+          </p>
+        </div>
+        <button type="button" className="px-2 py-1 rounded border hover:bg-slate-100" onClick={reset}>Cancel</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="file" accept=".csv,text/csv" onChange={e => pickFile(e.target.files?.[0])} />
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={replace} onChange={e => setReplace(e.target.checked)} />
+          Replace the current roster (otherwise add to it)
+        </label>
+      </div>
+      {!!readError && <p className="text-red-600">{readError}</p>}
+
+      {plan && (
+        <>
+          <div className="text-slate-600">
+            {fileName}: {plan.imported} player{plan.imported === 1 ? '' : 's'} to import
+            {plan.issues.length > 0 && <> · {errors} skipped row{errors === 1 ? '' : 's'} · {plan.issues.length - errors} warning{plan.issues.length - errors === 1 ? '' : 's'}</>}
+          </div>
+
+          {plan.issues.length > 0 && (
+            <ul className="max-h-32 overflow-auto text-[11px] space-y-0.5">
+              {plan.issues.map((issue, i) => (
+                <li key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                  Row {issue.row}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-3">
+            {targets.map(d => preview(d, plan.divisions[d]!))}
+          </div>
+
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded bg-sky-700 text-white hover:bg-sky-800 disabled:opacity-50"
+            onClick={apply}
+            disabled={plan.imported === 0}
+          >
+            {replace ? 'Replace roster' : 'Add to roster'} ({plan.imported})
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
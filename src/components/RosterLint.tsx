@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import type { DivisionKey, FormatKey, TournamentState } from '../types';
+import { lintRoster, loadDismissed, saveDismissed } from '../rosterLint';
+
+/**
+ * Likely duplicate names across one division's roster boxes, shown under the
+ * boxes while they're being filled in. Fixes apply to the whole event (a
+ * merge also rewrites rounds and brackets); "Not a duplicate" hides an issue
+ * in this browser for the rest of the event.
+ */
+export function RosterLint({
+  eventId,
+  state,
+  format,
+  division,
+  onApply,
+}: {
+  eventId: string;
+  state: TournamentState;
+  format: FormatKey;
+  division: DivisionKey;
+  onApply: (next: TournamentState) => void;
+}) {
+  const [dismissed, setDismissed] = useState(() => loadDismissed(eventId));
+  const issues = useMemo(
+    () => lintRoster(state, format, division).filter(i => !dismissed.includes(i.id)),
+    [state, format, division, dismissed],
+  );
+  if (!issues.length) return null;
+
+  const dismiss = (id: string) => {
+    const next = [...dismissed, id];
+    setDismissed(next);
+    saveDismissed(eventId, next);
+  };
+
+  return (
+    <div className="mt-3 text-[11px] text-amber-800 bg-amber-50 rounded p-2">
+      <div className="font-semibold mb-1">Possible duplicates</div>
+      <ul className="space-y-1">
+        {issues.map(issue => (
+          <li key={issue.id} className="flex flex-wrap items-center gap-2">
+            <span>{issue.message}</span>
+            {issue.fixes.map(fix => (
+              <button
+                key={fix.label}
+                type="button"
+                className="px-1.5 py-0.5 rounded border border-amber-300 bg-white hover:bg-amber-100"
+                onClick={() => onApply(fix.apply(state))}
+              >
+                {fix.label}
+              </button>
+            ))}
+            <button type="button" className="text-amber-700 underline hover:text-amber-900" onClick={() => dismiss(issue.id)}>
+              Not a duplicate
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type { MickeyMatchRow, MickeyTeam, ScoreSettings } from '../types';
-import { apiGetState, apiSaveState } from '../api';
+import { apiGetState, apiPatchScore, loadAdminSession, saveAdminSession, subscribeToState, SessionExpiredError, type AdminSession, type RemoteState } from '../api';
+import type { ScorePatch } from '../scorePatch';
+import { enqueueScores, isRetryable, withQueuedScores } from '../writeQueue';
 import { parseScore, isValidScore, mickeyTeamLabel } from '../utils';
 import { SunnyLogo } from './SunnyLogo';
 
@@ -96,7 +98,7 @@ function setSide(score: string | undefined, side: 'a' | 'b', val: string): strin
 
 const defaultScoreSettings: ScoreSettings = { playTo: 21, cap: null };
 
-export function ScoreFocusPage({ matchId }: { matchId: string }) {
+export function ScoreFocusPage({ eventId, matchId }: { eventId: string; matchId: string }) {
   const [state, setState] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
@@ -105,49 +107,72 @@ export function ScoreFocusPage({ matchId }: { matchId: string }) {
   // recreated on every keystroke.
   const lastEditRef = useRef(0);
   const [savingError, setSavingError] = useState<string>('');
-  const [adminKey] = useState<string>(() => {
-    try { return sessionStorage.getItem('ADMIN_KEY') || ''; } catch { return ''; }
-  });
-  const isAdmin = !!adminKey;
+  const [queued, setQueued] = useState(false);
+  // Admins and scorekeepers can both enter scores here.
+  const [session, setSession] = useState<AdminSession | null>(() => loadAdminSession());
+  const [archived, setArchived] = useState(false);
+  const isAdmin = !!session && !archived;
 
-  // Load on mount, then poll for updates. The grace check reads the latest
-  // lastEditRef.current on every tick — so it correctly skips updates that
-  // would clobber an in-progress keystroke.
+  // Load on mount, then follow live updates (push, or polling where that
+  // isn't available). An update arriving within the grace period of the
+  // user's last keystroke is re-fetched once the grace period ends instead,
+  // so it can't clobber an in-progress edit.
   useEffect(() => {
     let cancelled = false;
-    const load = async () => {
-      if (Date.now() - lastEditRef.current < RECENT_EDIT_GRACE_MS) return;
+    let retry: number | undefined;
+    const apply = (remote: RemoteState | null) => {
+      if (cancelled) return;
+      const wait = RECENT_EDIT_GRACE_MS - (Date.now() - lastEditRef.current);
+      if (wait > 0) {
+        window.clearTimeout(retry);
+        retry = window.setTimeout(load, wait);
+        return;
+      }
+      setState(remote?.data ? withQueuedScores(eventId, remote.data) : null);
+      setArchived(!!remote?.event?.archived);
+      setLoading(false);
+      setError('');
+    };
+    async function load() {
       try {
-        const remote = await apiGetState();
-        if (cancelled) return;
-        setState(remote ?? null);
-        setLoading(false);
-        setError('');
+        apply(await apiGetState(eventId));
       } catch (e: any) {
         if (!cancelled) {
           setError(e?.message || 'Failed to load');
           setLoading(false);
         }
       }
-    };
+    }
     load();
-    const interval = setInterval(load, POLL_INTERVAL_MS);
-    return () => { cancelled = true; clearInterval(interval); };
-  }, []);
+    const unsubscribe = subscribeToState(eventId, apply, POLL_INTERVAL_MS);
+    return () => { cancelled = true; window.clearTimeout(retry); unsubscribe(); };
+  }, [eventId]);
 
   const found = useMemo(() => state ? findMatch(state, matchId) : null, [state, matchId]);
 
-  const updateScore = (patch: Partial<MickeyMatchRow>) => {
-    if (!isAdmin) return;
+  // Update locally right away, then send just this one score to the server
+  // so it can't overwrite anything else another admin changed meanwhile.
+  const updateScore = (field: 'mickeyScore' | 'minnieScore', value: string) => {
+    if (!isAdmin || !found) return;
     lastEditRef.current = Date.now();
-    setState((prev: any) => {
-      const next = patchMatchInState(prev, matchId, patch);
-      // Save to server in background
-      apiSaveState(next as any, adminKey)
-        .then(() => setSavingError(''))
-        .catch((e: any) => setSavingError(e?.message || 'Save failed'));
-      return next;
-    });
+    setState(patchMatchInState(state, matchId, { [field]: value }));
+    const patch: ScorePatch = { format: found.source, division: found.division, matchId, field, value };
+    apiPatchScore(eventId, patch, session!.token)
+      .then(() => { setSavingError(''); setQueued(false); })
+      .catch((e: any) => {
+        if (e instanceof SessionExpiredError) {
+          saveAdminSession(null);
+          setSession(null);
+          setSavingError('Your session has expired. Unlock editing again to keep scoring.');
+        } else if (isRetryable(e)) {
+          // The main app replays the offline queue once the connection is back.
+          enqueueScores(eventId, [patch]);
+          setSavingError('');
+          setQueued(true);
+        } else {
+          setSavingError(e?.message || 'Save failed');
+        }
+      });
   };
 
   const back = () => {
@@ -230,6 +255,11 @@ export function ScoreFocusPage({ matchId }: { matchId: string }) {
               Viewer mode — unlock editing in the main app to enter scores.
             </div>
           )}
+          {queued && (
+            <div className="mt-2 inline-block text-[11px] px-2 py-1 rounded bg-amber-50 text-amber-700">
+              No connection — scores are kept on this device and sent when it's back.
+            </div>
+          )}
           {savingError && (
             <div className="mt-2 inline-block text-[11px] text-red-600">
               Save error: {savingError}
@@ -245,8 +275,8 @@ export function ScoreFocusPage({ matchId }: { matchId: string }) {
           formats={formats}
           isAdmin={isAdmin}
           onScoreChange={(fmt, side, val) => {
-            if (fmt === 'MICKEY') updateScore({ mickeyScore: setSide(match.mickeyScore, side, val) });
-            else updateScore({ minnieScore: setSide(match.minnieScore, side, val) });
+            if (fmt === 'MICKEY') updateScore('mickeyScore', setSide(match.mickeyScore, side, val));
+            else updateScore('minnieScore', setSide(match.minnieScore, side, val));
           }}
         />
 
@@ -258,8 +288,8 @@ export function ScoreFocusPage({ matchId }: { matchId: string }) {
           formats={formats}
           isAdmin={isAdmin}
           onScoreChange={(fmt, side, val) => {
-            if (fmt === 'MICKEY') updateScore({ mickeyScore: setSide(match.mickeyScore, side, val) });
-            else updateScore({ minnieScore: setSide(match.minnieScore, side, val) });
+            if (fmt === 'MICKEY') updateScore('mickeyScore', setSide(match.mickeyScore, side, val));
+            else updateScore('minnieScore', setSide(match.minnieScore, side, val));
           }}
         />
 
@@ -1,99 +1,28 @@
 import React, { useMemo } from 'react';
-import type { MatchRow, ScoreSettings } from '../types';
-import { slug, parseScore, isValidScore } from '../utils';
-
-type Bucket = { name: string; W: number; L: number; PD: number };
-
-export function computeStandings(matches: MatchRow[], guysText: string, girlsText: string) {
-  const guysList = Array.from(new Set((guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)));
-  const girlsList = Array.from(new Set((girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)));
-  const guysSet = new Set(guysList.map(slug));
-  const g = new Map<string, Bucket>(), h = new Map<string, Bucket>();
-  const ensure = (map: Map<string, Bucket>, n: string) => {
-    if (!map.has(n)) map.set(n, { name: n, W: 0, L: 0, PD: 0 });
-    return map.get(n)!;
-  };
-  for (const n of guysList) ensure(g, n);
-  for (const n of girlsList) ensure(h, n);
-  for (const m of matches) {
-    const s = parseScore(m.scoreText); if (!s) continue;
-    const [a, b] = s;
-    if (a === b) continue;
-    const t1 = [m.t1p1, m.t1p2], t2 = [m.t2p1, m.t2p2];
-    const diff = Math.abs(a - b);
-    const t1Won = a > b;
-    const apply = (name: string, won: boolean) => {
-      const map = guysSet.has(slug(name)) ? g : h;
-      const row = ensure(map, name);
-      if (won) { row.W++; row.PD += diff; } else { row.L++; row.PD -= diff; }
-    };
-    for (const p of t1) apply(p, t1Won);
-    for (const p of t2) apply(p, !t1Won);
-  }
-  const sortRows = (arr: Bucket[]) => arr.sort((x, y) => y.W - x.W || y.PD - x.PD || x.name.localeCompare(y.name));
-  return { guysRows: sortRows(Array.from(g.values())), girlsRows: sortRows(Array.from(h.values())) };
-}
+import type { CatchUpPolicy, MatchRow, ScoreSettings } from '../types';
+import { computeDoublesStandings, type StandingRow } from '../standings';
 
 export function Leaderboard({
   matches,
   guysText,
   girlsText,
   scoreSettings = { playTo: 21, cap: null },
+  catchUp,
 }: {
   matches: MatchRow[];
   guysText: string;
   girlsText: string;
   scoreSettings?: ScoreSettings;
+  catchUp?: CatchUpPolicy;
 }) {
-  const guysList = useMemo(
-    () => Array.from(new Set((guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean))),
-    [guysText],
-  );
-  const girlsList = useMemo(
-    () => Array.from(new Set((girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean))),
-    [girlsText],
+  const { guysRows, girlsRows } = useMemo(
+    () => computeDoublesStandings(matches, guysText, girlsText, catchUp),
+    [matches, guysText, girlsText, catchUp],
   );
-  const guysSet = useMemo(() => new Set(guysList.map(slug)), [guysList]);
-  const girlsSet = useMemo(() => new Set(girlsList.map(slug)), [girlsList]);
-
-  const baseStats = () => new Map<string, Bucket>();
-  const ensure = (map: Map<string, Bucket>, n: string) => {
-    if (!map.has(n)) map.set(n, { name: n, W: 0, L: 0, PD: 0 });
-    return map.get(n)!;
-  };
-
-  const { guysRows, girlsRows } = useMemo(() => {
-    const g = baseStats(); const h = baseStats();
-    for (const n of guysList) ensure(g, n);
-    for (const n of girlsList) ensure(h, n);
-
-    for (const m of matches) {
-      const s = parseScore(m.scoreText); if (!s) continue;
-      const [a, b] = s;
-      if (a === b) continue;
-      const t1 = [m.t1p1, m.t1p2], t2 = [m.t2p1, m.t2p2];
-      const diff = Math.abs(a - b); const t1Won = a > b;
-      const apply = (name: string, won: boolean) => {
-        const key = name;
-        const isGuy = guysSet.has(slug(name));
-        const isGirl = girlsSet.has(slug(name));
-        const map = isGuy ? g : isGirl ? h : g;
-        const row = ensure(map, key);
-        if (won) { row.W++; row.PD += diff; } else { row.L++; row.PD -= diff; }
-      };
-      for (const p of t1) apply(p, t1Won);
-      for (const p of t2) apply(p, !t1Won);
-    }
 
-    const sortRows = (arr: Bucket[]) =>
-      arr.sort((x, y) => y.W - x.W || y.PD - x.PD || x.name.localeCompare(y.name));
-    return {
-      guysRows: sortRows(Array.from(g.values())),
-      girlsRows: sortRows(Array.from(h.values())),
-    };
-  }, [matches, guysList, girlsList, guysSet, girlsSet]);
+  const perGame = catchUp === 'PER_GAME';
 
-  const Table = ({ title, rows }: { title: string; rows: Bucket[] }) => (
+  const Table = ({ title, rows }: { title: string; rows: StandingRow[] }) => (
     <section className="bg-white/95 backdrop-blur rounded-xl shadow ring-1 ring-slate-200 p-4">
       <h3 className="text-[15px] font-semibold text-sky-800 mb-2">{title}</h3>
       <div className="overflow-x-auto">
@@ -105,6 +34,7 @@ export function Leaderboard({
               <th className="py-1 px-2">W</th>
               <th className="py-1 px-2">L</th>
               <th className="py-1 px-2">PD</th>
+              {perGame && <th className="py-1 px-2">W%</th>}
             </tr>
           </thead>
           <tbody>
@@ -115,6 +45,9 @@ export function Leaderboard({
                 <td className="py-1 px-2 tabular-nums">{r.W}</td>
                 <td className="py-1 px-2 tabular-nums">{r.L}</td>
                 <td className="py-1 px-2 tabular-nums">{r.PD}</td>
+                {perGame && (
+                  <td className="py-1 px-2 tabular-nums">{r.W + r.L ? Math.round((100 * r.W) / (r.W + r.L)) : '—'}</td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -129,6 +62,9 @@ export function Leaderboard({
       <p className="text-[11px] text-slate-500 mb-3">
         Play to {scoreSettings.playTo}{scoreSettings.cap ? `, cap ${scoreSettings.cap}` : ', no cap'}, win by 2. W/L/PD auto-update as you type scores.
       </p>
+      {perGame && (
+        <p className="text-[11px] text-slate-500 -mt-2 mb-3">Ranked per game (win rate, then PD per game) so late arrivals aren't behind on games played.</p>
+      )}
       <div className="grid md:grid-cols-2 gap-4">
         <Table title="Guys Standings" rows={guysRows} />
         <Table title="Girls Standings" rows={girlsRows} />
@@ -1,17 +1,24 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { MatchRow, ScoreSettings } from '../types';
+import type { DivisionKey, MatchRow, ScoreSettings } from '../types';
 import { uniq, parseScore, isValidScore, isScoredGame } from '../utils';
+import { doublesSheets, printScoresheets, sheetTitle } from '../scoresheets';
 
 export function MatchesView({
   matches,
   setMatches,
   isAdmin,
+  canScore = isAdmin,
   scoreSettings = { playTo: 21, cap: null },
+  division,
 }: {
   matches: MatchRow[];
   setMatches: (f: (prev: MatchRow[]) => MatchRow[] | MatchRow[]) => void;
   isAdmin: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
   const rounds = useMemo(() => uniq(matches.map(m => m.round)).sort((a, b) => a - b), [matches]);
   const [open, setOpen] = useState(() => new Set<number>(rounds.length ? [rounds[rounds.length - 1]] : []));
@@ -91,14 +98,26 @@ export function MatchesView({
                     {open.has(r) ? '▲' : '▼'}
                   </span>
                 </button>
-                <button
-                  className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
-                  onClick={() => requestDelete(r)}
-                  disabled={!isAdmin}
-                  title="Delete this entire round"
-                >
-                  Delete Round
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+                    onClick={() => printScoresheets(
+                      sheetTitle('DOUBLES', division, `Round ${r}`),
+                      doublesSheets(matches.filter(m => m.round === r), scoreSettings),
+                    )}
+                    title="Print a scoresheet for every court in this round"
+                  >
+                    Print
+                  </button>
+                  <button
+                    className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+                    onClick={() => requestDelete(r)}
+                    disabled={!isAdmin}
+                    title="Delete this entire round"
+                  >
+                    Delete Round
+                  </button>
+                </div>
               </div>
 
               {confirmR === r && (
@@ -191,7 +210,7 @@ export function MatchesView({
                                 onChange={(e) => update(m.id, { scoreText: e.target.value })}
                                 placeholder={`to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ''}`}
                                 title={warning ? `Score doesn't match current rules (play to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ', no cap'})` : ''}
-                                disabled={!isAdmin}
+                                disabled={!canScore}
                               />
                             </td>
                           </tr>
@@ -1,8 +1,9 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { MatchRow, BracketMatch, PlayDiv, Team } from '../types';
+import type { CatchUpPolicy, MatchRow, BracketMatch, PlayDiv, Team } from '../types';
 import { slug, uniq, shuffle, clampN, parseScore } from '../utils';
 import { buildBracket } from '../components/BracketView';
-import { computeStandings } from './Leaderboard';
+import { computeDoublesStandings, rankStats } from '../standings';
+import { byTeamRating, type RatingTable } from '../ratings';
 
 export function PlayoffBuilder({
   matches,
@@ -10,16 +11,21 @@ export function PlayoffBuilder({
   girlsText,
   setBrackets,
   baseDivision,
+  ratings,
+  catchUp,
 }: {
   matches: MatchRow[];
   guysText: string;
   girlsText: string;
   setBrackets: (f: (prev: BracketMatch[]) => BracketMatch[] | BracketMatch[]) => void;
   baseDivision: 'UPPER' | 'LOWER';
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
+  catchUp?: CatchUpPolicy;
 }) {
   const { guysRows, girlsRows } = useMemo(
-    () => computeStandings(matches, guysText, girlsText),
-    [matches, guysText, girlsText],
+    () => computeDoublesStandings(matches, guysText, girlsText, catchUp),
+    [matches, guysText, girlsText, catchUp],
   );
 
   const [splitBracket, setSplitBracket] = useState<boolean>(false);
@@ -27,6 +33,8 @@ export function PlayoffBuilder({
   const [seedRandom, setSeedRandom] = useState<boolean>(true);
   const [groupSize, setGroupSize] = useState<number>(5);
   const [rrRandomize, setRrRandomize] = useState<boolean>(false);
+  const [rateTies, setRateTies] = useState<boolean>(false);
+  const tieRatings = rateTies ? ratings : null;
 
   useEffect(() => {
     setUpperK(Math.ceil(Math.max(1, Math.min(guysRows.length, girlsRows.length)) / 2));
@@ -37,7 +45,7 @@ export function PlayoffBuilder({
     gStats: Map<string, any>,
     hStats: Map<string, any>
   ) {
-    const stats = members.map(n => gStats.get(n) || hStats.get(n) || { W: 0, L: 0, PD: 0 });
+    const stats = members.map(n => rankStats(gStats.get(n) || hStats.get(n) || { W: 0, L: 0, PD: 0 }, catchUp));
     const W = stats.reduce((s, v) => s + (v.W || 0), 0);
     const PD = stats.reduce((s, v) => s + (v.PD || 0), 0);
     return { W, PD };
@@ -85,7 +93,7 @@ export function PlayoffBuilder({
     teams.sort((A, B) => {
       const sA = scoreTeam(A.members, gStats, hStats);
       const sB = scoreTeam(B.members, gStats, hStats);
-      return (sB.W - sA.W) || (sB.PD - sA.PD) || A.name.localeCompare(B.name);
+      return (sB.W - sA.W) || (sB.PD - sA.PD) || byTeamRating(tieRatings, A.members, B.members) || A.name.localeCompare(B.name);
     });
 
     teams.forEach((t, i) => {
@@ -205,7 +213,7 @@ export function PlayoffBuilder({
     rrTeams.sort((A, B) => {
       const sA = scoreTeam(A.members, gStats, hStats);
       const sB = scoreTeam(B.members, gStats, hStats);
-      return (sB.W - sA.W) || (sB.PD - sA.PD) || A.name.localeCompare(B.name);
+      return (sB.W - sA.W) || (sB.PD - sA.PD) || byTeamRating(tieRatings, A.members, B.members) || A.name.localeCompare(B.name);
     });
 
     rrTeams.forEach((t, i) => {
@@ -297,6 +305,17 @@ export function PlayoffBuilder({
             onChange={(e) => setRrRandomize(e.target.checked)}
           />
         </label>
+
+        {ratings && (
+          <label className="flex items-center gap-2">
+            Break seeding ties by rating
+            <input
+              type="checkbox"
+              checked={rateTies}
+              onChange={(e) => setRateTies(e.target.checked)}
+            />
+          </label>
+        )}
       </div>
 
       <div className="flex flex-wrap items-center gap-3 mt-3">
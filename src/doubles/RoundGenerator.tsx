@@ -1,7 +1,12 @@
 import React, { useMemo, useState } from 'react';
-import type { MatchRow } from '../types';
+import type { CatchUpPolicy, MatchRow } from '../types';
 import { slug, uniq, clampN, shuffle } from '../utils';
 import { HoldPanel } from '../components/HoldPanel';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
+import { isAvailable, roundsAway, type Availability } from '../players';
+import { BalanceReadout } from '../components/BalanceReadout';
+import { MIN_RATED_GAMES, ratingSkill, type RatingTable } from '../ratings';
+import { BALANCE_WEIGHT, hasSkillSpread, rosterNames, rosterSkills, roundBalance, skillGap, teamSkill } from '../skillBalance';
 
 // ─── Same-gender history helpers (used for display + scheduling) ──────────────
 
@@ -26,13 +31,26 @@ export function RoundGenerator({
   girlsText,
   matches,
   setMatches,
+  ratings,
+  availability,
+  catchUp,
+  setCatchUp,
 }: {
   guysText: string;
   girlsText: string;
   matches: MatchRow[];
   setMatches: (f: (prev: MatchRow[]) => MatchRow[] | MatchRow[]) => void;
+  // Player ratings from past results; when given, the draw can balance on
+  // them instead of roster markers.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
+  catchUp?: CatchUpPolicy;
+  setCatchUp: (policy: CatchUpPolicy | undefined) => void;
 }) {
   const [strict, setStrict] = useState(true);
+  const [balance, setBalance] = useState(true);
+  const [useRatings, setUseRatings] = useState(false);
   const [roundsToGen, setRoundsToGen] = useState(1);
   const [startCourt, setStartCourt] = useState(1);
   const [seedStr, setSeedStr] = useState("");
@@ -44,13 +62,20 @@ export function RoundGenerator({
     return next;
   });
 
-  const guys = useMemo(
-    () => uniq((guysText || "").split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
-    [guysText]
+  const guys = useMemo(() => rosterNames(guysText), [guysText]);
+  const girls = useMemo(() => rosterNames(girlsText), [girlsText]);
+
+  const skills = useMemo(
+    () => rosterSkills([guysText, girlsText], useRatings ? ratings : null),
+    [guysText, girlsText, useRatings, ratings]
+  );
+  const ratedCount = useMemo(
+    () => [...guys, ...girls].filter(p => ratingSkill(ratings, p) !== null).length,
+    [guys, girls, ratings]
   );
-  const girls = useMemo(
-    () => uniq((girlsText || "").split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
-    [girlsText]
+  const balanceRows = useMemo(
+    () => roundBalance(matches.map(m => ({ round: m.round, sides: [[m.t1p1, m.t1p2], [m.t2p1, m.t2p2]] })), skills),
+    [matches, skills]
   );
 
   // Per-player same-gender counts for display (Ultimate Revco / Power Puff)
@@ -139,13 +164,17 @@ export function RoundGenerator({
   const hasOpposedBefore = (opponentMap: Map<string, Set<string>>, a: string, b: string) =>
     !!opponentMap.get(slug(a))?.has(slug(b));
 
+  // `target` is the team skill every pairing aims for this round (twice the
+  // average player's), so strong players get weaker partners.
   function scoreCandidateTeam(
     partnerMap: Map<string, Set<string>>,
     a: string,
-    b: string
+    b: string,
+    target: number
   ) {
     let penalty = 0;
     if (strict && hasPartneredBefore(partnerMap, a, b)) penalty += 1000;
+    if (balance) penalty += BALANCE_WEIGHT * Math.abs(teamSkill(skills, [a, b]) - target);
     return penalty;
   }
 
@@ -180,6 +209,8 @@ export function RoundGenerator({
       if (strict && hasOpposedBefore(opponentMap, a, b)) penalty += 100;
     }
 
+    if (balance) penalty += BALANCE_WEIGHT * skillGap(skills, teamA, teamB);
+
     return penalty;
   }
 
@@ -213,7 +244,8 @@ export function RoundGenerator({
   function makeMixedTeams(
     guysPool: string[],
     girlsPool: string[],
-    partnerMap: Map<string, Set<string>>
+    partnerMap: Map<string, Set<string>>,
+    target: number
   ) {
     const mixed: TeamBuild[] = [];
     const remainingGirls = [...girlsPool];
@@ -226,7 +258,7 @@ export function RoundGenerator({
 
       for (let i = 0; i < remainingGirls.length; i++) {
         const girl = remainingGirls[i];
-        const score = scoreCandidateTeam(partnerMap, guy, girl);
+        const score = scoreCandidateTeam(partnerMap, guy, girl, target);
         if (score < bestScore) {
           bestScore = score;
           bestIdx = i;
@@ -339,7 +371,8 @@ export function RoundGenerator({
     tag: MatchRow["tag"],
     partnerMap: Map<string, Set<string>>,
     roleStats: ReturnType<typeof buildRoleStats>,
-    roundIdx: number
+    roundIdx: number,
+    target: number
   ) {
     const out: TeamBuild[] = [];
     const pool = [...players];
@@ -353,7 +386,7 @@ export function RoundGenerator({
           const a = pool[i];
           const b = pool[j];
 
-          const partnerPenalty = scoreCandidateTeam(partnerMap, a, b);
+          const partnerPenalty = scoreCandidateTeam(partnerMap, a, b, target);
           const rolePenalty =
             sameGenderPenalty(a, roleStats, roundIdx) +
             sameGenderPenalty(b, roleStats, roundIdx);
@@ -484,10 +517,22 @@ export function RoundGenerator({
     const stats = buildPlayerUsageStats(history);
     const sitOuts: string[] = [];
 
+    // With the priority catch-up policy, rounds a player wasn't there for
+    // count as sit-outs, so they're the last to sit until they catch up.
+    if (catchUp === 'PRIORITY') {
+      const pastRounds = uniq(history.map(m => m.round));
+      for (const p of [...guys, ...girls]) {
+        const away = roundsAway(availability, p, pastRounds);
+        if (away) stats.sitCounts.set(slug(p), (stats.sitCounts.get(slug(p)) || 0) + away);
+      }
+    }
+
     // Players marked as held out are removed from this round and logged as sit-outs
     const heldPlayers = [...guys, ...girls].filter(p => heldOut.has(slug(p)));
-    let availableGuys = guys.filter(p => !heldOut.has(slug(p)));
-    let availableGirls = girls.filter(p => !heldOut.has(slug(p)));
+    // Players outside their arrival / departure window aren't drawn at all
+    const here = (p: string) => !heldOut.has(slug(p)) && isAvailable(availability, p, roundIdx);
+    let availableGuys = guys.filter(here);
+    let availableGirls = girls.filter(here);
 
     if ((availableGuys.length + availableGirls.length) % 2 === 1) {
       const singleSit = chooseSingleSitOut(
@@ -519,7 +564,10 @@ export function RoundGenerator({
     const guysForMixed = prioritizedGuys.slice(0, mixedCount);
     const girlsForMixed = prioritizedGirls.slice(0, mixedCount);
 
-    const mixedBuilt = makeMixedTeams(guysForMixed, girlsForMixed, partnerMap);
+    const active = [...availableGuys, ...availableGirls];
+    const target = active.length ? (2 * teamSkill(skills, active)) / active.length : 0;
+
+    const mixedBuilt = makeMixedTeams(guysForMixed, girlsForMixed, partnerMap, target);
 
     let leftoverGuys = prioritizedGuys.slice(mixedCount);
     let leftoverGirls = mixedBuilt.leftoverGirls.concat(prioritizedGirls.slice(mixedCount));
@@ -592,7 +640,8 @@ export function RoundGenerator({
       "ULTIMATE_REVCO",
       partnerMap,
       roleStats,
-      roundIdx
+      roundIdx,
+      target
     );
 
     const girlTeamsBuilt = makeSameGenderTeams(
@@ -600,7 +649,8 @@ export function RoundGenerator({
       "POWER_PUFF",
       partnerMap,
       roleStats,
-      roundIdx
+      roundIdx,
+      target
     );
 
     const allTeams: TeamBuild[] = [
@@ -747,6 +797,30 @@ export function RoundGenerator({
             Minimize repeats when possible
           </label>
 
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={balance}
+              onChange={(e) => setBalance(e.target.checked)}
+            />
+            Balance team skill
+          </label>
+
+          {ratings && (
+            <label
+              className="flex items-center gap-1"
+              title={`Balance on ratings from past results; players with fewer than ${MIN_RATED_GAMES} rated games keep their roster marker`}
+            >
+              <input
+                type="checkbox"
+                checked={useRatings}
+                onChange={(e) => setUseRatings(e.target.checked)}
+              />
+              Balance skill by ratings
+              <span className="text-slate-400">({ratedCount}/{guys.length + girls.length} rated)</span>
+            </label>
+          )}
+
           <label className="flex items-center gap-1">
             Rounds
             <input
@@ -794,8 +868,20 @@ export function RoundGenerator({
         Ultimate Revco or Power Puff teams. The generator minimizes repeat partners, repeat
         opponents, and repeated court assignments when possible.
         Back-to-back same-gender rounds are strongly avoided and counts are balanced across all players.
+        With skill balancing on, (M3)/(F4) markers on roster lines pair stronger players with weaker
+        partners and keep each match's total skill close.
       </p>
 
+      {hasSkillSpread(skills) && <BalanceReadout rounds={balanceRows} />}
+
+      <AvailabilityPanel
+        players={[...guys, ...girls]}
+        availability={availability}
+        nextRound={matches.reduce((mx, m) => Math.max(mx, m.round), 0) + 1}
+        catchUp={catchUp}
+        setCatchUp={setCatchUp}
+      />
+
       {sgStats.hasAny && (
         <div className="mt-4 border-t border-slate-200 pt-3">
           <div className="text-[12px] font-semibold text-slate-700 mb-2">
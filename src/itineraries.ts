@@ -0,0 +1,221 @@
+import type { DivisionKey, FormatKey, KobGameRow, MatchRow, MickeyMatchRow, MickeyTeam, QuadsMatchRow, TriplesMatchRow } from './types';
+import { uniq } from './utils';
+import { FORMAT_LABELS } from './stateDiff';
+import { buildSchedule, scheduleSlots, timeForSlot } from './mickey/schedule';
+import { escapeHtml as esc, printHtml } from './print';
+
+// ── Player itinerary cards ───────────────────────────────────────────────────
+// One card per player for formats whose schedule is drawn ahead of time:
+// each round's court, partners and opponents, or that they sit out. Every
+// card carries a short code worked out from what's on it. Printing remembers
+// the codes in this browser, so once rounds are regenerated the cards that
+// no longer match can be picked out and reprinted.
+
+export type ItineraryStop = {
+  label: string;
+  court: number | null;
+  partners: string[];
+  opponents: string[];
+  sitting: boolean;
+  // Mickey & Minnie: team names, and the court a sitting team refs.
+  team?: string;
+  opponentTeam?: string;
+  refCourt?: number;
+};
+
+export type Itinerary = { player: string; stops: ItineraryStop[]; code: string };
+
+type Side = { players: string[]; team?: string };
+type Game = { court: number | null; sides: [Side, Side] };
+type Round = { label: string; games: Game[]; sitting: { players: string[]; team?: string; refCourt?: number }[] };
+
+const clean = (names: string[]) => names.map(n => n.trim()).filter(Boolean);
+
+// Short, stable code for a card's contents (FNV-1a, base 36).
+function cardCode(stops: ItineraryStop[]): string {
+  let h = 0x811c9dc5;
+  const text = JSON.stringify(stops);
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36).toUpperCase().padStart(7, '0').slice(-5);
+}
+
+function collect(rounds: Round[]): Itinerary[] {
+  const byPlayer = new Map<string, ItineraryStop[]>();
+  const add = (player: string, stop: ItineraryStop) => {
+    if (!byPlayer.has(player)) byPlayer.set(player, []);
+    byPlayer.get(player)!.push(stop);
+  };
+  for (const r of rounds) {
+    for (const g of r.games) {
+      for (const [mine, theirs] of [[g.sides[0], g.sides[1]], [g.sides[1], g.sides[0]]] as const) {
+        const players = clean(mine.players);
+        for (const p of players) {
+          add(p, {
+            label: r.label,
+            court: g.court,
+            partners: players.filter(x => x !== p),
+            opponents: clean(theirs.players),
+            sitting: false,
+            ...(mine.team !== undefined ? { team: mine.team, opponentTeam: theirs.team } : {}),
+          });
+        }
+      }
+    }
+    for (const s of r.sitting) {
+      const players = clean(s.players);
+      for (const p of players) {
+        add(p, {
+          label: r.label,
+          court: null,
+          partners: [],
+          opponents: [],
+          sitting: true,
+          ...(s.team !== undefined ? { team: s.team } : {}),
+          ...(s.refCourt !== undefined ? { refCourt: s.refCourt } : {}),
+        });
+      }
+    }
+  }
+  return [...byPlayer.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0], undefined, { sensitivity: 'base' }))
+    .map(([player, stops]) => ({ player, stops, code: cardCode(stops) }));
+}
+
+// Doubles, Quads and Triples: one stop per round. Sit-outs are stored on some
+// of a round's matches only, so they're gathered across the round.
+function roundItineraries<T extends { round: number; court: number; sitOuts?: string[] }>(
+  matches: T[],
+  sides: (m: T) => [string[], string[]],
+): Itinerary[] {
+  const rounds = uniq(matches.map(m => m.round)).sort((a, b) => a - b);
+  return collect(rounds.map(r => {
+    const rm = matches.filter(m => m.round === r).sort((a, b) => a.court - b.court);
+    return {
+      label: `Round ${r}`,
+      games: rm.map(m => {
+        const [a, b] = sides(m);
+        return { court: m.court, sides: [{ players: a }, { players: b }] as [Side, Side] };
+      }),
+      sitting: [{ players: uniq(rm.flatMap(m => m.sitOuts ?? [])) }],
+    };
+  }));
+}
+
+export const doublesItineraries = (matches: MatchRow[]) =>
+  roundItineraries(matches, m => [[m.t1p1, m.t1p2], [m.t2p1, m.t2p2]]);
+
+export const quadsItineraries = (matches: QuadsMatchRow[]) => roundItineraries(matches, m => [m.t1, m.t2]);
+
+export const triplesItineraries = (matches: TriplesMatchRow[]) => roundItineraries(matches, m => [m.t1, m.t2]);
+
+// KOB / QOB: one stop per game of the player's pool, finals included.
+export function kobItineraries(games: KobGameRow[]): Itinerary[] {
+  const sorted = [...games].sort((a, b) => a.pool - b.pool || a.game - b.game);
+  return collect(sorted.map(g => ({
+    label: `${g.finalsLabel ? `${g.finalsLabel} Finals` : `Pool ${g.pool}`} · Game ${g.game}`,
+    games: [{ court: g.court ?? null, sides: [{ players: [...g.t1] }, { players: [...g.t2] }] }],
+    sitting: [{ players: g.sitOut == null ? [] : ([] as string[]).concat(g.sitOut) }],
+  })));
+}
+
+// Mickey & Minnie: the pool schedule as the matchups view lays it out, with
+// the court each sitting team refs.
+export function mickeyItineraries(matches: MickeyMatchRow[], teams: MickeyTeam[], courtCount: number): Itinerary[] {
+  const byId = new Map(teams.map(t => [t.id, t] as const));
+  const side = (id: string): Side => {
+    const t = byId.get(id);
+    return { players: t?.players ?? [], team: t?.name ?? '(deleted team)' };
+  };
+  return collect(scheduleSlots(buildSchedule(matches, courtCount), teams).map(s => ({
+    label: `Round ${s.slot + 1} · ${timeForSlot(s.slot)}`,
+    games: s.matches.map(sm => ({ court: sm.court + 1, sides: [side(sm.m.teamAId), side(sm.m.teamBId)] as [Side, Side] })),
+    sitting: s.idle.map(t => {
+      const refIdx = s.refs.findIndex(r => r?.id === t.id);
+      return {
+        players: t.players,
+        team: t.name,
+        ...(refIdx >= 0 ? { refCourt: s.matches[refIdx].court + 1 } : {}),
+      };
+    }),
+  })));
+}
+
+// ── Printed codes ────────────────────────────────────────────────────────────
+// Which card (by code) was last printed for each player, per event, format
+// and division. Kept in this browser only: it's the admin table's record.
+
+export type PrintedCodes = Record<string, string>;
+
+const printedKey = (eventId: string, format: FormatKey, division: DivisionKey) =>
+  `sunnysports.cards:${eventId}:${format}:${division}`;
+
+export function loadPrintedCodes(eventId: string, format: FormatKey, division: DivisionKey): PrintedCodes {
+  try {
+    const raw = JSON.parse(localStorage.getItem(printedKey(eventId, format, division)) || '{}');
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePrintedCodes(eventId: string, format: FormatKey, division: DivisionKey, codes: PrintedCodes) {
+  try {
+    localStorage.setItem(printedKey(eventId, format, division), JSON.stringify(codes));
+  } catch {}
+}
+
+export type CardStatus = 'new' | 'current' | 'stale';
+
+export const cardStatus = (it: Itinerary, printed: PrintedCodes): CardStatus =>
+  !(it.player in printed) ? 'new' : printed[it.player] === it.code ? 'current' : 'stale';
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+function stopHtml(s: ItineraryStop): string {
+  if (s.sitting) {
+    const what = s.refCourt !== undefined ? `Sitting — ref court ${s.refCourt}` : 'Sitting out';
+    return `<tr class="sit"><td>${esc(s.label)}</td><td></td><td colspan="2">${esc(what)}</td></tr>`;
+  }
+  const withText = s.team !== undefined ? [s.team, s.partners.join(', ')].filter(Boolean).join(': ') : s.partners.join(', ');
+  const vsText = s.opponentTeam !== undefined ? [s.opponentTeam, s.opponents.join(', ')].filter(Boolean).join(': ') : s.opponents.join(', ');
+  return `<tr><td>${esc(s.label)}</td><td class="court">${s.court ?? '—'}</td><td>${esc(withText || '—')}</td><td>${esc(vsText || '—')}</td></tr>`;
+}
+
+function cardHtml(heading: string, it: Itinerary, printedAt: string): string {
+  return `
+  <section class="card">
+    <header><h1>${esc(it.player)}</h1><div>${esc(heading)}</div></header>
+    <table>
+      <tr><th>When</th><th>Court</th><th>With</th><th>Against</th></tr>
+      ${it.stops.map(stopHtml).join('')}
+    </table>
+    <footer>Card ${esc(it.code)} · printed ${esc(printedAt)} · check the app if rounds are regenerated</footer>
+  </section>`;
+}
+
+const STYLES = `
+  @page { size: letter portrait; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 0; display: grid; grid-template-columns: 1fr 1fr; gap: 6mm; }
+  .card { border: 1px dashed #64748b; border-radius: 4px; padding: 4mm; break-inside: avoid; page-break-inside: avoid; }
+  header { display: flex; justify-content: space-between; align-items: baseline; gap: 8px; border-bottom: 1px solid #0f172a; margin-bottom: 4px; }
+  h1 { font-size: 17px; margin: 0; }
+  header div { font-size: 11px; color: #475569; text-align: right; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  th { text-align: left; font-weight: 600; color: #475569; border-bottom: 1px solid #cbd5e1; }
+  td { padding: 2px 3px 2px 0; vertical-align: top; border-bottom: 1px solid #e2e8f0; }
+  td.court { font-weight: 700; font-size: 13px; text-align: center; }
+  tr.sit td { color: #92400e; font-style: italic; }
+  footer { margin-top: 4px; font-size: 9px; color: #64748b; }
+`;
+
+/** Print one card per itinerary for `format` / `division`. */
+export function printItineraries(format: FormatKey, division: DivisionKey, itineraries: Itinerary[]): boolean {
+  if (!itineraries.length) return false;
+  const heading = `${FORMAT_LABELS[format]} · ${division}`;
+  const printedAt = new Date().toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  return printHtml(`${heading} — player cards`, itineraries.map(it => cardHtml(heading, it, printedAt)).join(''), STYLES);
+}
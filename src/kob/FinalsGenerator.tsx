@@ -2,6 +2,7 @@ import React, { useMemo, useState } from 'react';
 import type { KobGameRow, PlayerStats } from '../types';
 import { slug, uniq, isScoredGame, computeStandings } from '../utils';
 import { generateRoundRobinSchedule, totalPartnerships } from './roundRobin';
+import { byTeamRating, type RatingTable } from '../ratings';
 
 // ── Finals game builder using round-robin engine ────────────────────────────
 
@@ -267,6 +268,7 @@ function GenderSection({
   isAdmin,
   goldPoolNum,
   silverPoolNum,
+  tieRatings,
 }: {
   genderLabel: string;
   isKob: boolean;
@@ -277,9 +279,16 @@ function GenderSection({
   isAdmin?: boolean;
   goldPoolNum: number;
   silverPoolNum: number;
+  tieRatings: RatingTable | null;
 }) {
   const [goldSize, setGoldSize] = useState(8);
-  const overallStandings = useMemo(() => computeStandings(poolGames, roster), [poolGames, roster]);
+  const overallStandings = useMemo(() => {
+    const rows = computeStandings(poolGames, roster);
+    if (!tieRatings) return rows;
+    // Only players level on W, PD and PF change places.
+    return rows.slice().sort((a, b) =>
+      b.W - a.W || (b.PF - b.PA) - (a.PF - a.PA) || b.PF - a.PF || byTeamRating(tieRatings, [a.name], [b.name]));
+  }, [poolGames, roster, tieRatings]);
 
   // Split: top goldSize go to Gold, rest go to Silver
   const goldFinalists = overallStandings.slice(0, goldSize);
@@ -368,13 +377,17 @@ export function KobFinalsGenerator({
   guysText,
   girlsText,
   isAdmin,
+  ratings,
 }: {
   games: KobGameRow[];
   setGames: (f: (prev: KobGameRow[]) => KobGameRow[]) => void;
   guysText: string;
   girlsText: string;
   isAdmin?: boolean;
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
 }) {
+  const [rateTies, setRateTies] = useState(false);
   const guys = useMemo(
     () => uniq((guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
     [guysText],
@@ -399,6 +412,12 @@ export function KobFinalsGenerator({
         <p className="text-[11px] text-slate-400 mt-0.5">
           Set players, games per player, and courts for each bracket. Players are seeded by pool play standings.
         </p>
+        {ratings && (
+          <label className="flex items-center gap-1.5 text-[12px] mt-1">
+            <input type="checkbox" checked={rateTies} onChange={e => setRateTies(e.target.checked)} />
+            Break seeding ties by rating
+          </label>
+        )}
       </div>
 
       <div className={`space-y-6 ${hasKob && hasQob ? 'divide-y divide-slate-100' : ''}`}>
@@ -413,6 +432,7 @@ export function KobFinalsGenerator({
             isAdmin={isAdmin}
             goldPoolNum={1001}
             silverPoolNum={1011}
+            tieRatings={rateTies ? ratings ?? null : null}
           />
         )}
         {hasQob && (
@@ -427,6 +447,7 @@ export function KobFinalsGenerator({
               isAdmin={isAdmin}
               goldPoolNum={1002}
               silverPoolNum={1012}
+              tieRatings={rateTies ? ratings ?? null : null}
             />
           </div>
         )}
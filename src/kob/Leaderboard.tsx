@@ -1,10 +1,7 @@
 import React, { useMemo } from 'react';
 import type { KobGameRow, ScoreSettings, PlayerStats } from '../types';
-import { slug, uniq, parseScore, isValidScore, isScoredGame, computeStandings } from '../utils';
-
-function isFullyScored(games: KobGameRow[]) {
-  return games.length > 0 && games.every(g => isScoredGame(g.scoreText));
-}
+import { uniq, isScoredGame } from '../utils';
+import { computeKobStandings } from '../standings';
 
 // ── Pool standings table ───────────────────────────────────────────────────────
 function PoolStandingsTable({
@@ -170,59 +167,20 @@ export function KobLeaderboard({
   girlsText: string;
   scoreSettings?: ScoreSettings;
 }) {
-  const guys  = useMemo(() => uniq((guysText  || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)), [guysText]);
-  const girls = useMemo(() => uniq((girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)), [girlsText]);
-
-  // Pool play: KOB = pools 1-499, QOB = pools 501-999
-  const kobPoolGames   = useMemo(() => games.filter(g => !g.isFinals && g.pool >= 1   && g.pool <= 499), [games]);
-  const qobPoolGames   = useMemo(() => games.filter(g => !g.isFinals && g.pool >= 501 && g.pool <= 999), [games]);
-  const goldKobGames   = useMemo(() => games.filter(g => g.pool === 1001), [games]);
-  const goldQobGames   = useMemo(() => games.filter(g => g.pool === 1002), [games]);
-  const silverKobGames = useMemo(() => games.filter(g => g.pool === 1011), [games]);
-  const silverQobGames = useMemo(() => games.filter(g => g.pool === 1012), [games]);
-
-  // Active roster = players who've actually appeared in pool games (by gender range)
-  const activeKobSlugs = useMemo(() => {
-    const s = new Set<string>();
-    kobPoolGames.forEach(g => [...g.t1, ...g.t2].forEach(p => s.add(slug(p))));
-    return s;
-  }, [kobPoolGames]);
-  const activeQobSlugs = useMemo(() => {
-    const s = new Set<string>();
-    qobPoolGames.forEach(g => [...g.t1, ...g.t2].forEach(p => s.add(slug(p))));
-    return s;
-  }, [qobPoolGames]);
-
-  const activeGuys  = useMemo(() => guys.filter(p => activeKobSlugs.has(slug(p))), [guys, activeKobSlugs]);
-  const activeGirls = useMemo(() => girls.filter(p => activeQobSlugs.has(slug(p))), [girls, activeQobSlugs]);
-
-  const kobPoolStandings = useMemo(() => computeStandings(kobPoolGames, activeGuys),  [kobPoolGames, activeGuys]);
-  const qobPoolStandings = useMemo(() => computeStandings(qobPoolGames, activeGirls), [qobPoolGames, activeGirls]);
-
-  // Finals standings — roster derived from the games themselves
-  const finalsRoster = (fGames: KobGameRow[]) =>
-    Array.from(new Set(fGames.flatMap(g => [...g.t1, ...g.t2])));
-
-  const goldKobStandings   = useMemo(() => computeStandings(goldKobGames,   finalsRoster(goldKobGames)),   [goldKobGames]);
-  const goldQobStandings   = useMemo(() => computeStandings(goldQobGames,   finalsRoster(goldQobGames)),   [goldQobGames]);
-  const silverKobStandings = useMemo(() => computeStandings(silverKobGames, finalsRoster(silverKobGames)), [silverKobGames]);
-  const silverQobStandings = useMemo(() => computeStandings(silverQobGames, finalsRoster(silverQobGames)), [silverQobGames]);
+  const {
+    kobPool: kobPoolStandings, qobPool: qobPoolStandings,
+    goldKob, goldQob, silverKob, silverQob,
+  } = useMemo(() => computeKobStandings(games, guysText, girlsText), [games, guysText, girlsText]);
 
-  const goldKobDone    = useMemo(() => isFullyScored(goldKobGames),   [goldKobGames]);
-  const goldQobDone    = useMemo(() => isFullyScored(goldQobGames),   [goldQobGames]);
-  const silverKobDone  = useMemo(() => isFullyScored(silverKobGames), [silverKobGames]);
-  const silverQobDone  = useMemo(() => isFullyScored(silverQobGames), [silverQobGames]);
+  const kobPoolGames = useMemo(() => games.filter(g => !g.isFinals && g.pool >= 1   && g.pool <= 499), [games]);
+  const qobPoolGames = useMemo(() => games.filter(g => !g.isFinals && g.pool >= 501 && g.pool <= 999), [games]);
 
-  const hasGoldFinals   = goldKobGames.length > 0 || goldQobGames.length > 0;
-  const hasSilverFinals = silverKobGames.length > 0 || silverQobGames.length > 0;
+  const hasGoldFinals   = goldKob.games > 0 || goldQob.games > 0;
+  const hasSilverFinals = silverKob.games > 0 || silverQob.games > 0;
 
   // For the "top N qualify" indicator — estimate gold size from existing finals games
-  const goldKobSize = goldKobGames.length > 0
-    ? new Set(goldKobGames.flatMap(g => [...g.t1, ...g.t2])).size
-    : 4;
-  const goldQobSize = goldQobGames.length > 0
-    ? new Set(goldQobGames.flatMap(g => [...g.t1, ...g.t2])).size
-    : 4;
+  const goldKobSize = goldKob.games > 0 ? goldKob.players.length : 4;
+  const goldQobSize = goldQob.games > 0 ? goldQob.players.length : 4;
 
   const allPoolGames = useMemo(() => [...kobPoolGames, ...qobPoolGames], [kobPoolGames, qobPoolGames]);
 
@@ -245,11 +203,11 @@ export function KobLeaderboard({
         <div className="mb-6">
           <div className="text-[13px] font-semibold text-amber-700 mb-3">🥇 Gold Finals</div>
           <div className="grid md:grid-cols-2 gap-4">
-            {goldKobGames.length > 0 && (
-              <FinalsCard standings={goldKobStandings} label="KOB Gold — Men" tier="gold" isComplete={goldKobDone} />
+            {goldKob.games > 0 && (
+              <FinalsCard standings={goldKob.standings} label="KOB Gold — Men" tier="gold" isComplete={goldKob.complete} />
             )}
-            {goldQobGames.length > 0 && (
-              <FinalsCard standings={goldQobStandings} label="QOB Gold — Women" tier="gold" isComplete={goldQobDone} />
+            {goldQob.games > 0 && (
+              <FinalsCard standings={goldQob.standings} label="QOB Gold — Women" tier="gold" isComplete={goldQob.complete} />
             )}
           </div>
         </div>
@@ -260,11 +218,11 @@ export function KobLeaderboard({
         <div className="mb-6">
           <div className="text-[13px] font-semibold text-slate-600 mb-3">🥈 Silver Finals — Consolation</div>
           <div className="grid md:grid-cols-2 gap-4">
-            {silverKobGames.length > 0 && (
-              <FinalsCard standings={silverKobStandings} label="KOB Silver — Men" tier="silver" isComplete={silverKobDone} />
+            {silverKob.games > 0 && (
+              <FinalsCard standings={silverKob.standings} label="KOB Silver — Men" tier="silver" isComplete={silverKob.complete} />
             )}
-            {silverQobGames.length > 0 && (
-              <FinalsCard standings={silverQobStandings} label="QOB Silver — Women" tier="silver" isComplete={silverQobDone} />
+            {silverQob.games > 0 && (
+              <FinalsCard standings={silverQob.standings} label="QOB Silver — Women" tier="silver" isComplete={silverQob.complete} />
             )}
           </div>
         </div>
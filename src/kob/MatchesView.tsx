@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { KobGameRow, ScoreSettings } from '../types';
+import type { DivisionKey, KobGameRow, ScoreSettings } from '../types';
 import { uniq, parseScore, isValidScore, isScoredGame } from '../utils';
+import { kobSheets, printScoresheets, sheetTitle } from '../scoresheets';
 
 // Pool number constants
 const GOLD_KOB  = 1001;
@@ -89,6 +90,7 @@ function GamesTable({
   poolGames,
   guySlug,
   isAdmin,
+  canScore = isAdmin,
   update,
   isFinals,
   scoreSettings,
@@ -96,6 +98,7 @@ function GamesTable({
   poolGames: KobGameRow[];
   guySlug: (n: string) => boolean;
   isAdmin?: boolean;
+  canScore?: boolean;
   update: (id: string, patch: Partial<KobGameRow>) => void;
   isFinals?: boolean;
   scoreSettings: ScoreSettings;
@@ -191,7 +194,7 @@ function GamesTable({
                     onChange={e => update(g.id, { scoreText: e.target.value })}
                     placeholder={`to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ''}`}
                     title={warning ? `Score doesn't match current rules (play to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ', no cap'})` : ''}
-                    disabled={!isAdmin}
+                    disabled={!canScore}
                   />
                 </td>
               </tr>
@@ -211,6 +214,7 @@ function PoolCard({
   livePool,
   guySlug,
   isAdmin,
+  canScore,
   update,
   confirmPool,
   setConfirmPool,
@@ -220,6 +224,7 @@ function PoolCard({
   scoreSettings,
   roster,
   addGame,
+  division,
 }: {
   pool: number;
   allGames: KobGameRow[];
@@ -227,6 +232,7 @@ function PoolCard({
   livePool: number | null;
   guySlug: (n: string) => boolean;
   isAdmin?: boolean;
+  canScore?: boolean;
   update: (id: string, patch: Partial<KobGameRow>) => void;
   confirmPool: number | null;
   setConfirmPool: (p: number | null) => void;
@@ -236,6 +242,7 @@ function PoolCard({
   scoreSettings: ScoreSettings;
   roster: string[];
   addGame: (game: KobGameRow) => void;
+  division?: DivisionKey;
 }) {
   const { total, scored } = poolStats.get(pool) ?? { total: 0, scored: 0 };
   const allDone  = total > 0 && scored === total;
@@ -283,14 +290,26 @@ function PoolCard({
           <span className="text-[11px] text-slate-400 font-normal">{isExpanded ? '▲' : '▼'}</span>
         </button>
 
-        {isAdmin && !isFinals && (
+        <div className="flex items-center gap-2">
           <button
-            className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
-            onClick={() => setConfirmPool(pool)}
+            className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+            onClick={() => printScoresheets(
+              sheetTitle('KOB', division, isFinals ? `${poolGames[0]?.finalsLabel ?? `Pool ${pool}`} Finals` : `Pool ${pool}`),
+              kobSheets(poolGames, scoreSettings),
+            )}
+            title="Print a scoresheet for every game in this pool"
           >
-            Delete Pool
+            Print
           </button>
-        )}
+          {isAdmin && !isFinals && (
+            <button
+              className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+              onClick={() => setConfirmPool(pool)}
+            >
+              Delete Pool
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Confirm delete */}
@@ -322,6 +341,7 @@ function PoolCard({
             poolGames={poolGames}
             guySlug={guySlug}
             isAdmin={isAdmin}
+            canScore={canScore}
             update={update}
             isFinals={isFinals}
             scoreSettings={scoreSettings}
@@ -425,16 +445,22 @@ export function KobMatchesView({
   games,
   setGames,
   isAdmin,
+  canScore = isAdmin,
   guys,
   girls,
   scoreSettings = { playTo: 21, cap: 23 },
+  division,
 }: {
   games: KobGameRow[];
   setGames: (f: (prev: KobGameRow[]) => KobGameRow[]) => void;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   guys: string[];
   girls: string[];
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
   const allPools = useMemo(
     () => uniq(games.map(g => g.pool)).sort((a, b) => a - b),
@@ -488,9 +514,9 @@ export function KobMatchesView({
   const addGame = (game: KobGameRow) => setGames(prev => [...prev, game]);
 
   const commonProps = (pool: number) => ({
-    pool, allGames: games, poolStats, livePool, guySlug, isAdmin,
+    pool, allGames: games, poolStats, livePool, guySlug, isAdmin, canScore,
     update, confirmPool, setConfirmPool, doDelete, open, toggleOpen, scoreSettings,
-    roster: allRoster, addGame,
+    roster: allRoster, addGame, division,
   });
 
   if (allPools.length === 0) {
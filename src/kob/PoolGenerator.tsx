@@ -1,6 +1,9 @@
 import React, { useMemo, useState } from 'react';
 import type { KobGameRow } from '../types';
 import { uniq, shuffle } from '../utils';
+import { teamRating, type RatingTable } from '../ratings';
+import { isAvailable, type Availability } from '../players';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
 import { SCHEDULES, POOL_INFO, VALID_SIZES, poolInfoLabel, reorderForRest, reorderRoundsForRest } from './schedules';
 import type { ScheduleEntry } from './schedules';
 import { generateRoundRobinSchedule, totalPartnerships } from './roundRobin';
@@ -204,6 +207,8 @@ export function KobPoolGenerator({
   games,
   setGames,
   poolBase,
+  ratings,
+  availability,
 }: {
   label: string;
   playersText: string;
@@ -211,6 +216,11 @@ export function KobPoolGenerator({
   games: KobGameRow[];
   setGames: (f: (prev: KobGameRow[]) => KobGameRow[]) => void;
   poolBase: number;
+  // Player ratings from past results; seeded modes can rank by them instead
+  // of roster order.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
 }) {
   const [mode, setMode] = useState<'pools' | 'roundrobin'>('pools');
   const [poolSizeStr, setPoolSizeStr] = useState('4');
@@ -221,19 +231,33 @@ export function KobPoolGenerator({
   const [rrSeeded, setRrSeeded] = useState(false);
   const [rrCourtsStr, setRrCourtsStr] = useState('');
   const [poolSeeded, setPoolSeeded] = useState(false);
+  const [rankByRating, setRankByRating] = useState(false);
 
   const poolSize = Math.max(4, parseInt(poolSizeStr) || 4);
   const supported = poolSize >= 4 && poolSize <= 8;
 
-  const players = useMemo(
+  const rosterPlayers = useMemo(
     () => uniq((playersText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
     [playersText],
   );
+  // Pools and round-robins are drawn once for the whole stage, so only
+  // players here from round 1 go in the draw.
+  const players = useMemo(
+    () => rosterPlayers.filter(name => isAvailable(availability, name, 1)),
+    [rosterPlayers, availability],
+  );
 
+  const byRating = !!ratings && rankByRating && (mode === 'pools' ? poolSeeded : rrSeeded);
   const seededPlayers = useMemo(() => {
     const seed = seedStr ? Number(seedStr) : undefined;
-    return seed !== undefined ? shuffle(players, seed) : players;
-  }, [players, seedStr]);
+    const order = seed !== undefined ? shuffle(players, seed) : players;
+    if (!byRating) return order;
+    // Stable, so unrated players keep their roster (or shuffled) order.
+    return order
+      .map(name => ({ name, rating: teamRating(ratings, [name]) }))
+      .sort((a, b) => b.rating - a.rating)
+      .map(p => p.name);
+  }, [players, seedStr, byRating, ratings]);
 
   const genderPools = useMemo(
     () => uniq(games.filter(g => !g.isFinals && g.pool >= poolBase + 1 && g.pool <= poolBase + 499).map(g => g.pool)),
@@ -390,6 +414,18 @@ export function KobPoolGenerator({
               <span className="text-slate-600 font-medium">Seeded</span>
             </label>
 
+            {ratings && poolSeeded && (
+              <label className="flex items-center gap-1.5 text-[11px] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={rankByRating}
+                  onChange={e => setRankByRating(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                <span className="text-slate-600 font-medium">by rating</span>
+              </label>
+            )}
+
             <label className="flex items-center gap-1 text-[11px]">
               Start court
               <input
@@ -426,7 +462,7 @@ export function KobPoolGenerator({
 
           {poolSeeded && previewPools.length > 1 && (
             <div className="px-3 py-2 rounded-lg bg-violet-50 border border-violet-200 text-[11px] text-violet-700 mb-2">
-              Seeded: roster order = skill rank (line 1 = strongest). Seeds are snake-drafted across pools so each pool has a mix of skill levels.
+              Seeded: {byRating ? 'ranked by rating from past results (unrated players count as average)' : 'roster order = skill rank (line 1 = strongest)'}. Seeds are snake-drafted across pools so each pool has a mix of skill levels.
             </div>
           )}
 
@@ -553,6 +589,18 @@ export function KobPoolGenerator({
               <span className="text-slate-600 font-medium">Seeded</span>
             </label>
 
+            {ratings && rrSeeded && (
+              <label className="flex items-center gap-1.5 text-[11px] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={rankByRating}
+                  onChange={e => setRankByRating(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                <span className="text-slate-600 font-medium">by rating</span>
+              </label>
+            )}
+
             <label className="flex items-center gap-1.5 text-[11px]">
               <span className="text-slate-600 font-medium">Courts:</span>
               <input
@@ -608,7 +656,7 @@ export function KobPoolGenerator({
 
           {rrSeeded && players.length >= 4 && (
             <div className="px-3 py-2 rounded-lg bg-violet-50 border border-violet-200 text-[11px] text-violet-700 mb-2">
-              Seeded mode: roster order = skill rank (line 1 = strongest). Strong players are paired with weaker players for balanced games.
+              Seeded mode: {byRating ? 'ranked by rating from past results (unrated players count as average)' : 'roster order = skill rank (line 1 = strongest)'}. Strong players are paired with weaker players for balanced games.
             </div>
           )}
 
@@ -681,6 +729,13 @@ export function KobPoolGenerator({
           {existingPoolCount} pool{existingPoolCount !== 1 ? 's' : ''} active · {existingGames.length} games
         </div>
       )}
+
+      <AvailabilityPanel
+        players={rosterPlayers}
+        availability={availability}
+        nextRound={1}
+        note="The whole stage is drawn at once: anyone not here for round 1 is left out of the draw, and anyone leaving early leaves their games a player short."
+      />
     </section>
   );
 }
@@ -0,0 +1,93 @@
+// ── Three-way merge of shared tournament state ───────────────────────────────
+// Used when an admin's save is rejected because another admin saved first.
+// `base` is the last state both sides agreed on, `mine` the local edits and
+// `theirs` what's on the server now. Fields changed on only one side merge
+// cleanly; fields changed differently on both sides are reported as
+// conflicts and resolved in favour of `prefer`.
+
+export type MergeResult = { merged: any; conflicts: string[] };
+
+const isObj = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isObj(a) && isObj(b)) {
+    const ka = Object.keys(a).filter(k => a[k] !== undefined);
+    const kb = Object.keys(b).filter(k => b[k] !== undefined);
+    return ka.length === kb.length && ka.every(k => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+// Arrays of matches, teams, rounds and bracket games all carry a string id,
+// so they merge item-by-item instead of as one opaque value.
+const isIdList = (v: unknown): v is { id: string }[] =>
+  Array.isArray(v) && v.every(x => isObj(x) && typeof x.id === 'string');
+
+export function mergeStates(
+  base: any,
+  mine: any,
+  theirs: any,
+  prefer: 'mine' | 'theirs' = 'theirs',
+  path = '',
+): MergeResult {
+  if (deepEqual(mine, theirs)) return { merged: mine, conflicts: [] };
+  if (deepEqual(mine, base)) return { merged: theirs, conflicts: [] };
+  if (deepEqual(theirs, base)) return { merged: mine, conflicts: [] };
+
+  if (isObj(base) && isObj(mine) && isObj(theirs)) {
+    const merged: Record<string, any> = {};
+    const conflicts: string[] = [];
+    const keys = new Set([...Object.keys(theirs), ...Object.keys(mine)]);
+    for (const k of keys) {
+      const r = mergeStates(base[k], mine[k], theirs[k], prefer, path ? `${path}.${k}` : k);
+      if (r.merged !== undefined) merged[k] = r.merged;
+      conflicts.push(...r.conflicts);
+    }
+    return { merged, conflicts };
+  }
+
+  if (isIdList(mine) && isIdList(theirs) && (base === undefined || isIdList(base))) {
+    const baseList: { id: string }[] = base ?? [];
+    const baseById = new Map(baseList.map(x => [x.id, x]));
+    const mineById = new Map(mine.map(x => [x.id, x]));
+    const theirsById = new Map(theirs.map(x => [x.id, x]));
+    const merged: any[] = [];
+    const conflicts: string[] = [];
+    const at = (id: string) => `${path}[${id}]`;
+
+    // Theirs sets the order; items only I added are appended afterwards.
+    for (const t of theirs) {
+      const m = mineById.get(t.id);
+      const b = baseById.get(t.id);
+      if (m) {
+        const r = mergeStates(b, m, t, prefer, at(t.id));
+        merged.push(r.merged);
+        conflicts.push(...r.conflicts);
+      } else if (!b) {
+        merged.push(t); // they added it
+      } else if (!deepEqual(t, b)) {
+        // I deleted something they edited.
+        conflicts.push(at(t.id));
+        if (prefer === 'theirs') merged.push(t);
+      }
+    }
+    for (const m of mine) {
+      if (theirsById.has(m.id)) continue;
+      const b = baseById.get(m.id);
+      if (!b) merged.push(m); // I added it
+      else if (!deepEqual(m, b)) {
+        // They deleted something I edited.
+        conflicts.push(at(m.id));
+        if (prefer === 'mine') merged.push(m);
+      }
+    }
+    return { merged, conflicts };
+  }
+
+  return { merged: prefer === 'mine' ? mine : theirs, conflicts: [path || '(root)'] };
+}
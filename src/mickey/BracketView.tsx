@@ -1,7 +1,10 @@
 import React, { useMemo } from 'react';
-import type { BracketMatch, Team, PlayDiv } from '../types';
-import { buildVisualColumns } from '../components/BracketView';
+import type { BracketMatch, Team, PlayDiv, DivisionKey } from '../types';
+import { bracketRoundName, buildVisualColumns } from '../bracketSvg';
 import { mickeyGamesWinner } from '../utils';
+import { advanceBracketWinner } from '../scorePatch';
+import { bracketSheets, printScoresheets, sheetTitle, type SheetSet } from '../scoresheets';
+import { BracketExport } from '../components/BracketExport';
 
 const ROW_H = 88;
 
@@ -58,6 +61,7 @@ function MickeyBracketCard({
   byId,
   matchPlay,
   isAdmin,
+  scoreEditable = isAdmin,
   setGame,
   setFormat,
   swapOptions,
@@ -67,6 +71,7 @@ function MickeyBracketCard({
   byId: Map<string, BracketMatch>;
   matchPlay: boolean;
   isAdmin?: boolean;
+  scoreEditable?: boolean;
   setGame: (id: string, idx: number, value: string) => void;
   setFormat: (id: string, fmt: '' | 'MICKEY' | 'MINNIE') => void;
   swapOptions?: Team[]; // populated when this R1 match is swap-eligible
@@ -140,7 +145,7 @@ function MickeyBracketCard({
                 value={games[i] ?? ''}
                 onChange={e => setGame(m.id, i, e.target.value)}
                 placeholder={placeholders[i] ?? placeholders[placeholders.length - 1]}
-                readOnly={!isAdmin}
+                readOnly={!scoreEditable}
               />
             ))}
           </div>
@@ -159,10 +164,18 @@ export function MickeyBracketView({
   brackets,
   setBrackets,
   isAdmin,
+  canScore = isAdmin,
+  format = 'MICKEY',
+  division,
 }: {
   brackets: BracketMatch[];
   setBrackets: (f: ((prev: BracketMatch[]) => BracketMatch[]) | BracketMatch[]) => void;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
+  // Only label printed scoresheets; the blind draw reuses this view.
+  format?: 'MICKEY' | 'MICKEYBD';
+  division?: DivisionKey;
 }) {
   const divisions: PlayDiv[] = ['UPPER', 'LOWER', 'RR'];
 
@@ -175,19 +188,7 @@ export function MickeyBracketView({
       const m = map.get(id);
       if (!m) return copy;
       mutate(m);
-      const w = mickeyGamesWinner(m.games, m.score);
-      if (w) {
-        const winner = w === 'team1' ? m.team1 : m.team2;
-        const loser = w === 'team1' ? m.team2 : m.team1;
-        if (winner && m.nextId && m.nextSide) {
-          const p = map.get(m.nextId);
-          if (p) { if (m.nextSide === 'team1') p.team1 = winner; else p.team2 = winner; }
-        }
-        if (loser && m.loserNextId && m.loserNextSide) {
-          const q = map.get(m.loserNextId);
-          if (q) { if (m.loserNextSide === 'team1') q.team1 = loser; else q.team2 = loser; }
-        }
-      }
+      advanceBracketWinner(map, m, mickeyGamesWinner(m.games, m.score));
       return copy;
     });
 
@@ -241,7 +242,10 @@ export function MickeyBracketView({
 
   return (
     <section className="bg-white/95 backdrop-blur rounded-2xl shadow-lg ring-1 ring-sky-200 p-6">
-      <h2 className="text-[20px] font-bold text-sky-900 mb-2 tracking-tight">Playoff Brackets</h2>
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-2">
+        <h2 className="text-[20px] font-bold text-sky-900 tracking-tight">Playoff Brackets</h2>
+        {brackets.length > 0 && <BracketExport brackets={brackets} format={format} division={division} />}
+      </div>
       <p className="text-[11px] text-slate-500 mb-4">
         Seeded by pool-play record. Rounds 1 &amp; 2 are a single game to 25; semifinal &amp; final are best of 3
         (21/21/15) — the winner is whoever takes most of the games you fill in. Winners auto-advance.
@@ -262,11 +266,37 @@ export function MickeyBracketView({
           if (m.team2) swapPool.push(m.team2);
         }
 
+        // Same rules as the cards: one game to 25, or match play 21/21/15.
+        const setsFor = (m: BracketMatch): SheetSet[] => {
+          const fmt = m.format === 'MICKEY' ? 'Mickey ' : m.format === 'MINNIE' ? 'Minnie ' : '';
+          return div !== 'RR' && m.round >= rounds - 1
+            ? [21, 21, 15].map((playTo, i) => ({ label: `${fmt}Game ${i + 1}${i === 2 ? ' (if needed)' : ''}`, rule: { playTo, cap: null } }))
+            : [{ label: `${fmt}Game`, rule: { playTo: 25, cap: null } }];
+        };
+
         return (
           <div key={div} className="mb-8">
-            <h3 className="font-semibold text-slate-700 mb-2 text-[14px]">
-              {div === 'RR' ? 'Redemption Rally' : div}
-            </h3>
+            <div className="flex items-center gap-2 flex-wrap mb-2">
+              <h3 className="font-semibold text-slate-700 text-[14px]">
+                {div === 'RR' ? 'Redemption Rally' : div}
+              </h3>
+              <span className="text-[11px] text-slate-500 ml-2">Print scoresheets:</span>
+              {cols.map((col, colIdx) => {
+                const name = bracketRoundName(colIdx + 1, rounds, div);
+                return (
+                  <button
+                    key={colIdx}
+                    className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+                    onClick={() => printScoresheets(
+                      sheetTitle(format, division, `${div === 'RR' ? 'Redemption Rally' : `${div} Playoffs`} · ${name}`),
+                      bracketSheets(col, setsFor),
+                    )}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
             {isAdmin && swapPool.length >= 2 && (
               <p className="text-[11px] text-slate-500 mb-2">
                 Tip: click a team in any unplayed Round 1 match to pick a different unplayed team — they'll swap in place.
@@ -300,6 +330,7 @@ export function MickeyBracketView({
                             byId={byId}
                             matchPlay={matchPlay}
                             isAdmin={isAdmin}
+                            scoreEditable={canScore}
                             setGame={setGame}
                             setFormat={setFormat}
                             swapOptions={canSwap ? swapPool : undefined}
@@ -1,21 +1,8 @@
 import React, { useMemo } from 'react';
-import type { MickeyTeam, MickeyMatchRow, ScoreSettings } from '../types';
+import type { DivisionKey, MickeyTeam, MickeyMatchRow, ScoreSettings } from '../types';
 import { parseScore, isValidScore, mickeyTeamLabel } from '../utils';
-
-// Default schedule baseline. Used to auto-compute each round's time slot.
-const DEFAULT_START_HOUR = 9;          // 9:00 AM
-const DEFAULT_DURATION_MIN = 45;       // 45 min per round of simultaneous matches
-
-function formatTime(hour24: number, minute: number): string {
-  const ampm = hour24 >= 12 ? 'PM' : 'AM';
-  const h = hour24 % 12 === 0 ? 12 : hour24 % 12;
-  return `${h}:${minute.toString().padStart(2, '0')} ${ampm}`;
-}
-function timeForSlot(slotIdx: number): string {
-  const minutes = slotIdx * DEFAULT_DURATION_MIN;
-  const hour24 = DEFAULT_START_HOUR + Math.floor(minutes / 60);
-  return formatTime(hour24, minutes % 60);
-}
+import { mickeySets, mickeySide, printScoresheets, sheetTitle } from '../scoresheets';
+import { buildSchedule, DEFAULT_DURATION_MIN, scheduleSlots, timeForSlot } from './schedule';
 
 // Read/write one side of a combined "21-18" score string.
 function getSide(score: string | undefined, side: 'a' | 'b'): string {
@@ -32,35 +19,6 @@ function setSide(score: string | undefined, side: 'a' | 'b', val: string): strin
   return `${a}-${b}`;
 }
 
-// Greedy schedule: pack matches into time slots, up to N matches per slot,
-// such that no team is in two simultaneous matches. Idle teams in a slot
-// are available to ref.
-type ScheduledMatch = { m: MickeyMatchRow; slot: number; court: number };
-function buildSchedule(matches: MickeyMatchRow[], courtCount: number): ScheduledMatch[] {
-  const cn = Math.max(1, Math.floor(courtCount) || 1);
-  const remaining = matches.map(m => ({ m, scheduled: false }));
-  const out: ScheduledMatch[] = [];
-  let slot = 0;
-  let safety = 0;
-  while (remaining.some(r => !r.scheduled) && safety < 5000) {
-    safety++;
-    const teamsInSlot = new Set<string>();
-    let court = 0;
-    for (const r of remaining) {
-      if (r.scheduled) continue;
-      if (court >= cn) break;
-      if (teamsInSlot.has(r.m.teamAId) || teamsInSlot.has(r.m.teamBId)) continue;
-      out.push({ m: r.m, slot, court });
-      teamsInSlot.add(r.m.teamAId);
-      teamsInSlot.add(r.m.teamBId);
-      r.scheduled = true;
-      court++;
-    }
-    slot++;
-  }
-  return out;
-}
-
 function ScoreInput({
   value,
   onChange,
@@ -238,7 +196,9 @@ export function MickeyMatchesView({
   courtCount,
   setCourtCount,
   isAdmin,
+  canScore = isAdmin,
   scoreSettings = { playTo: 21, cap: null },
+  division,
 }: {
   matches: MickeyMatchRow[];
   setMatches: (f: ((prev: MickeyMatchRow[]) => MickeyMatchRow[]) | MickeyMatchRow[]) => void;
@@ -247,8 +207,13 @@ export function MickeyMatchesView({
   courtCount: number;
   setCourtCount: (n: number) => void;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
+  const teamById = useMemo(() => new Map(teams.map(t => [t.id, t] as const)), [teams]);
   const nameOf = useMemo(() => {
     const m = new Map<string, string>();
     for (const t of teams) m.set(t.id, mickeyTeamLabel(t, pairsText));
@@ -265,14 +230,7 @@ export function MickeyMatchesView({
   }, [teams]);
 
   const schedule = useMemo(() => buildSchedule(matches, courtCount), [matches, courtCount]);
-  const slotGroups = useMemo(() => {
-    const m = new Map<number, ScheduledMatch[]>();
-    for (const s of schedule) {
-      if (!m.has(s.slot)) m.set(s.slot, []);
-      m.get(s.slot)!.push(s);
-    }
-    return [...m.entries()].sort((a, b) => a[0] - b[0]);
-  }, [schedule]);
+  const slotGroups = useMemo(() => scheduleSlots(schedule, teams), [schedule, teams]);
 
   const update = (id: string, patch: Partial<MickeyMatchRow>) =>
     setMatches(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
@@ -318,32 +276,21 @@ export function MickeyMatchesView({
       )}
 
       <div className="space-y-5">
-        {slotGroups.map(([slotIdx, slotMatches]) => {
-          const sorted = slotMatches.slice().sort((a, b) => a.court - b.court);
-          const playingIds = new Set<string>();
-          for (const s of sorted) {
-            playingIds.add(s.m.teamAId);
-            playingIds.add(s.m.teamBId);
-          }
-          const idleTeamsAll = teams.filter(t => !playingIds.has(t.id));
+        {slotGroups.map(({ slot: slotIdx, matches: sorted, idle: idleTeamsAll, refs }) => {
           const time = timeForSlot(slotIdx);
-
-          // For each match in the slot, prefer a ref from the SAME pool's idle teams.
-          // If no same-pool idle team, fall back to any other idle team.
-          const usedRefIds = new Set<string>();
-          const pickRef = (poolNum: number): MickeyTeam | null => {
-            const samePool = idleTeamsAll.filter(t => t.pool === poolNum && !usedRefIds.has(t.id));
-            if (samePool.length > 0) {
-              usedRefIds.add(samePool[0].id);
-              return samePool[0];
-            }
-            const any = idleTeamsAll.filter(t => !usedRefIds.has(t.id));
-            if (any.length > 0) {
-              usedRefIds.add(any[0].id);
-              return any[0];
-            }
-            return null;
-          };
+          const firstMatchNumber = runningMatchNumber + 1;
+          const print = () => printScoresheets(
+            sheetTitle('MICKEY', division, `Round ${slotIdx + 1}`),
+            sorted.map((s, i) => ({
+              court: s.court + 1,
+              detail: `Match ${firstMatchNumber + i} · ${time}`,
+              team1: mickeySide(teamById.get(s.m.teamAId)),
+              team2: mickeySide(teamById.get(s.m.teamBId)),
+              sets: mickeySets(s.m.format, scoreSettings),
+              sitOuts: idleTeamsAll.map(t => mickeyTeamLabel(t, pairsText)),
+              ref: refs[i] ? mickeyTeamLabel(refs[i]!, pairsText) : null,
+            })),
+          );
 
           return (
             <div key={slotIdx}>
@@ -351,6 +298,13 @@ export function MickeyMatchesView({
                 <h3 className="text-[15px] font-semibold text-sky-800">
                   Round {slotIdx + 1}
                   <span className="ml-2 text-[12px] font-normal text-slate-500">{time}</span>
+                  <button
+                    className="ml-2 text-[11px] font-normal px-2 py-1 rounded border hover:bg-slate-100"
+                    onClick={print}
+                    title="Print a scoresheet for every court in this round"
+                  >
+                    Print
+                  </button>
                 </h3>
                 {idleTeamsAll.length > 0 && (
                   <div className="text-[11px] text-slate-500">
@@ -359,9 +313,9 @@ export function MickeyMatchesView({
                 )}
               </div>
               <div className="grid md:grid-cols-2 gap-3">
-                {sorted.map(s => {
+                {sorted.map((s, i) => {
                   runningMatchNumber++;
-                  const refTeam = pickRef(s.m.pool);
+                  const refTeam = refs[i];
                   const refLabel = refTeam ? mickeyTeamLabel(refTeam, pairsText) : null;
                   return (
                     <MatchupCard
@@ -374,7 +328,7 @@ export function MickeyMatchesView({
                       teamBName={nameOf(s.m.teamBId)}
                       refLabel={refLabel}
                       scoreSettings={scoreSettings}
-                      isAdmin={isAdmin}
+                      isAdmin={canScore}
                       update={update}
                     />
                   );
@@ -5,6 +5,7 @@ import {
   pickFunTeamNames, parseMickeyPairsGendered, parseMickeyFreeGendered,
 } from '../utils';
 import { buildBracket } from '../components/BracketView';
+import { byTeamRating, type RatingTable } from '../ratings';
 
 // ── Parse helpers (clean names, markers stripped) ────────────────────────────
 function parsePairsClean(text: string): string[][] {
@@ -197,6 +198,7 @@ export function MickeyPlayoffBuilder({
   brackets,
   setBrackets,
   division,
+  ratings,
 }: {
   teams: MickeyTeam[];
   matches: MickeyMatchRow[];
@@ -205,8 +207,11 @@ export function MickeyPlayoffBuilder({
   brackets: BracketMatch[];
   setBrackets: (f: ((prev: BracketMatch[]) => BracketMatch[]) | BracketMatch[]) => void;
   division: 'UPPER' | 'LOWER';
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
 }) {
   const [teamSource, setTeamSource] = useState<TeamSource>('KEEP');
+  const [rateTies, setRateTies] = useState(false);
   const [editTeams, setEditTeams] = useState<PreparedTeam[]>([]);
   const [confirmBuild, setConfirmBuild] = useState(false);
 
@@ -229,7 +234,7 @@ export function MickeyPlayoffBuilder({
       .sort((a, b) => {
         const sa = stats.get(a.id)!;
         const sb = stats.get(b.id)!;
-        return sb.W - sa.W || sb.PD - sa.PD || a.name.localeCompare(b.name);
+        return sb.W - sa.W || sb.PD - sa.PD || byTeamRating(rateTies ? ratings : null, a.players, b.players) || a.name.localeCompare(b.name);
       })
       .map(t => ({ id: t.id, name: t.name, players: t.players }));
   };
@@ -362,6 +367,12 @@ export function MickeyPlayoffBuilder({
             <input type="radio" checked={teamSource === 'REDRAW'} onChange={() => setTeamSource('REDRAW')} />
             Re-draw balanced teams
           </label>
+          {ratings && teamSource === 'KEEP' && (
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={rateTies} onChange={e => setRateTies(e.target.checked)} />
+              Break seeding ties by rating
+            </label>
+          )}
         </div>
         {teamSource === 'REDRAW' && (
           <p className="text-[11px] text-slate-500">
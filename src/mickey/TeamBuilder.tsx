@@ -5,6 +5,9 @@ import {
   parseMickeyPairsGendered, parseMickeyFreeGendered, uniq,
   type GenderedName,
 } from '../utils';
+import { MIN_RATED_GAMES, ratingSkill, withRatedSkill, type RatingTable } from '../ratings';
+import { isAvailable, type Availability } from '../players';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
 
 // All player names found in the Pairs and Free Agents boxes, with markers
 // stripped. Used to populate the team-edit dropdowns.
@@ -187,6 +190,8 @@ export function MickeyTeamBuilder({
   setFirstFormat,
   matchFormat,
   setMatchFormat,
+  ratings,
+  availability,
 }: {
   pairsText: string;
   freeAgentsText: string;
@@ -198,18 +203,37 @@ export function MickeyTeamBuilder({
   setFirstFormat: (f: 'MICKEY' | 'MINNIE') => void;
   matchFormat: 'COMBINED' | 'ALTERNATING';
   setMatchFormat: (f: 'COMBINED' | 'ALTERNATING') => void;
+  // Player ratings from past results; when given, the draw can balance on
+  // them instead of the roster skill markers.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
 }) {
   const [confirmRedraw, setConfirmRedraw] = useState(false);
   const [confirmGen, setConfirmGen] = useState(false);
   const [targetPoolSize, setTargetPoolSize] = useState(5);
-
+  const [useRatings, setUseRatings] = useState(false);
+  const skillTable = useRatings ? ratings : null;
+
+  // Teams are drawn once for all of pool play, so only players here from
+  // round 1 go in the draw; a pair missing one partner enters the other as
+  // a free agent, as in the blind draw.
+  const here = (m: GenderedName) => isAvailable(availability, m.name, 1);
+  const pairs = useMemo(() => parseMickeyPairsGendered(pairsText), [pairsText]);
   const pairUnits = useMemo(
-    () => parseMickeyPairsGendered(pairsText).map(toUnit),
-    [pairsText],
+    () => pairs.filter(pair => pair.every(here)).map(pair => toUnit(pair.map(m => withRatedSkill(skillTable, m)))),
+    [pairs, skillTable, availability],
   );
   const freeUnits = useMemo(
-    () => parseMickeyFreeGendered(freeAgentsText).map(m => toUnit([m])),
-    [freeAgentsText],
+    () => [
+      ...parseMickeyFreeGendered(freeAgentsText).filter(here),
+      ...pairs.filter(pair => !pair.every(here)).flatMap(pair => pair.filter(here)),
+    ].map(m => toUnit([withRatedSkill(skillTable, m)])),
+    [freeAgentsText, pairs, skillTable, availability],
+  );
+  const ratedCount = useMemo(
+    () => [...pairUnits, ...freeUnits].flatMap(u => u.members).filter(m => ratingSkill(ratings, m.name) !== null).length,
+    [pairUnits, freeUnits, ratings],
   );
   const totalPlayers = useMemo(
     () => pairUnits.reduce((n, u) => n + u.size, 0) + freeUnits.length,
@@ -293,6 +317,13 @@ export function MickeyTeamBuilder({
         )}
       </div>
 
+      <AvailabilityPanel
+        players={rosterNames(pairsText, freeAgentsText, [])}
+        availability={availability}
+        nextRound={1}
+        note="Teams are drawn once for all of pool play: anyone not here for round 1 is left out of the draw (a pair missing one partner enters the other as a free agent), and anyone leaving early leaves their team a player short."
+      />
+
       <div className="flex items-center gap-2 flex-wrap">
         <button
           className="px-3 py-1.5 rounded bg-sky-700 text-white hover:bg-sky-800 text-[13px] disabled:opacity-40"
@@ -313,6 +344,16 @@ export function MickeyTeamBuilder({
           />
           <span className="text-slate-400">teams/pool</span>
         </label>
+        {ratings && (
+          <label
+            className="flex items-center gap-1.5 text-[12px] text-slate-600"
+            title={`Balance teams on ratings from past results; players with fewer than ${MIN_RATED_GAMES} rated games keep their roster marker`}
+          >
+            <input type="checkbox" checked={useRatings} onChange={e => setUseRatings(e.target.checked)} />
+            Balance skill by ratings
+            <span className="text-slate-400">({ratedCount}/{totalPlayers} rated)</span>
+          </label>
+        )}
         <button
           className="px-3 py-1.5 rounded border text-[13px]"
           onClick={addEmptyTeam}
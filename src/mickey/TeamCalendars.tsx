@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { DivisionKey, MickeyTeam } from '../types';
+import { DEFAULT_EVENT_ID } from '../api';
+
+function calendarUrl(eventId: string, division: DivisionKey, teamId: string): string {
+  const params = new URLSearchParams({ division, team: teamId });
+  if (eventId !== DEFAULT_EVENT_ID) params.set('event', eventId);
+  return `${window.location.origin}/api/calendar?${params}`;
+}
+
+/**
+ * Calendar links for each team's pool matches and ref duties. Subscribing
+ * keeps a phone's calendar in step with the saved schedule; the download is
+ * a snapshot that updates its entries in place when imported again.
+ */
+export function TeamCalendars({
+  eventId,
+  division,
+  teams,
+  scheduleDate,
+  setScheduleDate,
+  isAdmin,
+}: {
+  eventId: string;
+  division: DivisionKey;
+  teams: MickeyTeam[];
+  scheduleDate?: string;
+  setScheduleDate: (date: string | undefined) => void;
+  isAdmin?: boolean;
+}) {
+  const [teamId, setTeamId] = useState('');
+  const [copied, setCopied] = useState(false);
+  const team = teams.find(t => t.id === teamId);
+  const url = team ? calendarUrl(eventId, division, team.id) : '';
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm ring-1 ring-slate-200 p-4 text-[12px] text-slate-700 space-y-2">
+      <div className="font-semibold text-slate-800">Team Calendars</div>
+      <p className="text-[11px] text-slate-500">
+        Add a team's pool matches and ref duties to a phone calendar. Subscribed calendars follow schedule changes.
+      </p>
+      <label className="flex items-center gap-2">
+        Play date
+        <input
+          type="date"
+          className="border border-slate-300 rounded px-2 py-1"
+          value={scheduleDate ?? ''}
+          onChange={e => setScheduleDate(e.target.value || undefined)}
+          disabled={!isAdmin}
+        />
+      </label>
+
+      {!scheduleDate ? (
+        <p className="text-slate-500 italic">
+          {isAdmin ? 'Set the play date to turn on team calendars.' : "Calendars will be available once the organizers set the play date."}
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <select className="border border-slate-300 rounded px-2 py-1" value={teamId} onChange={e => setTeamId(e.target.value)}>
+            <option value="">Choose a team…</option>
+            {teams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          {team && (
+            <>
+              <a className="px-2 py-1 rounded border hover:bg-slate-100" href={url.replace(/^https?:/, 'webcal:')}>
+                Subscribe
+              </a>
+              <a className="px-2 py-1 rounded border hover:bg-slate-100" href={url} download>
+                Download .ics
+              </a>
+              <button className="px-2 py-1 rounded border hover:bg-slate-100" onClick={copy}>
+                {copied ? 'Copied' : 'Copy link'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
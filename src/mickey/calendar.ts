@@ -0,0 +1,129 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { DivisionKey, MickeyDivisionState, MickeyMatchRow, MickeyTeam } from '../types.js';
+import { buildSchedule, DEFAULT_DURATION_MIN, scheduleSlots, slotStartMinutes } from './schedule.js';
+
+// ── Team calendars (.ics) ────────────────────────────────────────────────────
+// One calendar per Mickey & Minnie team with its pool matches and the matches
+// it refs, at the times the matchups view shows on the division's play date.
+// Times are written without a time zone so phones show them as venue time.
+// Each event's UID is stable across reschedules and SEQUENCE follows the
+// saved revision, so a re-imported file or a subscribed calendar (served by
+// /api/calendar) moves existing entries instead of duplicating them.
+
+const FORMAT_NAMES: Record<string, string> = { MICKEY: 'Mickey (coed)', MINNIE: 'Minnie (revco)' };
+
+const setsLabel = (m: MickeyMatchRow) => (m.format ? FORMAT_NAMES[m.format] : 'Mickey + Minnie');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Floating local date-time, e.g. 20261024T094500.
+function localStamp(date: string, minutes: number): string {
+  return `${date.replace(/-/g, '')}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+}
+
+function utcStamp(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+const escapeText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters continue on the next line after a space.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ' ' + rest.slice(75);
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+export const calendarFileName = (team: MickeyTeam) =>
+  `${team.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'team'}-schedule.ics`;
+
+export type TeamCalendarOptions = {
+  eventId: string;
+  eventName: string;
+  division: DivisionKey;
+  // Saved revision the schedule comes from.
+  sequence: number;
+  now?: number;
+};
+
+/**
+ * The .ics text for `teamId`'s pool schedule, or null when the team doesn't
+ * exist or the division has no play date yet.
+ */
+export function teamCalendar(data: MickeyDivisionState, teamId: string, opts: TeamCalendarOptions): string | null {
+  const team = data.teams.find(t => t.id === teamId);
+  if (!team || !data.scheduleDate) return null;
+  const date = data.scheduleDate;
+  const byId = new Map(data.teams.map(t => [t.id, t] as const));
+  const nameOf = (id: string) => byId.get(id)?.name ?? '(deleted team)';
+  const stamp = utcStamp(opts.now ?? Date.now());
+
+  const events: string[][] = [];
+  const addEvent = (uid: string, slot: number, summary: string, court: number, description: string) => {
+    const start = slotStartMinutes(slot);
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:${uid}@sunnysports-${opts.eventId}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${opts.sequence}`,
+      `DTSTART:${localStamp(date, start)}`,
+      `DTEND:${localStamp(date, start + DEFAULT_DURATION_MIN)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `LOCATION:${escapeText(`Court ${court}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT',
+    ]);
+  };
+
+  for (const s of scheduleSlots(buildSchedule(data.matches, data.courtCount ?? 1), data.teams)) {
+    s.matches.forEach((sm, i) => {
+      const { m } = sm;
+      const court = sm.court + 1;
+      const ref = s.refs[i];
+      if (m.teamAId === team.id || m.teamBId === team.id) {
+        const opponentId = m.teamAId === team.id ? m.teamBId : m.teamAId;
+        const opponent = byId.get(opponentId);
+        addEvent(
+          `${opts.division}-${m.id}`,
+          s.slot,
+          `${setsLabel(m)} vs ${nameOf(opponentId)} · Court ${court}`,
+          court,
+          [
+            `Round ${s.slot + 1}, pool ${m.pool}`,
+            `${team.name}: ${team.players.join(', ')}`,
+            opponent ? `${opponent.name}: ${opponent.players.join(', ')}` : null,
+            ref ? `Ref: ${ref.name}` : null,
+          ].filter(Boolean).join('\n'),
+        );
+      } else if (ref?.id === team.id) {
+        addEvent(
+          `${opts.division}-${m.id}-ref`,
+          s.slot,
+          `Ref ${nameOf(m.teamAId)} vs ${nameOf(m.teamBId)} · Court ${court}`,
+          court,
+          `Round ${s.slot + 1}, pool ${m.pool} · ${setsLabel(m)}`,
+        );
+      }
+    });
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sunny Sports Performance//Blind Draw//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${team.name} · ${opts.eventName}`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,89 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { MickeyMatchRow, MickeyTeam } from '../types.js';
+
+// Pool-play schedule shared by the matchups view, the player itinerary cards
+// and the team calendars, so all show the same round, court and time.
+
+// Default schedule baseline. Used to auto-compute each round's time slot.
+const DEFAULT_START_HOUR = 9;          // 9:00 AM
+export const DEFAULT_DURATION_MIN = 45;       // 45 min per round of simultaneous matches
+
+function formatTime(hour24: number, minute: number): string {
+  const ampm = hour24 >= 12 ? 'PM' : 'AM';
+  const h = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${h}:${minute.toString().padStart(2, '0')} ${ampm}`;
+}
+// Minutes after midnight that a slot starts.
+export function slotStartMinutes(slotIdx: number): number {
+  return DEFAULT_START_HOUR * 60 + slotIdx * DEFAULT_DURATION_MIN;
+}
+export function timeForSlot(slotIdx: number): string {
+  const minutes = slotStartMinutes(slotIdx);
+  return formatTime(Math.floor(minutes / 60), minutes % 60);
+}
+
+// Greedy schedule: pack matches into time slots, up to N matches per slot,
+// such that no team is in two simultaneous matches. Idle teams in a slot
+// are available to ref.
+export type ScheduledMatch = { m: MickeyMatchRow; slot: number; court: number };
+export function buildSchedule(matches: MickeyMatchRow[], courtCount: number): ScheduledMatch[] {
+  const cn = Math.max(1, Math.floor(courtCount) || 1);
+  const remaining = matches.map(m => ({ m, scheduled: false }));
+  const out: ScheduledMatch[] = [];
+  let slot = 0;
+  let safety = 0;
+  while (remaining.some(r => !r.scheduled) && safety < 5000) {
+    safety++;
+    const teamsInSlot = new Set<string>();
+    let court = 0;
+    for (const r of remaining) {
+      if (r.scheduled) continue;
+      if (court >= cn) break;
+      if (teamsInSlot.has(r.m.teamAId) || teamsInSlot.has(r.m.teamBId)) continue;
+      out.push({ m: r.m, slot, court });
+      teamsInSlot.add(r.m.teamAId);
+      teamsInSlot.add(r.m.teamBId);
+      r.scheduled = true;
+      court++;
+    }
+    slot++;
+  }
+  return out;
+}
+
+// Refs for one slot's matches (sorted by court), from the teams sitting it
+// out. Each match prefers an idle team from its own pool, then any idle team.
+export function pickSlotRefs(slotMatches: ScheduledMatch[], idleTeams: MickeyTeam[]): (MickeyTeam | null)[] {
+  const usedRefIds = new Set<string>();
+  return slotMatches.map(s => {
+    const ref =
+      idleTeams.find(t => t.pool === s.m.pool && !usedRefIds.has(t.id)) ??
+      idleTeams.find(t => !usedRefIds.has(t.id)) ??
+      null;
+    if (ref) usedRefIds.add(ref.id);
+    return ref;
+  });
+}
+
+export type ScheduleSlot = {
+  slot: number;
+  matches: ScheduledMatch[];
+  idle: MickeyTeam[];
+  refs: (MickeyTeam | null)[];
+};
+
+// The schedule grouped into time slots, each with its matches in court order,
+// the teams sitting it out and who refs each match.
+export function scheduleSlots(schedule: ScheduledMatch[], teams: MickeyTeam[]): ScheduleSlot[] {
+  const bySlot = new Map<number, ScheduledMatch[]>();
+  for (const s of schedule) {
+    if (!bySlot.has(s.slot)) bySlot.set(s.slot, []);
+    bySlot.get(s.slot)!.push(s);
+  }
+  return [...bySlot.entries()].sort((a, b) => a[0] - b[0]).map(([slot, list]) => {
+    const matches = list.slice().sort((a, b) => a.court - b.court);
+    const playingIds = new Set(matches.flatMap(s => [s.m.teamAId, s.m.teamBId]));
+    const idle = teams.filter(t => !playingIds.has(t.id));
+    return { slot, matches, idle, refs: pickSlotRefs(matches, idle) };
+  });
+}
@@ -1,6 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import { parseMickeyPairsGendered, parseMickeyFreeGendered } from '../utils';
-import type { MickeyBDRound } from './RoundManager';
+import type { MickeyBDRound } from '../types';
 
 type PlayerStats = {
   name: string;
@@ -1,22 +1,6 @@
 import React, { useMemo } from 'react';
-import type { ScoreSettings } from '../types';
-import { parseScore, slug, parseMickeyPairsGendered, parseMickeyFreeGendered } from '../utils';
-import type { MickeyBDRound } from './RoundManager';
-
-type UnitRow = {
-  key: string;
-  label: string;
-  kind: 'pair' | 'free';
-  W: number;
-  L: number;
-  PD: number;
-  sets: number;
-  mickeyW: number;
-  mickeyL: number;
-  minnieW: number;
-  minnieL: number;
-  rounds: number; // how many rounds this unit appeared in
-};
+import type { ScoreSettings, MickeyBDRound } from '../types';
+import { computeMickeyBDStandings } from '../standings';
 
 export function MickeyBDLeaderboard({
   rounds,
@@ -29,98 +13,10 @@ export function MickeyBDLeaderboard({
   freeAgentsText: string;
   scoreSettings?: ScoreSettings;
 }) {
-  const unitRows = useMemo<UnitRow[]>(() => {
-    // Each unit is a pair or single free agent. Members are identified by
-    // their (slug'd) names so we can match them to teams across rounds.
-    const pairUnits = parseMickeyPairsGendered(pairsText).map((u, i) => ({
-      kind: 'pair' as const,
-      key: `pair-${i}-${u.map(m => slug(m.name)).join('|')}`,
-      label: u.map(m => m.name).join(' & '),
-      slugs: u.map(m => slug(m.name)),
-    }));
-    const freeUnitsRaw = parseMickeyFreeGendered(freeAgentsText).map((m, i) => ({
-      kind: 'free' as const,
-      key: `free-${i}-${slug(m.name)}`,
-      label: m.name,
-      slugs: [slug(m.name)],
-    }));
-
-    type Acc = {
-      key: string; label: string; kind: 'pair' | 'free';
-      W: number; L: number; PD: number; sets: number;
-      mickeyW: number; mickeyL: number; minnieW: number; minnieL: number;
-      rounds: number;
-    };
-    const accs = new Map<string, Acc>();
-    for (const u of [...pairUnits, ...freeUnitsRaw]) {
-      accs.set(u.key, {
-        key: u.key, label: u.label, kind: u.kind,
-        W: 0, L: 0, PD: 0, sets: 0,
-        mickeyW: 0, mickeyL: 0, minnieW: 0, minnieL: 0,
-        rounds: 0,
-      });
-    }
-
-    const allUnits = [...pairUnits, ...freeUnitsRaw];
-
-    for (const round of rounds) {
-      // For this round, find which team each unit landed on.
-      const teamFor = (slugs: string[]) => {
-        const team = round.teams.find(t => {
-          const set = new Set(t.players.map(slug));
-          return slugs.every(s => set.has(s));
-        });
-        if (team) return team;
-        // Fallback: find any team containing the first member
-        return round.teams.find(t => t.players.some(p => slug(p) === slugs[0])) ?? null;
-      };
-
-      for (const u of allUnits) {
-        const team = teamFor(u.slugs);
-        if (!team) continue;
-        const acc = accs.get(u.key)!;
-        acc.rounds += 1;
-
-        // Find the match this team played in (each team plays one per round
-        // in BD format — could be zero if they sat out).
-        const match = round.matches.find(m => m.teamAId === team.id || m.teamBId === team.id);
-        if (!match) continue;
-        const isTeamA = match.teamAId === team.id;
-
-        for (const fmt of ['mickey', 'minnie'] as const) {
-          const scoreText = fmt === 'mickey' ? match.mickeyScore : match.minnieScore;
-          const p = parseScore(scoreText);
-          if (!p || p[0] === p[1]) continue;
-          const diff = Math.abs(p[0] - p[1]);
-          const teamAWon = p[0] > p[1];
-          const won = (isTeamA && teamAWon) || (!isTeamA && !teamAWon);
-          acc.sets += 1;
-          if (won) {
-            acc.W += 1; acc.PD += diff;
-            if (fmt === 'mickey') acc.mickeyW += 1; else acc.minnieW += 1;
-          } else {
-            acc.L += 1; acc.PD -= diff;
-            if (fmt === 'mickey') acc.mickeyL += 1; else acc.minnieL += 1;
-          }
-        }
-      }
-    }
-
-    const rows: UnitRow[] = Array.from(accs.values()).map(a => ({
-      key: a.key, label: a.label, kind: a.kind,
-      W: a.W, L: a.L, PD: a.PD, sets: a.sets,
-      mickeyW: a.mickeyW, mickeyL: a.mickeyL,
-      minnieW: a.minnieW, minnieL: a.minnieL,
-      rounds: a.rounds,
-    }));
-
-    rows.sort((a, b) => {
-      if (b.W !== a.W) return b.W - a.W;
-      if (b.PD !== a.PD) return b.PD - a.PD;
-      return a.label.localeCompare(b.label);
-    });
-    return rows;
-  }, [rounds, pairsText, freeAgentsText]);
+  const unitRows = useMemo(
+    () => computeMickeyBDStandings(rounds, pairsText, freeAgentsText),
+    [rounds, pairsText, freeAgentsText],
+  );
 
   if (unitRows.length === 0) return null;
 
@@ -1,7 +1,7 @@
 import React, { useMemo } from 'react';
-import type { MickeyTeam, MickeyMatchRow, ScoreSettings } from '../types';
+import type { DivisionKey, MickeyTeam, MickeyMatchRow, ScoreSettings, MickeyBDRound } from '../types';
 import { parseScore, isValidScore, mickeyTeamLabel } from '../utils';
-import type { MickeyBDRound } from './RoundManager';
+import { mickeySets, mickeySide, printScoresheets, sheetTitle } from '../scoresheets';
 
 const DEFAULT_START_HOUR = 9;
 const DEFAULT_DURATION_MIN = 45;
@@ -168,14 +168,20 @@ export function MickeyBDMatchesView({
   pairsText = '',
   courtCount = 1,
   isAdmin,
+  canScore = isAdmin,
   scoreSettings = { playTo: 21, cap: null },
+  division,
 }: {
   rounds: MickeyBDRound[];
   setRounds: (f: ((prev: MickeyBDRound[]) => MickeyBDRound[]) | MickeyBDRound[]) => void;
   pairsText?: string;
   courtCount?: number;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
   // Build name lookup across ALL rounds (a team belongs to exactly one round,
   // but ids are globally unique).
@@ -186,6 +192,7 @@ export function MickeyBDMatchesView({
     }
     return (id: string) => m.get(id) ?? '(deleted team)';
   }, [rounds, pairsText]);
+  const teamById = useMemo(() => new Map(rounds.flatMap(r => r.teams.map(t => [t.id, t] as const))), [rounds]);
 
   const update = (matchId: string, patch: Partial<MickeyMatchRow>) =>
     setRounds(prev => prev.map(r => ({
@@ -227,6 +234,20 @@ export function MickeyBDMatchesView({
             }
             if (subSlots.length === 0) subSlots.push([]);
 
+            const firstSlotIdx = globalSlotIdx;
+            const print = () => printScoresheets(
+              sheetTitle('MICKEYBD', division, `Round ${round.number}`),
+              subSlots.flatMap((slotMatches, sIdx) => slotMatches.map((m, idx) => ({
+                court: idx + 1,
+                detail: [subSlots.length > 1 ? `Slot ${sIdx + 1} of ${subSlots.length}` : null, `Match ${sIdx * cn + idx + 1}`, timeForSlot(firstSlotIdx + sIdx)]
+                  .filter(Boolean).join(' · '),
+                team1: mickeySide(teamById.get(m.teamAId)),
+                team2: mickeySide(teamById.get(m.teamBId)),
+                sets: mickeySets(m.format, scoreSettings),
+                sitOuts: sitting.map(t => mickeyTeamLabel(t, pairsText)),
+              }))),
+            );
+
             elements.push(
               <div key={round.id}>
                 <div className="flex items-baseline justify-between gap-2 flex-wrap mb-2">
@@ -235,6 +256,15 @@ export function MickeyBDMatchesView({
                     {subSlots.length === 1 && (
                       <span className="ml-2 text-[12px] font-normal text-slate-500">{timeForSlot(globalSlotIdx)}</span>
                     )}
+                    {round.matches.length > 0 && (
+                      <button
+                        className="ml-2 text-[11px] font-normal px-2 py-1 rounded border hover:bg-slate-100"
+                        onClick={print}
+                        title="Print a scoresheet for every court in this round"
+                      >
+                        Print
+                      </button>
+                    )}
                   </h3>
                   {sitting.length > 0 && (
                     <div className="text-[11px] text-slate-500">
@@ -266,7 +296,7 @@ export function MickeyBDMatchesView({
                                 teamAName={nameOf(m.teamAId)}
                                 teamBName={nameOf(m.teamBId)}
                                 scoreSettings={scoreSettings}
-                                isAdmin={isAdmin}
+                                isAdmin={canScore}
                                 update={update}
                               />
                             );
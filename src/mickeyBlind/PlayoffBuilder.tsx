@@ -1,13 +1,13 @@
 import React, { useMemo, useState } from 'react';
-import type { BracketMatch, Team, PlayDiv } from '../types';
+import type { BracketMatch, Team, PlayDiv, MickeyBDRound } from '../types';
 import {
   slug, uniq, parseScore, mickeyGamesWinner, mickeyTeamLabel,
   parseMickeyPairsGendered, parseMickeyFreeGendered,
   shuffle, pickFunTeamNames,
 } from '../utils';
+import { byTeamRating, type RatingTable } from '../ratings';
 import { drawTeams, toUnit, type Unit } from '../mickey/TeamBuilder';
 import { buildBracket } from '../components/BracketView';
-import type { MickeyBDRound } from './RoundManager';
 
 // One unit (a pair or a free agent) with their aggregate W/PD across all
 // BD rounds they appeared in.
@@ -82,7 +82,7 @@ type PreparedTeam = { id: string; name: string; players: string[] };
 
 // Form playoff teams via the standard pair-preserving FA-block draw.
 // Pairs always stay together, gender and skill balance across teams.
-function formPlayoffTeams(units: UnitWithRecord[]): PreparedTeam[] {
+function formPlayoffTeams(units: UnitWithRecord[], ratings: RatingTable | null = null): PreparedTeam[] {
   const toGenderedNames = (u: UnitWithRecord) =>
     u.members.map((name, i) => {
       const gender: 'M' | 'F' | null =
@@ -107,7 +107,7 @@ function formPlayoffTeams(units: UnitWithRecord[]): PreparedTeam[] {
     }
     return { t, W, PD };
   });
-  teamRecords.sort((a, b) => b.W - a.W || b.PD - a.PD);
+  teamRecords.sort((a, b) => b.W - a.W || b.PD - a.PD || byTeamRating(ratings, a.t.players, b.t.players));
   return teamRecords.map(({ t }) => ({ id: t.id, name: t.name, players: t.players }));
 }
 
@@ -117,10 +117,10 @@ function formPlayoffTeams(units: UnitWithRecord[]): PreparedTeam[] {
 // mixed size (2-4 players) depending on whether each combined unit is
 // a pair or a free agent. Pairs always stay together.
 // Returns [] if there are not exactly 12 units.
-function formCrossoverTeams(units: UnitWithRecord[]): PreparedTeam[] {
+function formCrossoverTeams(units: UnitWithRecord[], ratings: RatingTable | null = null): PreparedTeam[] {
   if (units.length !== 12) return [];
   const ranked = [...units].sort(
-    (a, b) => b.W - a.W || b.PD - a.PD || a.name.localeCompare(b.name),
+    (a, b) => b.W - a.W || b.PD - a.PD || byTeamRating(ratings, a.members, b.members) || a.name.localeCompare(b.name),
   );
   const top = ranked.slice(0, 3);         // seeds 1-3
   const upperMid = ranked.slice(3, 6);    // seeds 4-6
@@ -158,6 +158,7 @@ export function MickeyBDPlayoffBuilder({
   brackets,
   setBrackets,
   division,
+  ratings,
 }: {
   rounds: MickeyBDRound[];
   pairsText: string;
@@ -165,8 +166,12 @@ export function MickeyBDPlayoffBuilder({
   brackets: BracketMatch[];
   setBrackets: (f: ((prev: BracketMatch[]) => BracketMatch[]) | BracketMatch[]) => void;
   division: 'UPPER' | 'LOWER';
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
 }) {
   const [editTeams, setEditTeams] = useState<PreparedTeam[]>([]);
+  const [rateTies, setRateTies] = useState(false);
+  const tieRatings = rateTies ? ratings ?? null : null;
   const [confirmBuild, setConfirmBuild] = useState(false);
 
   const allPlayerNames = useMemo(
@@ -183,7 +188,7 @@ export function MickeyBDPlayoffBuilder({
   );
   const totalPlayers = units.reduce((n, u) => n + u.size, 0);
 
-  const computeSeeded = (): PreparedTeam[] => formPlayoffTeams(units);
+  const computeSeeded = (): PreparedTeam[] => formPlayoffTeams(units, tieRatings);
 
   const toTeamObjs = (list: PreparedTeam[]): Team[] =>
     list
@@ -214,7 +219,7 @@ export function MickeyBDPlayoffBuilder({
   };
 
   const prepareCrossoverTeams = () => {
-    const xover = formCrossoverTeams(units);
+    const xover = formCrossoverTeams(units, tieRatings);
     if (xover.length === 0) {
       alert(`Crossover pairing needs exactly 12 units (pairs + free agents). You currently have ${units.length}.`);
       return;
@@ -314,6 +319,12 @@ export function MickeyBDPlayoffBuilder({
           {totalPlayers} player{totalPlayers === 1 ? '' : 's'} · {units.length} unit{units.length === 1 ? '' : 's'}
           {' · '}{rounds.length} round{rounds.length === 1 ? '' : 's'} played
         </div>
+        {ratings && (
+          <label className="flex items-center gap-1.5 text-[12px]">
+            <input type="checkbox" checked={rateTies} onChange={e => setRateTies(e.target.checked)} />
+            Break seeding ties by rating
+          </label>
+        )}
       </section>
 
       {/* Main Bracket */}
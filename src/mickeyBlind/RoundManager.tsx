@@ -1,21 +1,17 @@
 import React, { useMemo, useState } from 'react';
-import type { MickeyTeam, MickeyMatchRow } from '../types';
+import type { MickeyTeam, MickeyMatchRow, MickeyBDRound } from '../types';
 import {
   parseMickeyPairsGendered, parseMickeyFreeGendered, mickeyMemberList,
   shuffle, slug, uniq,
 } from '../utils';
 import { drawTeams, toUnit, type Unit } from '../mickey/TeamBuilder';
+import { MIN_RATED_GAMES, ratingSkill, withRatedSkill, type RatingTable } from '../ratings';
+import { isAvailable, type Availability } from '../players';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
 
 const rid = () => Math.random().toString(36).slice(2, 10);
 const SMART_CANDIDATES = 30;
 
-export type MickeyBDRound = {
-  id: string;
-  number: number;
-  teams: MickeyTeam[];
-  matches: MickeyMatchRow[];
-};
-
 // ── History tracking across previous rounds ──────────────────────────────────
 // Used to penalize repeat teammates, repeat opponents, and repeat courts.
 
@@ -167,6 +163,8 @@ export function MickeyBDRoundManager({
   setRounds,
   courtCount,
   setCourtCount,
+  ratings,
+  availability,
 }: {
   pairsText: string;
   freeAgentsText: string;
@@ -174,11 +172,18 @@ export function MickeyBDRoundManager({
   setRounds: (f: ((prev: MickeyBDRound[]) => MickeyBDRound[]) | MickeyBDRound[]) => void;
   courtCount: number;
   setCourtCount: (n: number) => void;
+  // Player ratings from past results; when given, draws can balance on them
+  // instead of the roster skill markers.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
 }) {
   const [targetPoolSize, setTargetPoolSize] = useState(5);
   const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
   const [confirmRedrawId, setConfirmRedrawId] = useState<string | null>(null);
   const [useSmart, setUseSmart] = useState(true);
+  const [useRatings, setUseRatings] = useState(false);
+  const skillTable = useRatings ? ratings : null;
   const [batchCount, setBatchCount] = useState(5);
 
   // Editing state: which round is being edited + a buffer of changes.
@@ -186,14 +191,15 @@ export function MickeyBDRoundManager({
   const [editBuffer, setEditBuffer] = useState<EditState | null>(null);
 
   const pairUnits = useMemo<Unit[]>(
-    () => parseMickeyPairsGendered(pairsText).map(u => toUnit(u)),
-    [pairsText],
+    () => parseMickeyPairsGendered(pairsText).map(u => toUnit(u.map(m => withRatedSkill(skillTable, m)))),
+    [pairsText, skillTable],
   );
   const freeUnits = useMemo<Unit[]>(
-    () => parseMickeyFreeGendered(freeAgentsText).map(m => toUnit([m])),
-    [freeAgentsText],
+    () => parseMickeyFreeGendered(freeAgentsText).map(m => toUnit([withRatedSkill(skillTable, m)])),
+    [freeAgentsText, skillTable],
   );
   const totalPlayers = pairUnits.reduce((n, u) => n + u.size, 0) + freeUnits.length;
+  const ratedCount = [...pairUnits, ...freeUnits].flatMap(u => u.members).filter(m => ratingSkill(ratings, m.name) !== null).length;
 
   // Full roster (clean names) for editing dropdowns.
   const allPlayerNames = useMemo(
@@ -204,9 +210,19 @@ export function MickeyBDRoundManager({
     [pairsText, freeAgentsText],
   );
 
+  // Units for round `n`: players outside their arrival / departure window sit
+  // it out, and a pair missing one partner draws the other as a free agent.
+  const unitsForRound = (n: number): [Unit[], Unit[]] => {
+    const here = (u: Unit) => u.members.every(m => isAvailable(availability, m.name, n));
+    const split = pairUnits
+      .filter(u => !here(u))
+      .flatMap(u => u.members.filter(m => isAvailable(availability, m.name, n)).map(m => toUnit([m])));
+    return [pairUnits.filter(here), [...freeUnits.filter(here), ...split]];
+  };
+
   const generateRound = () => {
     const history = buildHistory(rounds);
-    const result = pickBestCandidate(pairUnits, freeUnits, targetPoolSize, rounds.length + 1, history, useSmart);
+    const result = pickBestCandidate(...unitsForRound(rounds.length + 1), targetPoolSize, rounds.length + 1, history, useSmart);
     if (!result) {
       alert('Need at least 2 teams to make a round. Add more pairs or free agents.');
       return;
@@ -230,7 +246,7 @@ export function MickeyBDRoundManager({
       const working = [...prev];
       for (let i = 0; i < count; i++) {
         const history = buildHistory(working);
-        const result = pickBestCandidate(pairUnits, freeUnits, targetPoolSize, working.length + 1, history, useSmart);
+        const result = pickBestCandidate(...unitsForRound(working.length + 1), targetPoolSize, working.length + 1, history, useSmart);
         if (!result) break;
         working.push({
           id: rid(),
@@ -249,7 +265,7 @@ export function MickeyBDRoundManager({
       // History from rounds OTHER than the one being re-rolled
       const otherRounds = prev.filter(p => p.id !== roundId);
       const history = buildHistory(otherRounds);
-      const result = pickBestCandidate(pairUnits, freeUnits, targetPoolSize, r.number, history, useSmart);
+      const result = pickBestCandidate(...unitsForRound(r.number), targetPoolSize, r.number, history, useSmart);
       if (!result) return r;
       return { ...r, teams: result.teams, matches: result.matches };
     }));
@@ -366,6 +382,24 @@ export function MickeyBDRoundManager({
         </span>
       </div>
 
+      {ratings && (
+        <div className="flex items-center gap-2 flex-wrap text-[12px]">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={useRatings} onChange={e => setUseRatings(e.target.checked)} />
+            Balance skill by ratings
+          </label>
+          <span className="text-[11px] text-slate-400">
+            {ratedCount}/{totalPlayers} players rated from past results; anyone with fewer than {MIN_RATED_GAMES} rated games keeps their roster marker.
+          </span>
+        </div>
+      )}
+
+      <AvailabilityPanel
+        players={allPlayerNames}
+        availability={availability}
+        nextRound={rounds.length + 1}
+      />
+
       <div className="flex items-center gap-2 flex-wrap">
         <button
           className="px-3 py-1.5 rounded bg-emerald-600 text-white hover:bg-emerald-700 text-[13px] disabled:opacity-40"
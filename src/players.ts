@@ -0,0 +1,558 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type {
+  BracketMatch, DivisionKey, FormatKey, KobGameRow, MatchRow, MickeyBDRound, MickeyTeam, PlayerRecord,
+  QuadsMatchRow, Team, TournamentState, TriplesMatchRow,
+} from './types.js';
+import { parseGenderedName, slug, stripGenderMarker, type Gender } from './utils.js';
+import { FORMAT_STATE_KEYS, formatDivision, SCORE_FORMATS, type FormatDivisionState } from './scorePatch.js';
+import { FORMAT_LABELS } from './stateDiff.js';
+
+// ── Player registry ──────────────────────────────────────────────────────────
+// Every format names players by the text typed into its roster boxes and
+// copies those names into its match rows and brackets. The registry ties the
+// copies together: one record per person, matched by name (ignoring case,
+// spacing and (M3)-style markers), with a stable id and the details that
+// belong to the person rather than to one roster. Saved events refer to
+// players by that id (see "Stored references" below); in the app they show
+// as the record's name. New roster names are registered as they're typed,
+// editing a roster line in place renames the player it names (see
+// rosterRename), and renaming a record rewrites the name everywhere it's
+// used in one state update, so rounds, brackets and leaderboards keep
+// following the same person.
+
+export const playerKey = (name: string) => slug(stripGenderMarker(name));
+
+const FORMATS: FormatKey[] = SCORE_FORMATS;
+const DIVISIONS: DivisionKey[] = ['UPPER', 'LOWER'];
+
+export type RosterField = 'guysText' | 'girlsText' | 'pairsText' | 'freeAgentsText';
+
+// One roster box's text; empty when the division has no such box.
+export function rosterText(div: FormatDivisionState | undefined, field: RosterField): string {
+  const boxes: Partial<Record<RosterField, string>> = div ?? {};
+  return boxes[field] ?? '';
+}
+
+// Roster boxes per format, and the gender a name in each implies when it
+// carries no marker of its own.
+const ROSTER_FIELDS: Record<FormatKey, [field: RosterField, gender: Gender | null][]> = {
+  DOUBLES: [['guysText', 'M'], ['girlsText', 'F']],
+  QUADS: [['guysText', 'M'], ['girlsText', 'F']],
+  TRIPLES: [['guysText', 'M'], ['girlsText', 'F']],
+  KOB: [['guysText', 'M'], ['girlsText', 'F']],
+  MICKEY: [['pairsText', null], ['freeAgentsText', null]],
+  MICKEYBD: [['pairsText', null], ['freeAgentsText', null]],
+};
+
+// Pair lines list both partners on one line ("Amanda(F4) & Chance(M3)"), with
+// the same separators as parseMickeyPairsGendered. Splitting on a capture
+// group keeps the separators at the odd indexes so a line can be rebuilt.
+const PAIR_SEPARATOR = /(\band\b|[&/+,])/i;
+
+// The names on one roster line: the whole line, or each partner on a pair line.
+export function lineTokens(field: string, line: string): string[] {
+  return field === 'pairsText' ? line.split(PAIR_SEPARATOR).filter((_, i) => i % 2 === 0) : [line];
+}
+
+function mapLineTokens(field: string, text: string, fn: (token: string) => string): string {
+  return (text || '').split('\n').map(line =>
+    field === 'pairsText'
+      ? line.split(PAIR_SEPARATOR).map((t, i) => (i % 2 ? t : fn(t))).join('')
+      : fn(line),
+  ).join('\n');
+}
+
+export type RosterEntry = {
+  format: FormatKey;
+  division: DivisionKey;
+  name: string;
+  gender: Gender | null;
+  // Only when the roster spells it out, e.g. the 4 in "Sam(F4)".
+  skill: number | null;
+};
+
+export function rosterEntries(state: TournamentState): RosterEntry[] {
+  const out: RosterEntry[] = [];
+  for (const format of FORMATS) {
+    for (const division of DIVISIONS) {
+      const div = formatDivision(state, format, division);
+      for (const [field, boxGender] of ROSTER_FIELDS[format]) {
+        for (const line of rosterText(div, field).split(/\r?\n/)) {
+          for (const token of lineTokens(field, line)) {
+            const parsed = parseGenderedName(token);
+            if (!parsed.name) continue;
+            const skill = parsed.gender && /[1-5]\s*\)\s*$/.test(token) ? parsed.skill : null;
+            out.push({ format, division, name: parsed.name, gender: parsed.gender ?? boxGender, skill });
+          }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+type ScheduledRow = { label: string; names: string[] };
+
+const teamRows = (teams: MickeyTeam[] = [], prefix = '') =>
+  teams.map(t => ({ label: `${prefix}${t.name}`, names: t.players }));
+
+// A division's generated rounds, teams and brackets, each with the names it uses.
+function scheduledRows(format: FormatKey, div: any): ScheduledRow[] {
+  if (!div) return [];
+  const rows: ScheduledRow[] = (div.brackets ?? []).map((b: BracketMatch) => ({
+    label: `Playoffs R${b.round} G${b.slot}`,
+    names: [...(b.team1?.members ?? []), ...(b.team2?.members ?? [])],
+  }));
+  const round = (m: { round: number; court: number }) => `Round ${m.round} · Court ${m.court}`;
+  switch (format) {
+    case 'DOUBLES':
+      for (const m of (div.matches ?? []) as MatchRow[]) {
+        rows.push({ label: round(m), names: [m.t1p1, m.t1p2, m.t2p1, m.t2p2, ...(m.sitOuts ?? [])] });
+      }
+      break;
+    case 'QUADS':
+    case 'TRIPLES':
+      for (const m of (div.matches ?? []) as (QuadsMatchRow | TriplesMatchRow)[]) {
+        rows.push({ label: round(m), names: [...m.t1, ...m.t2, ...(m.sitOuts ?? [])] });
+      }
+      break;
+    case 'KOB':
+      for (const g of (div.matches ?? []) as KobGameRow[]) {
+        const label = `${g.finalsLabel ? `${g.finalsLabel} Finals` : `Pool ${g.pool}`} · Game ${g.game}`;
+        rows.push({ label, names: [...g.t1, ...g.t2, ...([] as string[]).concat(g.sitOut ?? [])] });
+      }
+      break;
+    case 'MICKEY':
+      rows.push(...teamRows(div.teams));
+      break;
+    case 'MICKEYBD':
+      for (const r of (div.rounds ?? []) as MickeyBDRound[]) rows.push(...teamRows(r.teams, `Round ${r.number} · `));
+      break;
+  }
+  return rows;
+}
+
+const scheduledNames = (format: FormatKey, div: any) =>
+  scheduledRows(format, div).flatMap(r => r.names).filter(Boolean);
+
+export type PlayerUsage = { format: FormatKey; division: DivisionKey; onRoster: boolean; scheduled: boolean };
+
+// Where each player (by key) appears: on which rosters, and in which
+// divisions' rounds or brackets.
+export function playerUsage(state: TournamentState): Map<string, PlayerUsage[]> {
+  const usage = new Map<string, PlayerUsage[]>();
+  const mark = (name: string, format: FormatKey, division: DivisionKey, what: 'onRoster' | 'scheduled') => {
+    const key = playerKey(name);
+    if (!key) return;
+    if (!usage.has(key)) usage.set(key, []);
+    const list = usage.get(key)!;
+    let u = list.find(x => x.format === format && x.division === division);
+    if (!u) list.push(u = { format, division, onRoster: false, scheduled: false });
+    u[what] = true;
+  };
+  for (const e of rosterEntries(state)) mark(e.name, e.format, e.division, 'onRoster');
+  for (const format of FORMATS) {
+    for (const division of DIVISIONS) {
+      for (const n of scheduledNames(format, formatDivision(state, format, division))) {
+        mark(n, format, division, 'scheduled');
+      }
+    }
+  }
+  return usage;
+}
+
+// Ids come from the name a player was first registered under, so two admins
+// adding the same person at once end up with the same record.
+function newPlayerId(name: string, taken: Set<string>): string {
+  const base = `p-${playerKey(name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'player'}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * The registry brought up to date with the rosters: a record for every new
+ * name, genders and skills filled in from the roster boxes and markers where
+ * the record has none, and records dropped once their name is gone from
+ * every roster, round and bracket (unless they have contact details worth
+ * keeping). Returns `state.players` itself when nothing changed.
+ */
+export function syncPlayerRegistry(state: TournamentState): PlayerRecord[] {
+  const players = state.players ?? [];
+  const found = new Map<string, RosterEntry>();
+  for (const e of rosterEntries(state)) {
+    const key = playerKey(e.name);
+    const seen = found.get(key);
+    if (!seen) found.set(key, { ...e });
+    else {
+      seen.gender ??= e.gender;
+      seen.skill ??= e.skill;
+    }
+  }
+  const scheduled = new Set(
+    FORMATS.flatMap(format => DIVISIONS.flatMap(division =>
+      scheduledNames(format, formatDivision(state, format, division)).map(playerKey))),
+  );
+
+  let changed = false;
+  const next: PlayerRecord[] = [];
+  const registered = new Set<string>();
+  for (const p of players) {
+    const key = playerKey(p.name);
+    const e = found.get(key);
+    if (!e && !scheduled.has(key) && !p.contact) { changed = true; continue; }
+    registered.add(key);
+    const gender = p.gender ?? e?.gender ?? undefined;
+    const skill = p.skill ?? e?.skill ?? undefined;
+    if (gender !== p.gender || skill !== p.skill) {
+      changed = true;
+      next.push({ ...p, ...(gender ? { gender } : {}), ...(skill ? { skill } : {}) });
+    } else {
+      next.push(p);
+    }
+  }
+  const ids = new Set(players.map(p => p.id));
+  for (const [key, e] of found) {
+    if (registered.has(key)) continue;
+    changed = true;
+    next.push({
+      id: newPlayerId(e.name, ids),
+      name: e.name,
+      ...(e.gender ? { gender: e.gender } : {}),
+      ...(e.skill ? { skill: e.skill } : {}),
+    });
+  }
+  return changed ? next : players;
+}
+
+// ── Names in a division ──────────────────────────────────────────────────────
+
+function mapTeam(t: Team | undefined, fn: (name: string) => string): Team | undefined {
+  if (!t) return t;
+  const members = t.members.map(fn);
+  // Doubles and Quads teams are named after their members.
+  const sep = [' & ', ' / '].find(s => t.name === t.members.join(s));
+  return { ...t, members, name: sep ? members.join(sep) : t.name };
+}
+
+// `div` with every player name it holds run through `fn`: roster lines (the
+// name only, so spacing and markers stay as typed), match rows, sit-outs,
+// teams and brackets. Empty names aren't passed on.
+function mapDivisionNames(format: FormatKey, div: any, fn: (name: string) => string): any {
+  // A partial or older state may lack the division altogether.
+  if (!div) return div;
+  const rn = (name: string) => (name ? fn(name) : name);
+  const next: any = { ...div };
+  for (const [field] of ROSTER_FIELDS[format]) {
+    next[field] = mapLineTokens(field, div[field], token => {
+      const name = stripGenderMarker(token);
+      return name ? token.replace(name, () => fn(name)) : token;
+    });
+  }
+  next.brackets = (div.brackets ?? []).map((b: BracketMatch) => ({ ...b, team1: mapTeam(b.team1, rn), team2: mapTeam(b.team2, rn) }));
+  const sitOuts = (m: { sitOuts?: string[] }) => (m.sitOuts ? { sitOuts: m.sitOuts.map(rn) } : {});
+  switch (format) {
+    case 'DOUBLES':
+      next.matches = ((div.matches ?? []) as MatchRow[]).map(m => ({
+        ...m, t1p1: rn(m.t1p1), t1p2: rn(m.t1p2), t2p1: rn(m.t2p1), t2p2: rn(m.t2p2), ...sitOuts(m),
+      }));
+      break;
+    case 'QUADS':
+    case 'TRIPLES':
+      next.matches = ((div.matches ?? []) as (QuadsMatchRow | TriplesMatchRow)[]).map(m => ({
+        ...m, t1: m.t1.map(rn), t2: m.t2.map(rn), ...sitOuts(m),
+      }));
+      break;
+    case 'KOB':
+      next.matches = ((div.matches ?? []) as KobGameRow[]).map(g => ({
+        ...g,
+        t1: g.t1.map(rn) as [string, string],
+        t2: g.t2.map(rn) as [string, string],
+        ...(g.sitOut === undefined ? {} : { sitOut: Array.isArray(g.sitOut) ? g.sitOut.map(rn) : rn(g.sitOut) }),
+      }));
+      break;
+    case 'MICKEY':
+      next.teams = ((div.teams ?? []) as MickeyTeam[]).map(t => ({ ...t, players: t.players.map(rn) }));
+      break;
+    case 'MICKEYBD':
+      next.rounds = ((div.rounds ?? []) as MickeyBDRound[]).map(r => ({
+        ...r, teams: r.teams.map(t => ({ ...t, players: t.players.map(rn) })),
+      }));
+      break;
+  }
+  return next;
+}
+
+// `state` with mapDivisionNames applied to every format and division.
+function mapStateNames<T extends TournamentState>(state: T, fn: (name: string) => string): T {
+  const next: any = { ...state };
+  for (const format of FORMATS) {
+    const key = FORMAT_STATE_KEYS[format];
+    if (!state[key]) continue;
+    next[key] = {
+      UPPER: mapDivisionNames(format, state[key].UPPER, fn),
+      LOWER: mapDivisionNames(format, state[key].LOWER, fn),
+    };
+  }
+  return next;
+}
+
+// ── Stored references ────────────────────────────────────────────────────────
+// What the server stores refers to players by registry id, written `@<id>`
+// wherever the name would go (`@p-sam-lee(F4)` on a roster line), and the
+// server swaps the names back in whenever it hands a state out (see
+// api/_lib/stateStore.ts). So a saved round or bracket points at the person,
+// not at how their name was spelled at the time, and the app, backups and
+// the public API keep working with names. A name without a record (not yet
+// registered, or never on a roster) is stored as written, and a reference
+// to a record that's gone is left as it is.
+
+const REF_PREFIX = '@';
+
+/**
+ * `state` as stored: every name that has a registry record replaced by a
+ * reference to it. Tolerates partial or unvalidated data.
+ */
+export function referencePlayers<T>(state: T): T {
+  const players: unknown = (state as any)?.players;
+  if (!Array.isArray(players) || !players.length) return state;
+  const ids = new Map<string, string>();
+  for (const p of players as PlayerRecord[]) {
+    if (typeof p?.name === 'string' && typeof p.id === 'string') ids.set(playerKey(p.name), p.id);
+  }
+  return mapStateNames(state as any, name => {
+    const id = name.startsWith(REF_PREFIX) ? undefined : ids.get(playerKey(name));
+    return id ? `${REF_PREFIX}${id}` : name;
+  }) as T;
+}
+
+/** The other way: each reference replaced by its record's current name. */
+export function resolvePlayers<T>(state: T): T {
+  const players: unknown = (state as any)?.players;
+  if (!Array.isArray(players) || !players.length) return state;
+  const names = new Map<string, string>();
+  for (const p of players as PlayerRecord[]) {
+    if (typeof p?.name === 'string' && typeof p.id === 'string') names.set(`${REF_PREFIX}${p.id}`, p.name);
+  }
+  return mapStateNames(state as any, name => names.get(name) ?? name) as T;
+}
+
+// ── Renaming ─────────────────────────────────────────────────────────────────
+
+function renameInDivision(format: FormatKey, div: any, fromKey: string, to: string): any {
+  if (!div) return div;
+  const toKey = playerKey(to);
+  const next = mapDivisionNames(format, div, name => (playerKey(name) === fromKey ? to : name));
+  // Merging two spellings leaves one-name-per-line boxes listing the
+  // player twice; keep the first line.
+  for (const [field] of ROSTER_FIELDS[format]) {
+    if (field === 'pairsText') continue;
+    let seen = false;
+    next[field] = String(next[field] ?? '').split('\n').filter(line => {
+      if (playerKey(line) !== toKey) return true;
+      if (seen) return false;
+      return (seen = true);
+    }).join('\n');
+  }
+  return next;
+}
+
+/**
+ * `state` with the player called `from` renamed to `to` in one go: every
+ * roster box, round, sit-out list, team and bracket, and the registry record.
+ * When `to` is already someone's name the two are merged: one registry
+ * record (keeping the target's details, filling gaps from the other) and one
+ * line per roster box.
+ */
+export function renamePlayer(state: TournamentState, from: string, to: string): TournamentState {
+  const fromKey = playerKey(from);
+  const toKey = playerKey(to);
+  const next: any = { ...state };
+  for (const format of FORMATS) {
+    const key = FORMAT_STATE_KEYS[format];
+    if (!state[key]) continue;
+    next[key] = {
+      UPPER: renameInDivision(format, state[key].UPPER, fromKey, to),
+      LOWER: renameInDivision(format, state[key].LOWER, fromKey, to),
+    };
+  }
+  const source = state.players.find(p => playerKey(p.name) === fromKey);
+  const target = toKey !== fromKey ? state.players.find(p => playerKey(p.name) === toKey) : undefined;
+  next.players = source && target
+    ? state.players.filter(p => p !== source).map(p => (p === target ? { ...source, ...target, name: to } : p))
+    : state.players.map(p => (playerKey(p.name) === fromKey ? { ...p, name: to } : p));
+  return next;
+}
+
+/**
+ * Places where a merge of `from` into `to` would put one person in two spots
+ * at once: a match, team or bracket game that already has both names, or a
+ * division whose rosters list both. Empty for a plain rename.
+ */
+export function mergeClashes(state: TournamentState, from: string, to: string): string[] {
+  const fromKey = playerKey(from);
+  const toKey = playerKey(to);
+  if (fromKey === toKey) return [];
+  const both = (names: string[]) => {
+    const keys = new Set(names.map(playerKey));
+    return keys.has(fromKey) && keys.has(toKey);
+  };
+  const clashes: string[] = [];
+  const entries = rosterEntries(state);
+  for (const format of FORMATS) {
+    for (const division of DIVISIONS) {
+      const where = `${FORMAT_LABELS[format]} ${division}`;
+      if (both(entries.filter(e => e.format === format && e.division === division).map(e => e.name))) {
+        clashes.push(`${where} · roster lists both`);
+      }
+      for (const row of scheduledRows(format, formatDivision(state, format, division))) {
+        if (both(row.names)) clashes.push(`${where} · ${row.label}`);
+      }
+    }
+  }
+  return clashes;
+}
+
+// How much two spellings share at the start and end, as a share of the
+// longer one: high for a corrected typo, low for a different name.
+function spellingOverlap(a: string, b: string): number {
+  const x = a.toLowerCase(), y = b.toLowerCase();
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let end = 0;
+  while (end < x.length - start && end < y.length - start && x[x.length - 1 - end] === y[y.length - 1 - end]) end++;
+  return (start + end) / Math.max(x.length, y.length);
+}
+
+export type RosterRename = {
+  from: string;
+  to: string;
+  // Whether `from` is still used outside the edited line (rounds, brackets,
+  // other rosters), i.e. whether renaming changes anything beyond the box.
+  inUse: boolean;
+};
+
+/**
+ * The rename an edit to a roster box amounts to, if any. Each line stands
+ * for a player, so correcting one in place (the same lines and partners,
+ * one name respelled into one nobody else in the event uses, most of the
+ * letters kept) renames that player rather than registering a new one.
+ * Typing over a line with a different name, or adding and removing lines,
+ * is left as a roster change. `before` and `after` are the box's text when
+ * it was focused and when it was left; `state` already holds `after`.
+ */
+export function rosterRename(state: TournamentState, field: RosterField, before: string, after: string): RosterRename | null {
+  const was = (before || '').split(/\r?\n/), now = (after || '').split(/\r?\n/);
+  if (was.length !== now.length) return null;
+  let change: { from: string; to: string } | null = null;
+  for (let i = 0; i < was.length; i++) {
+    if (was[i] === now[i]) continue;
+    const a = lineTokens(field, was[i]), b = lineTokens(field, now[i]);
+    if (a.length !== b.length) return null;
+    for (let j = 0; j < a.length; j++) {
+      if (playerKey(a[j]) === playerKey(b[j])) continue;
+      if (change) return null;
+      change = { from: stripGenderMarker(a[j]), to: stripGenderMarker(b[j]) };
+    }
+  }
+  if (!change?.from || !change.to || spellingOverlap(change.from, change.to) < 0.5) return null;
+  const usage = playerUsage(state);
+  const toUses = usage.get(playerKey(change.to)) ?? [];
+  if (toUses.length > 1 || toUses.some(u => u.scheduled)) return null;
+  return { ...change, inUse: (usage.get(playerKey(change.from)) ?? []).length > 0 };
+}
+
+/**
+ * Every player name in the event, one spelling per person: registry names
+ * first, then names only found on rosters or in rounds and brackets (such
+ * as a typo that was fixed on the roster after rounds were drawn).
+ */
+export function knownPlayerNames(state: TournamentState): string[] {
+  const byKey = new Map<string, string>();
+  const add = (name: string) => {
+    const key = playerKey(name);
+    if (key && !byKey.has(key)) byKey.set(key, stripGenderMarker(name));
+  };
+  state.players.forEach(p => add(p.name));
+  rosterEntries(state).forEach(e => add(e.name));
+  for (const format of FORMATS) {
+    for (const division of DIVISIONS) scheduledNames(format, formatDivision(state, format, division)).forEach(add);
+  }
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * `state` with the (M3)-style markers on Mickey & Minnie roster lines
+ * rewritten for a player whose gender or skill changed in the registry.
+ * Names written without a marker are left alone.
+ */
+export function setPlayerMarkers(state: TournamentState, name: string, gender: Gender | undefined, skill: number | undefined): TournamentState {
+  if (!gender) return state;
+  const key = playerKey(name);
+  const remark = (token: string) => {
+    if (playerKey(token) !== key || !parseGenderedName(token).gender) return token;
+    const [lead, trail] = [token.match(/^\s*/)![0], token.match(/\s*$/)![0]];
+    return `${lead}${stripGenderMarker(token)}(${gender}${skill ?? ''})${trail}`;
+  };
+  const next: any = { ...state };
+  for (const format of ['MICKEY', 'MICKEYBD'] as const) {
+    const stateKey = FORMAT_STATE_KEYS[format];
+    const byDiv: any = { ...next[stateKey] };
+    for (const division of DIVISIONS) {
+      const div = { ...byDiv[division] };
+      for (const [field] of ROSTER_FIELDS[format]) div[field] = mapLineTokens(field, div[field], remark);
+      byDiv[division] = div;
+    }
+    next[stateKey] = byDiv;
+  }
+  return next;
+}
+
+// ── Availability ─────────────────────────────────────────────────────────────
+// Someone arriving at 10:30 or leaving after round 4 gets an arrival and/or
+// departure round on their record. Each format counts its own rounds, and
+// the round generators leave a player out of any round outside their window
+// without counting it as a sit-out.
+
+export type AvailabilityWindow = Pick<PlayerRecord, 'arrivesRound' | 'leavesAfterRound'>;
+
+// Keyed by playerKey(name); players without a window aren't listed.
+export type Availability = Map<string, AvailabilityWindow>;
+
+export function availabilityOf(players: PlayerRecord[]): Availability {
+  const out: Availability = new Map();
+  for (const p of players) {
+    if (p.arrivesRound || p.leavesAfterRound) {
+      out.set(playerKey(p.name), { arrivesRound: p.arrivesRound, leavesAfterRound: p.leavesAfterRound });
+    }
+  }
+  return out;
+}
+
+export function isAvailable(availability: Availability | undefined, name: string, round: number): boolean {
+  const w = availability?.get(playerKey(name));
+  if (!w) return true;
+  return (!w.arrivesRound || round >= w.arrivesRound) && (!w.leavesAfterRound || round <= w.leavesAfterRound);
+}
+
+// How many of `rounds` the player wasn't there for.
+export const roundsAway = (availability: Availability | undefined, name: string, rounds: number[]) =>
+  rounds.filter(r => !isAvailable(availability, name, r)).length;
+
+// ── Contact details ──────────────────────────────────────────────────────────
+// Phone numbers and emails are for the organizers: /api/state leaves them out
+// of every copy it sends to anyone but an admin.
+
+export function withoutContacts<T extends { players?: PlayerRecord[] }>(state: T): T {
+  if (!Array.isArray(state.players) || !state.players.some(p => p?.contact)) return state;
+  return { ...state, players: state.players.map(({ contact: _contact, ...p }) => p) };
+}
+
+// Fill in the contacts an admin copy of the registry has (by player id) on
+// records that lack one, leaving everything else as it is.
+export function withContacts(players: PlayerRecord[], from: PlayerRecord[]): PlayerRecord[] {
+  const contacts = new Map(from.filter(p => p.contact).map(p => [p.id, p.contact] as const));
+  if (!players.some(p => !p.contact && contacts.has(p.id))) return players;
+  return players.map(p => (!p.contact && contacts.has(p.id) ? { ...p, contact: contacts.get(p.id) } : p));
+}
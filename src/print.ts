@@ -0,0 +1,19 @@
+// Escape text for the HTML handed to printHtml.
+export const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Open `body` in a new window styled with `styles` and bring up the
+// browser's print dialog once it has loaded. Returns false when the pop-up
+// was blocked.
+export function printHtml(title: string, body: string, styles: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) {
+    window.alert('Allow pop-ups for this site to print.');
+    return false;
+  }
+  win.document.open();
+  win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${styles}</style></head>
+<body>${body}<script>window.onload = () => window.print();</script></body></html>`);
+  win.document.close();
+  return true;
+}
@@ -0,0 +1,254 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { DivisionKey, FormatKey, PlayerStats, Team, TournamentState } from './types.js';
+import { parseScore } from './utils.js';
+import { bracketMatchWinner, formatDivision } from './scorePatch.js';
+import {
+  computeDoublesStandings, computeKobStandings, computeMickeyBDStandings, computeMickeyPoolStandings,
+  computeQuadsStandingsFull, computeTriplesStandings, type KobFinalsStandings, type StandingRow,
+} from './standings.js';
+
+// ── Public results API ───────────────────────────────────────────────────────
+// What /api/standings, /api/schedule and /api/bracket return, for scoreboards
+// and websites that shouldn't have to understand the saved state. Everything
+// is derived with the same computations the app's own screens use. Treat
+// these shapes as a published contract: add fields, never rename or remove
+// them. Lists come in the order the app shows them.
+
+export const PUBLIC_FORMATS: FormatKey[] = ['DOUBLES', 'QUADS', 'TRIPLES', 'KOB', 'MICKEY', 'MICKEYBD'];
+export const PUBLIC_DIVISIONS: DivisionKey[] = ['UPPER', 'LOWER'];
+
+// ── Standings ────────────────────────────────────────────────────────────────
+
+export type RankedRow = StandingRow & { rank: number };
+export type KobRow = { rank: number; name: string; W: number; L: number; PF: number; PA: number; PD: number; GP: number };
+export type KobFinals = { players: string[]; complete: boolean; rows: KobRow[] };
+
+export type PublicStandings =
+  // Doubles, Quads, Triples: individual records, guys and girls ranked separately.
+  | { format: 'DOUBLES' | 'QUADS' | 'TRIPLES'; guys: RankedRow[]; girls: RankedRow[] }
+  // KOB / QOB: pool play plus gold and silver finals (null until generated).
+  | {
+      format: 'KOB';
+      kobPool: KobRow[];
+      qobPool: KobRow[];
+      goldKob: KobFinals | null;
+      goldQob: KobFinals | null;
+      silverKob: KobFinals | null;
+      silverQob: KobFinals | null;
+    }
+  // Mickey & Minnie: teams ranked within each pool; W/L count sets.
+  | {
+      format: 'MICKEY';
+      pools: { pool: number; teams: (RankedRow & { id: string; players: string[]; sets: number })[] }[];
+    }
+  // Mickey & Minnie Blind Draw: each pair / free agent across every round.
+  | {
+      format: 'MICKEYBD';
+      units: {
+        rank: number; name: string; kind: 'pair' | 'free';
+        W: number; L: number; PD: number; sets: number;
+        mickeyW: number; mickeyL: number; minnieW: number; minnieL: number;
+        rounds: number;
+      }[];
+    };
+
+const ranked = <T extends object>(rows: T[]) => rows.map((r, i) => ({ rank: i + 1, ...r }));
+
+const kobRows = (rows: PlayerStats[]): KobRow[] =>
+  rows.map((s, i) => ({ rank: i + 1, name: s.name, W: s.W, L: s.L, PF: s.PF, PA: s.PA, PD: s.PF - s.PA, GP: s.GP }));
+
+const kobFinals = (f: KobFinalsStandings): KobFinals | null =>
+  f.games > 0 ? { players: f.players, complete: f.complete, rows: kobRows(f.standings) } : null;
+
+export function publicStandings(state: TournamentState, format: FormatKey, division: DivisionKey): PublicStandings {
+  switch (format) {
+    case 'DOUBLES': {
+      const d = state.doubles[division];
+      const { guysRows, girlsRows } = computeDoublesStandings(d.matches, d.guysText, d.girlsText, d.catchUp);
+      return { format, guys: ranked(guysRows), girls: ranked(girlsRows) };
+    }
+    case 'QUADS': {
+      const d = state.quads[division];
+      const { guysRows, girlsRows } = computeQuadsStandingsFull(d.matches, d.guysText, d.girlsText, d.catchUp);
+      return { format, guys: ranked(guysRows), girls: ranked(girlsRows) };
+    }
+    case 'TRIPLES': {
+      const d = state.triples[division];
+      const { guysRows, girlsRows } = computeTriplesStandings(d.matches, d.guysText, d.girlsText, d.catchUp);
+      return { format, guys: ranked(guysRows), girls: ranked(girlsRows) };
+    }
+    case 'KOB': {
+      const d = state.kob[division];
+      const s = computeKobStandings(d.matches, d.guysText, d.girlsText);
+      return {
+        format,
+        kobPool: kobRows(s.kobPool),
+        qobPool: kobRows(s.qobPool),
+        goldKob: kobFinals(s.goldKob),
+        goldQob: kobFinals(s.goldQob),
+        silverKob: kobFinals(s.silverKob),
+        silverQob: kobFinals(s.silverQob),
+      };
+    }
+    case 'MICKEY': {
+      const d = state.mickey[division];
+      const players = new Map(d.teams.map(t => [t.id, t.players] as const));
+      return {
+        format,
+        pools: computeMickeyPoolStandings(d.matches, d.teams, d.pairsText).map(({ pool, teams }) => ({
+          pool,
+          teams: teams.map((t, i) => ({ rank: i + 1, id: t.id, name: t.name, players: players.get(t.id) ?? [], W: t.W, L: t.L, PD: t.PD, sets: t.sets })),
+        })),
+      };
+    }
+    case 'MICKEYBD': {
+      const d = state.mickeyBD[division];
+      return {
+        format,
+        units: computeMickeyBDStandings(d.rounds, d.pairsText, d.freeAgentsText).map((u, i) => ({
+          rank: i + 1, name: u.label, kind: u.kind,
+          W: u.W, L: u.L, PD: u.PD, sets: u.sets,
+          mickeyW: u.mickeyW, mickeyL: u.mickeyL, minnieW: u.minnieW, minnieL: u.minnieL,
+          rounds: u.rounds,
+        })),
+      };
+    }
+  }
+}
+
+// ── Schedule ─────────────────────────────────────────────────────────────────
+
+export type PublicSide = { name: string | null; players: string[] };
+
+// One scored set. `label` is "GAME" for single-set formats, "MICKEY" or
+// "MINNIE" for Mickey & Minnie sets. `points` is null until a valid score is in.
+export type PublicSet = { label: 'GAME' | 'MICKEY' | 'MINNIE'; score: string | null; points: [number, number] | null };
+
+export type PublicMatch = {
+  id: string;
+  format: FormatKey;
+  division: DivisionKey;
+  // Round number (Doubles, Quads, Triples, Blind Draw), game number within
+  // the pool (KOB), null for fixed-team Mickey & Minnie pools.
+  round: number | null;
+  // KOB and Mickey & Minnie pool number.
+  pool: number | null;
+  court: number | null;
+  // KOB finals: "Gold KOB", "Silver QOB", …; null for pool play.
+  stage: string | null;
+  team1: PublicSide;
+  team2: PublicSide;
+  sets: PublicSet[];
+  // Every set has a valid, untied score.
+  complete: boolean;
+  // Side that won more sets, once complete; null for a split or unfinished match.
+  winner: 'team1' | 'team2' | null;
+};
+
+const side = (players: string[], name: string | null = null): PublicSide => ({ name, players: players.filter(Boolean) });
+
+function scoredSet(label: PublicSet['label'], score?: string): PublicSet {
+  const parsed = parseScore(score);
+  return { label, score: score?.trim() || null, points: parsed && parsed[0] !== parsed[1] ? parsed : null };
+}
+
+function publicMatch(base: Omit<PublicMatch, 'complete' | 'winner'>): PublicMatch {
+  const complete = base.sets.length > 0 && base.sets.every(s => s.points);
+  const won1 = base.sets.filter(s => s.points && s.points[0] > s.points[1]).length;
+  const won2 = base.sets.filter(s => s.points && s.points[1] > s.points[0]).length;
+  return { ...base, complete, winner: !complete || won1 === won2 ? null : won1 > won2 ? 'team1' : 'team2' };
+}
+
+export function publicSchedule(state: TournamentState, format: FormatKey, division: DivisionKey): PublicMatch[] {
+  const common = { format, division, stage: null };
+  switch (format) {
+    case 'DOUBLES':
+      return state.doubles[division].matches.map(m => publicMatch({
+        ...common, id: m.id, round: m.round, pool: null, court: m.court ?? null,
+        team1: side([m.t1p1, m.t1p2]), team2: side([m.t2p1, m.t2p2]), sets: [scoredSet('GAME', m.scoreText)],
+      }));
+    case 'QUADS':
+    case 'TRIPLES':
+      return state[format === 'QUADS' ? 'quads' : 'triples'][division].matches.map(m => publicMatch({
+        ...common, id: m.id, round: m.round, pool: null, court: m.court ?? null,
+        team1: side(m.t1), team2: side(m.t2), sets: [scoredSet('GAME', m.scoreText)],
+      }));
+    case 'KOB':
+      return state.kob[division].matches.map(g => publicMatch({
+        ...common, id: g.id, round: g.game, pool: g.pool, court: g.court ?? null, stage: g.finalsLabel ?? null,
+        team1: side(g.t1), team2: side(g.t2), sets: [scoredSet('GAME', g.scoreText)],
+      }));
+    case 'MICKEY': {
+      const d = state.mickey[division];
+      const teams = new Map(d.teams.map(t => [t.id, t] as const));
+      return d.matches.map(m => publicMatch({
+        ...common, id: m.id, round: null, pool: m.pool, court: null,
+        team1: side(teams.get(m.teamAId)?.players ?? [], teams.get(m.teamAId)?.name ?? null),
+        team2: side(teams.get(m.teamBId)?.players ?? [], teams.get(m.teamBId)?.name ?? null),
+        sets: mickeySets(m.format, m.mickeyScore, m.minnieScore),
+      }));
+    }
+    case 'MICKEYBD':
+      return state.mickeyBD[division].rounds.flatMap(r => {
+        const teams = new Map(r.teams.map(t => [t.id, t] as const));
+        return r.matches.map(m => publicMatch({
+          ...common, id: m.id, round: r.number, pool: null, court: null,
+          team1: side(teams.get(m.teamAId)?.players ?? [], teams.get(m.teamAId)?.name ?? null),
+          team2: side(teams.get(m.teamBId)?.players ?? [], teams.get(m.teamBId)?.name ?? null),
+          sets: mickeySets(m.format, m.mickeyScore, m.minnieScore),
+        }));
+      });
+  }
+}
+
+// Single-format matches play one set; legacy combined matches play both.
+function mickeySets(format: 'MICKEY' | 'MINNIE' | undefined, mickeyScore?: string, minnieScore?: string): PublicSet[] {
+  if (format === 'MICKEY') return [scoredSet('MICKEY', mickeyScore)];
+  if (format === 'MINNIE') return [scoredSet('MINNIE', minnieScore)];
+  return [scoredSet('MICKEY', mickeyScore), scoredSet('MINNIE', minnieScore)];
+}
+
+// ── Brackets ─────────────────────────────────────────────────────────────────
+
+export type PublicBracketMatch = {
+  id: string;
+  // Which bracket of the division this match is in ("UPPER" / "LOWER" when
+  // playoffs are split, "RR" for round-robin groups).
+  bracket: string;
+  round: number;
+  slot: number;
+  court: number | null;
+  redemption: boolean;
+  team1: (PublicSide & { seed: number }) | null;
+  team2: (PublicSide & { seed: number }) | null;
+  score: string | null;
+  // Mickey & Minnie playoff games (match play); empty elsewhere.
+  games: string[];
+  winner: 'team1' | 'team2' | null;
+  // Where the winner goes next; null for a final.
+  nextId: string | null;
+};
+
+const bracketSide = (t?: Team) => (t ? { ...side(t.members, t.name), seed: t.seed } : null);
+
+export function publicBracket(state: TournamentState, format: FormatKey, division: DivisionKey): PublicBracketMatch[] {
+  const brackets = formatDivision(state, format, division)?.brackets ?? [];
+  const mickey = format === 'MICKEY' || format === 'MICKEYBD';
+  return brackets
+    .slice()
+    .sort((a, b) => String(a.division).localeCompare(String(b.division)) || a.round - b.round || a.slot - b.slot)
+    .map(m => ({
+      id: m.id,
+      bracket: m.division,
+      round: m.round,
+      slot: m.slot,
+      court: m.court ?? null,
+      redemption: !!m.redemption,
+      team1: bracketSide(m.team1),
+      team2: bracketSide(m.team2),
+      score: m.score?.trim() || null,
+      games: m.games ?? [],
+      winner: m.team1 && m.team2 ? bracketMatchWinner(m, mickey) : null,
+      nextId: m.nextId ?? null,
+    }));
+}
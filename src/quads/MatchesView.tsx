@@ -1,17 +1,24 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { QuadsMatchRow, ScoreSettings } from '../types';
+import type { DivisionKey, QuadsMatchRow, ScoreSettings } from '../types';
 import { uniq, parseScore, isValidScore, isScoredGame } from '../utils';
+import { quadsSheets, printScoresheets, sheetTitle } from '../scoresheets';
 
 export function QuadsMatchesView({
   matches,
   setMatches,
   isAdmin,
+  canScore = isAdmin,
   scoreSettings = { playTo: 21, cap: 25 },
+  division,
 }: {
   matches: QuadsMatchRow[];
   setMatches: (f: (prev: QuadsMatchRow[]) => QuadsMatchRow[] | QuadsMatchRow[]) => void;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
   const rounds = useMemo(() => uniq(matches.map(m => m.round)).sort((a, b) => a - b), [matches]);
   const [open, setOpen] = useState(() => new Set<number>(rounds.length ? [rounds[rounds.length - 1]] : []));
@@ -121,14 +128,23 @@ export function QuadsMatchesView({
                   )}
                   <span className="text-[11px] text-slate-400 font-normal">{open.has(r) ? '▲' : '▼'}</span>
                 </button>
-                {isAdmin && (
+                <div className="flex items-center gap-2">
                   <button
-                    className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
-                    onClick={() => setConfirmR(r)}
+                    className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+                    onClick={() => printScoresheets(sheetTitle('QUADS', division, `Round ${r}`), quadsSheets(roundMatches, scoreSettings))}
+                    title="Print a scoresheet for every court in this round"
                   >
-                    Delete Round
+                    Print
                   </button>
-                )}
+                  {isAdmin && (
+                    <button
+                      className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+                      onClick={() => setConfirmR(r)}
+                    >
+                      Delete Round
+                    </button>
+                  )}
+                </div>
               </div>
 
               {confirmR === r && (
@@ -186,7 +202,7 @@ export function QuadsMatchesView({
                                 onChange={e => update(m.id, { scoreText: e.target.value })}
                                 placeholder={`to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ''}`}
                                 title={warning ? `Score doesn't match current rules (play to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ', no cap'})` : ''}
-                                readOnly={!isAdmin}
+                                readOnly={!canScore}
                               />
                             </td>
                           </tr>
@@ -1,8 +1,10 @@
 import React, { useMemo, useState } from 'react';
-import type { QuadsMatchRow, BracketMatch, PlayDiv, Team } from '../types';
+import type { CatchUpPolicy, QuadsMatchRow, BracketMatch, PlayDiv, Team } from '../types';
 import { slug, clampN, uniq, shuffle, parseScore } from '../utils';
+import { rosterNames } from '../skillBalance';
 import { buildBracket } from '../components/BracketView';
-import { computeQuadsStandingsFull, QuadsPlayerRow } from './Leaderboard';
+import { computeQuadsStandingsFull, rankStats, type QuadsPlayerRow } from '../standings';
+import { byTeamRating, type RatingTable } from '../ratings';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -51,18 +53,20 @@ function buildQuadsPlayoffTeams(
   return teams;
 }
 
-/** Sort and re-seed teams by combined pool play W then PD. */
+/** Sort and re-seed teams by combined pool play W then PD (then rating, when given). */
 function reseedTeams(
   teams: Team[],
   statMap: Map<string, { W: number; PD: number }>,
   div: PlayDiv,
+  ratings: RatingTable | null = null,
 ): Team[] {
   const scored = teams.map(t => ({
     team: t,
     W: t.members.reduce((s, n) => s + (statMap.get(n)?.W ?? 0), 0),
     PD: t.members.reduce((s, n) => s + (statMap.get(n)?.PD ?? 0), 0),
   }));
-  scored.sort((a, b) => b.W - a.W || b.PD - a.PD || a.team.name.localeCompare(b.team.name));
+  scored.sort((a, b) =>
+    b.W - a.W || b.PD - a.PD || byTeamRating(ratings, a.team.members, b.team.members) || a.team.name.localeCompare(b.team.name));
   return scored.map(({ team }, i) => ({
     ...team,
     seed: i + 1,
@@ -82,6 +86,8 @@ export function QuadsPlayoffBuilder({
   setBrackets,
   baseDivision = 'UPPER',
   scoreSettings,
+  ratings,
+  catchUp,
 }: {
   matches: QuadsMatchRow[];
   guysText: string;
@@ -89,10 +95,13 @@ export function QuadsPlayoffBuilder({
   setBrackets: (f: (prev: BracketMatch[]) => BracketMatch[] | BracketMatch[]) => void;
   baseDivision?: 'UPPER' | 'LOWER';
   scoreSettings?: { playTo: number; cap: number | null };
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
+  catchUp?: CatchUpPolicy;
 }) {
   const { guysRows, girlsRows, allRows } = useMemo(
-    () => computeQuadsStandingsFull(matches, guysText, girlsText),
-    [matches, guysText, girlsText],
+    () => computeQuadsStandingsFull(matches, guysText, girlsText, catchUp),
+    [matches, guysText, girlsText, catchUp],
   );
 
   const statMap = useMemo(() => {
@@ -101,11 +110,19 @@ export function QuadsPlayoffBuilder({
     return m;
   }, [guysRows, girlsRows]);
 
+  // What teams are seeded on: the same as statMap, or per game when the
+  // division ranks late arrivals per game.
+  const rankMap = useMemo(() => {
+    const m = new Map<string, { W: number; PD: number }>();
+    [...guysRows, ...girlsRows].forEach(r => m.set(r.name, rankStats(r, catchUp)));
+    return m;
+  }, [guysRows, girlsRows, catchUp]);
+
   // All registered players (for dropdowns)
-  const allPlayerNames = useMemo(() => uniq([
-    ...(guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean),
-    ...(girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean),
-  ]), [guysText, girlsText]);
+  const allPlayerNames = useMemo(
+    () => uniq([...rosterNames(guysText), ...rosterNames(girlsText)]),
+    [guysText, girlsText],
+  );
 
   type SelectMode = 'COMBINED' | 'SPLIT';
   const [selectMode, setSelectMode] = useState<SelectMode>('COMBINED');
@@ -116,6 +133,8 @@ export function QuadsPlayoffBuilder({
   const [splitBracket, setSplitBracket] = useState(false);
   const [upperCut, setUpperCut] = useState(4);
   const [rrRandomize, setRrRandomize] = useState(false);
+  const [rateTies, setRateTies] = useState(false);
+  const tieRatings = rateTies ? ratings ?? null : null;
 
   // Edit-before-bracket state
   const [editTeams, setEditTeams] = useState<EditTeam[]>([]);
@@ -135,7 +154,7 @@ export function QuadsPlayoffBuilder({
 
   function quickBuildSingle(div: PlayDiv, pool: QuadsPlayerRow[]) {
     const raw = buildQuadsPlayoffTeams(pool, windowSize, randomize, div);
-    return buildBracket(div, reseedTeams(raw, statMap, div));
+    return buildBracket(div, reseedTeams(raw, rankMap, div, tieRatings));
   }
 
   function onQuickBuild() {
@@ -214,7 +233,7 @@ export function QuadsPlayoffBuilder({
       division: baseDivision,
     }));
 
-    const reseeded = reseedTeams(teams, statMap, baseDivision);
+    const reseeded = reseedTeams(teams, rankMap, baseDivision, tieRatings);
     setBrackets(() => buildBracket(baseDivision, reseeded));
     setEditTeams([]);
   }
@@ -262,7 +281,7 @@ export function QuadsPlayoffBuilder({
           const name = members.join(' / ');
           rrTeams.push({ id: `RR-${i + 1}-${slug(name)}`, name, members, seed: i + 1, division: 'RR' });
         }
-        rrTeams = reseedTeams(rrTeams, statMap, 'RR');
+        rrTeams = reseedTeams(rrTeams, rankMap, 'RR', tieRatings);
       }
 
       if (rrTeams.length < 2) { alert('Not enough valid RR teams.'); return prev; }
@@ -361,6 +380,13 @@ export function QuadsPlayoffBuilder({
             Re-randomize RR teams from loser pool
           </label>
 
+          {ratings && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={rateTies} onChange={e => setRateTies(e.target.checked)} />
+              Break seeding ties by rating
+            </label>
+          )}
+
           <div className="text-[11px] text-slate-500 pt-1">
             Standings: {guysRows.length}G / {girlsRows.length}F · {allRows.length} total
           </div>
@@ -480,7 +506,7 @@ export function QuadsPlayoffBuilder({
                   <div className="mt-2 text-[10px] text-slate-500">
                     {(() => {
                       const gCount = team.filled.filter(n =>
-                        (guysText || '').split(/\r?\n/).map(s => s.trim()).includes(n)
+                        rosterNames(guysText).includes(n)
                       ).length;
                       const W = team.filled.reduce((s, n) => s + (statMap.get(n)?.W ?? 0), 0);
                       const PD = team.filled.reduce((s, n) => s + (statMap.get(n)?.PD ?? 0), 0);
@@ -1,6 +1,11 @@
 import React, { useMemo, useState } from 'react';
-import type { QuadsMatchRow } from '../types';
+import type { CatchUpPolicy, QuadsMatchRow } from '../types';
 import { slug, uniq, clampN, shuffle } from '../utils';
+import { BalanceReadout } from '../components/BalanceReadout';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
+import { isAvailable, roundsAway, type Availability } from '../players';
+import { MIN_RATED_GAMES, ratingSkill, type RatingTable } from '../ratings';
+import { BALANCE_WEIGHT, hasSkillSpread, rosterNames, rosterSkills, roundBalance, skillGap, teamSkill } from '../skillBalance';
 
 // ─── History helpers ─────────────────────────────────────────────────────────
 
@@ -130,24 +135,44 @@ export function QuadsRoundGenerator({
   girlsText,
   matches,
   setMatches,
+  ratings,
+  availability,
+  catchUp,
+  setCatchUp,
 }: {
   guysText: string;
   girlsText: string;
   matches: QuadsMatchRow[];
   setMatches: (f: (prev: QuadsMatchRow[]) => QuadsMatchRow[]) => void;
+  // Player ratings from past results; when given, the draw can balance on
+  // them instead of roster markers.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
+  catchUp?: CatchUpPolicy;
+  setCatchUp: (policy: CatchUpPolicy | undefined) => void;
 }) {
   const [strict, setStrict] = useState(true);
+  const [balance, setBalance] = useState(true);
+  const [useRatings, setUseRatings] = useState(false);
   const [roundsToGen, setRoundsToGen] = useState(1);
   const [startCourt, setStartCourt] = useState(1);
   const [seedStr, setSeedStr] = useState('');
 
-  const guys = useMemo(
-    () => uniq((guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
-    [guysText],
+  const guys = useMemo(() => rosterNames(guysText), [guysText]);
+  const girls = useMemo(() => rosterNames(girlsText), [girlsText]);
+
+  const skills = useMemo(
+    () => rosterSkills([guysText, girlsText], useRatings ? ratings : null),
+    [guysText, girlsText, useRatings, ratings],
+  );
+  const ratedCount = useMemo(
+    () => [...guys, ...girls].filter(p => ratingSkill(ratings, p) !== null).length,
+    [guys, girls, ratings],
   );
-  const girls = useMemo(
-    () => uniq((girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)),
-    [girlsText],
+  const balanceRows = useMemo(
+    () => roundBalance(matches.map(m => ({ round: m.round, sides: [m.t1, m.t2] })), skills),
+    [matches, skills],
   );
 
   // Per-player UR/PP history for display
@@ -177,9 +202,21 @@ export function QuadsRoundGenerator({
     const opponentMap = buildQOpponentMap(history);
     const sitOuts: string[] = [];
 
-    // Shuffle first, then sort by urgency (shuffle breaks ties randomly)
-    let activeGuys = shuffle(guys, seedNum);
-    let activeGirls = shuffle(girls, seedNum ? seedNum + 17 : undefined);
+    // With the priority catch-up policy, rounds a player wasn't there for
+    // count as sit-outs, so they're the last to sit until they catch up.
+    if (catchUp === 'PRIORITY') {
+      const pastRounds = uniq(history.map(m => m.round));
+      for (const p of [...guys, ...girls]) {
+        const away = roundsAway(availability, p, pastRounds);
+        if (away) usageStats.sitCounts.set(slug(p), (usageStats.sitCounts.get(slug(p)) || 0) + away);
+      }
+    }
+
+    // Shuffle first, then sort by urgency (shuffle breaks ties randomly).
+    // Players outside their arrival / departure window aren't drawn at all.
+    const here = (p: string) => isAvailable(availability, p, roundIdx);
+    let activeGuys = shuffle(guys.filter(here), seedNum);
+    let activeGirls = shuffle(girls.filter(here), seedNum ? seedNum + 17 : undefined);
 
     const girlsSet = new Set(girls.map(slug));
 
@@ -330,6 +367,40 @@ export function QuadsRoundGenerator({
     }
     // ─────────────────────────────────────────────────────────────────────────
 
+    // ── Skill balance ─────────────────────────────────────────────────────────
+    // Swap same-gender players between mixed teams while it brings team totals
+    // closer to the round's average. Same-gender swaps keep every team's
+    // make-up, and UR/PP teams are left as the rescue above arranged them.
+    if (balance) {
+      const active = teams.flatMap(t => t.members);
+      const avg = active.length ? teamSkill(skills, active) / active.length : 0;
+      const off = (members: string[]) => (teamSkill(skills, members) - avg * members.length) ** 2;
+      for (let pass = 0, improved = true; improved && pass < 10; pass++) {
+        improved = false;
+        for (let i = 0; i < teams.length; i++) {
+          for (let j = i + 1; j < teams.length; j++) {
+            const a = teams[i], b = teams[j];
+            if (a.tag || b.tag) continue;
+            for (const pa of a.members) {
+              for (const pb of b.members) {
+                if (girlsSet.has(slug(pa)) !== girlsSet.has(slug(pb))) continue;
+                const nextA = a.members.map(m => m === pa ? pb : m);
+                const nextB = b.members.map(m => m === pb ? pa : m);
+                if (off(nextA) + off(nextB) < off(a.members) + off(b.members) - 1e-9) {
+                  teams[i] = { ...a, members: nextA };
+                  teams[j] = { ...b, members: nextB };
+                  improved = true;
+                  break;
+                }
+              }
+              if (teams[i] !== a) break;
+            }
+          }
+        }
+      }
+    }
+    // ─────────────────────────────────────────────────────────────────────────
+
     // Handle odd team count: team with highest sit-priority sits out
     if (teams.length % 2 === 1) {
       let maxScore = Number.NEGATIVE_INFINITY;
@@ -361,6 +432,7 @@ export function QuadsRoundGenerator({
             }
           }
         }
+        if (balance) penalty += BALANCE_WEIGHT * skillGap(skills, a.members, b.members);
         if (penalty < bestScore) {
           bestScore = penalty;
           bestIdx = i;
@@ -438,6 +510,28 @@ export function QuadsRoundGenerator({
             />
             Minimize repeat opponents
           </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={balance}
+              onChange={e => setBalance(e.target.checked)}
+            />
+            Balance team skill
+          </label>
+          {ratings && (
+            <label
+              className="flex items-center gap-1"
+              title={`Balance on ratings from past results; players with fewer than ${MIN_RATED_GAMES} rated games keep their roster marker`}
+            >
+              <input
+                type="checkbox"
+                checked={useRatings}
+                onChange={e => setUseRatings(e.target.checked)}
+              />
+              Balance skill by ratings
+              <span className="text-slate-400">({ratedCount}/{guys.length + girls.length} rated)</span>
+            </label>
+          )}
           <label className="flex items-center gap-1">
             Rounds
             <input
@@ -481,8 +575,20 @@ export function QuadsRoundGenerator({
         Ideal teams are 2 guys + 2 girls. Players with more UR/PP history are prioritized for balanced teams.
         Back-to-back same-gender rounds are strongly avoided. Sit-outs rotate fairly. When gender ratios
         force unbalanced teams, the generator ensures at least 1 girl per team where possible.
+        With skill balancing on, (M3)/(F4) markers on roster lines even out team totals and opponents
+        are matched on total skill.
       </p>
 
+      {hasSkillSpread(skills) && <BalanceReadout rounds={balanceRows} />}
+
+      <AvailabilityPanel
+        players={[...guys, ...girls]}
+        availability={availability}
+        nextRound={matches.reduce((mx, m) => Math.max(mx, m.round), 0) + 1}
+        catchUp={catchUp}
+        setCatchUp={setCatchUp}
+      />
+
       {sgStats.hasAny && (
         <div className="mt-4 border-t border-slate-200 pt-3">
           <div className="text-[12px] font-semibold text-slate-700 mb-2">
@@ -0,0 +1,157 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { FormatKey, TournamentState } from './types.js';
+import { DEFAULT_SKILL, parseScore, type GenderedName } from './utils.js';
+import { playerKey } from './players.js';
+import { PUBLIC_DIVISIONS, PUBLIC_FORMATS, publicBracket, publicSchedule } from './publicApi.js';
+
+// ── Player ratings ───────────────────────────────────────────────────────────
+// An Elo-style rating per person, learned from every scored game in every
+// event: pool play and playoffs in Doubles, Quads, Triples, KOB and both
+// Mickey & Minnie formats. A team's strength is the average of its players'
+// ratings, so beating a strong side with a weak partner earns more than the
+// reverse. Each player starts from their registry skill (1–5) and moves
+// quickly over their first games, then settles. Ratings are keyed like the
+// player registry, by name, so the same person carries their rating from
+// one event to the next. /api/ratings computes them across all events.
+
+export type PlayerRating = {
+  name: string;
+  rating: number;
+  games: number;
+  wins: number;
+};
+
+// Keyed by playerKey(name).
+export type RatingTable = Record<string, PlayerRating>;
+
+// `id` is the match id plus which set or playoff game it was.
+export type RatedGame = { id: string; format: FormatKey; team1: string[]; team2: string[]; points: [number, number] };
+
+// A game as played: where it sits, who played and the score. Ids alone
+// repeat across events (playoff ids come from the division, round and
+// slot), so telling a cloned event's copy of a game from a new one played
+// in the same slot needs all of it.
+export const gameKey = (g: RatedGame) =>
+  `${g.id}|${g.team1.map(playerKey).join(',')}|${g.team2.map(playerKey).join(',')}|${g.points.join('-')}`;
+
+export const INITIAL_RATING = 1500;
+// Rating points per step on the 1–5 skill scale.
+const SKILL_STEP = 150;
+// Games a rating needs before it's trusted over a roster skill marker.
+export const MIN_RATED_GAMES = 3;
+
+// Every scored game (each set of a Mickey & Minnie match, each game of a
+// playoff match), pool play first and in round order, then brackets.
+export function ratedGames(state: TournamentState): RatedGame[] {
+  const out: RatedGame[] = [];
+  const push = (id: string, format: FormatKey, team1: string[], team2: string[], score?: string | null) => {
+    const points = parseScore(score ?? undefined);
+    if (!points || points[0] === points[1] || !team1.length || !team2.length) return;
+    out.push({ id, format, team1, team2, points });
+  };
+  for (const format of PUBLIC_FORMATS) {
+    for (const division of PUBLIC_DIVISIONS) {
+      const matches = publicSchedule(state, format, division)
+        .map((m, i) => ({ m, i }))
+        .sort((a, b) => (a.m.round ?? 0) - (b.m.round ?? 0) || a.i - b.i);
+      for (const { m } of matches) {
+        m.sets.forEach((set, i) => push(`${format}:${division}:${m.id}:${i}`, format, m.team1.players, m.team2.players, set.score));
+      }
+      for (const { id, team1, team2, games, score } of publicBracket(state, format, division)) {
+        if (!team1 || !team2) continue;
+        (games.length ? games : [score]).forEach((game, i) =>
+          push(`${format}:${division}:bracket:${id}:${i}`, format, team1.players, team2.players, game));
+      }
+    }
+  }
+  return out;
+}
+
+// New players move fast; regulars settle.
+const kFactor = (games: number) => Math.max(16, 64 / Math.sqrt(1 + games));
+
+// A 21-8 says more than a 21-19, with diminishing returns.
+const marginFactor = (margin: number) => Math.min(2, Math.max(0.5, Math.log1p(margin) / Math.log1p(4)));
+
+const skillToRating = (skill: number) => INITIAL_RATING + (skill - DEFAULT_SKILL) * SKILL_STEP;
+
+// Replays one event's games on top of `table` (ratings carried in from
+// earlier events), leaving out the games whose gameKey is in `skip`; returns
+// a new table.
+export function applyEventRatings(table: RatingTable, state: TournamentState, skip?: Set<string>): RatingTable {
+  const next: RatingTable = { ...table };
+  const priors = new Map(state.players.map(p => [playerKey(p.name), p.skill] as const));
+  const player = (name: string) => {
+    const key = playerKey(name);
+    const skill = priors.get(key);
+    return next[key] ?? { name: name.trim(), rating: skill ? skillToRating(skill) : INITIAL_RATING, games: 0, wins: 0 };
+  };
+  const strength = (team: PlayerRating[]) => team.reduce((n, p) => n + p.rating, 0) / team.length;
+
+  for (const game of ratedGames(state)) {
+    if (skip?.has(gameKey(game))) continue;
+    const keys1 = game.team1.map(playerKey), keys2 = game.team2.map(playerKey);
+    if (keys1.some(k => keys2.includes(k))) continue;
+    const team1 = game.team1.map(player), team2 = game.team2.map(player);
+    const expected1 = 1 / (1 + 10 ** ((strength(team2) - strength(team1)) / 400));
+    const won1 = game.points[0] > game.points[1];
+    const margin = marginFactor(Math.abs(game.points[0] - game.points[1]));
+    // Work out every change from the pre-game ratings before applying any.
+    const updated = [
+      ...team1.map((p, i) => [keys1[i], p, won1, expected1] as const),
+      ...team2.map((p, i) => [keys2[i], p, !won1, 1 - expected1] as const),
+    ].map(([key, p, won, expected]) => [key, {
+      ...p,
+      rating: p.rating + kFactor(p.games) * margin * ((won ? 1 : 0) - expected),
+      games: p.games + 1,
+      wins: p.wins + (won ? 1 : 0),
+    }] as const);
+    for (const [key, p] of updated) next[key] = p;
+  }
+  return next;
+}
+
+// `copied`: the gameKeys of the games a cloned event copied from its source
+// (recorded when it was cloned), which already count in the source.
+export type RatedEvent = { id: string; state: TournamentState; copied?: Set<string> };
+
+// Ratings across events, replayed oldest first.
+export function computeRatings(events: RatedEvent[]): RatingTable {
+  let table: RatingTable = {};
+  for (const e of events) table = applyEventRatings(table, e.state, e.copied);
+  return table;
+}
+
+export const ratingOf = (table: RatingTable | null | undefined, name: string): PlayerRating | undefined =>
+  table?.[playerKey(name)];
+
+// A trusted rating on the roster markers' 1–5 scale (fractional), or null
+// while the player has too few games to go on.
+export function ratingSkill(table: RatingTable | null | undefined, name: string): number | null {
+  const r = ratingOf(table, name);
+  if (!r || r.games < MIN_RATED_GAMES) return null;
+  return Math.min(5, Math.max(1, DEFAULT_SKILL + (r.rating - INITIAL_RATING) / SKILL_STEP));
+}
+
+// A parsed roster name with its skill marker replaced by the player's rating,
+// when there is a trusted one.
+export const withRatedSkill = (table: RatingTable | null | undefined, m: GenderedName): GenderedName => {
+  const skill = ratingSkill(table, m.name);
+  return skill === null ? m : { ...m, skill };
+};
+
+// Average rating of a team, counting players without a trusted rating as
+// average. Used to break seeding ties.
+export function teamRating(table: RatingTable | null | undefined, names: string[]): number {
+  const list = names.filter(Boolean);
+  if (!list.length) return INITIAL_RATING;
+  return list.reduce((n, name) => {
+    const r = ratingOf(table, name);
+    return n + (r && r.games >= MIN_RATED_GAMES ? r.rating : INITIAL_RATING);
+  }, 0) / list.length;
+}
+
+// Seeding tiebreak: the higher-rated team first. 0 without a table, so
+// comparators can always chain it in.
+export const byTeamRating = (table: RatingTable | null | undefined, a: string[], b: string[]): number =>
+  table ? teamRating(table, b) - teamRating(table, a) : 0;
@@ -0,0 +1,162 @@
+import type { DivisionKey, FormatKey, TournamentState } from './types';
+import {
+  publicBracket, publicSchedule, publicStandings,
+  type KobRow, type PublicMatch, type PublicSide,
+} from './publicApi';
+
+// ── Results export ───────────────────────────────────────────────────────────
+// Spreadsheet-ready tables of a format's matches, leaderboards and playoff
+// results, built from the same views the public API serves so the numbers
+// match the screens. Several tables go into one CSV one after another, each
+// with a title line and its own header row.
+
+export type Cell = string | number | null | undefined;
+export type Table = { title: string; header: string[]; rows: Cell[][] };
+
+export type ExportPart = 'matches' | 'standings' | 'playoffs';
+
+const TAG_LABELS: Record<string, string> = { ULTIMATE_REVCO: 'Ultimate Revco', POWER_PUFF: 'Power Puff' };
+
+const teamText = (s: PublicSide | null) =>
+  !s ? '' : s.name ? `${s.name} (${s.players.join(' / ')})` : s.players.join(' / ');
+
+const winnerText = (w: 'team1' | 'team2' | null) => (w === 'team1' ? 'Team 1' : w === 'team2' ? 'Team 2' : '');
+
+const scoreText = (m: PublicMatch) =>
+  m.sets.map(s => (s.label === 'GAME' ? s.score ?? '' : `${s.label === 'MICKEY' ? 'Mickey' : 'Minnie'} ${s.score ?? '—'}`)).join('; ');
+
+// Columns the public schedule leaves out: division tags and sit-outs.
+function matchExtras(state: TournamentState, format: FormatKey, division: DivisionKey): Map<string, { tags: string; sitOuts: string }> {
+  const out = new Map<string, { tags: string; sitOuts: string }>();
+  const tag = (t?: string | null) => (t ? TAG_LABELS[t] ?? t : '');
+  switch (format) {
+    case 'DOUBLES':
+      for (const m of state.doubles[division].matches) out.set(m.id, { tags: tag(m.tag), sitOuts: (m.sitOuts ?? []).join(', ') });
+      break;
+    case 'QUADS':
+      for (const m of state.quads[division].matches) {
+        const tags = [m.tag1 && `Team 1: ${tag(m.tag1)}`, m.tag2 && `Team 2: ${tag(m.tag2)}`].filter(Boolean).join('; ');
+        out.set(m.id, { tags, sitOuts: (m.sitOuts ?? []).join(', ') });
+      }
+      break;
+    case 'TRIPLES':
+      for (const m of state.triples[division].matches) out.set(m.id, { tags: '', sitOuts: (m.sitOuts ?? []).join(', ') });
+      break;
+    case 'KOB':
+      for (const g of state.kob[division].matches) {
+        out.set(g.id, { tags: '', sitOuts: ([] as string[]).concat(g.sitOut ?? []).join(', ') });
+      }
+      break;
+  }
+  return out;
+}
+
+function matchesTable(state: TournamentState, format: FormatKey, division: DivisionKey): Table {
+  const extras = matchExtras(state, format, division);
+  return {
+    title: `${format} ${division} — Matches`,
+    header: ['Division', 'Round', 'Pool', 'Court', 'Stage', 'Team 1', 'Team 2', 'Score', 'Winner', 'Tags', 'Sitting Out'],
+    rows: publicSchedule(state, format, division).map(m => [
+      division, m.round, m.pool, m.court, m.stage, teamText(m.team1), teamText(m.team2),
+      scoreText(m), winnerText(m.winner), extras.get(m.id)?.tags, extras.get(m.id)?.sitOuts,
+    ]),
+  };
+}
+
+const KOB_HEADER = ['Division', 'Rank', 'Name', 'W', 'L', 'PF', 'PA', 'PD', 'Games'];
+const kobRows = (division: DivisionKey, rows: KobRow[]): Cell[][] =>
+  rows.map(r => [division, r.rank, r.name, r.W, r.L, r.PF, r.PA, r.PD, r.GP]);
+
+function standingsTables(state: TournamentState, format: FormatKey, division: DivisionKey): Table[] {
+  const s = publicStandings(state, format, division);
+  const title = (what: string) => `${format} ${division} — ${what}`;
+  switch (s.format) {
+    case 'DOUBLES':
+    case 'QUADS':
+    case 'TRIPLES': {
+      const header = ['Division', 'Rank', 'Name', 'W', 'L', 'PD'];
+      return [
+        { title: title('Guys Standings'), header, rows: s.guys.map(r => [division, r.rank, r.name, r.W, r.L, r.PD]) },
+        { title: title('Girls Standings'), header, rows: s.girls.map(r => [division, r.rank, r.name, r.W, r.L, r.PD]) },
+      ];
+    }
+    case 'KOB': {
+      const finals = (['goldKob', 'goldQob', 'silverKob', 'silverQob'] as const).flatMap(key => {
+        const f = s[key];
+        const label = { goldKob: 'Gold KOB', goldQob: 'Gold QOB', silverKob: 'Silver KOB', silverQob: 'Silver QOB' }[key];
+        return f ? [{ title: title(`${label} Finals${f.complete ? '' : ' (in progress)'}`), header: KOB_HEADER, rows: kobRows(division, f.rows) }] : [];
+      });
+      return [
+        { title: title('KOB Pool Play'), header: KOB_HEADER, rows: kobRows(division, s.kobPool) },
+        { title: title('QOB Pool Play'), header: KOB_HEADER, rows: kobRows(division, s.qobPool) },
+        ...finals,
+      ];
+    }
+    case 'MICKEY':
+      return [{
+        title: title('Standings'),
+        header: ['Division', 'Pool', 'Rank', 'Team', 'Players', 'Sets W', 'Sets L', 'PD'],
+        rows: s.pools.flatMap(p => p.teams.map(t => [division, p.pool, t.rank, t.name, t.players.join(' / '), t.W, t.L, t.PD])),
+      }];
+    case 'MICKEYBD':
+      return [{
+        title: title('Standings'),
+        header: ['Division', 'Rank', 'Name', 'Pair / Free Agent', 'Sets W', 'Sets L', 'PD', 'Mickey W', 'Mickey L', 'Minnie W', 'Minnie L', 'Rounds'],
+        rows: s.units.map(u => [
+          division, u.rank, u.name, u.kind === 'pair' ? 'Pair' : 'Free Agent',
+          u.W, u.L, u.PD, u.mickeyW, u.mickeyL, u.minnieW, u.minnieL, u.rounds,
+        ]),
+      }];
+  }
+}
+
+const BRACKET_LABELS: Record<string, string> = { UPPER: 'Upper', LOWER: 'Lower', RR: 'Round Robin' };
+
+function playoffsTable(state: TournamentState, format: FormatKey, division: DivisionKey): Table {
+  return {
+    title: `${format} ${division} — Playoffs`,
+    header: ['Division', 'Bracket', 'Round', 'Game', 'Court', 'Seed 1', 'Team 1', 'Seed 2', 'Team 2', 'Score', 'Winner'],
+    rows: publicBracket(state, format, division).map(m => [
+      division,
+      m.redemption ? 'Redemption Rally' : BRACKET_LABELS[m.bracket] ?? m.bracket,
+      m.round, m.slot, m.court,
+      m.team1?.seed, teamText(m.team1), m.team2?.seed, teamText(m.team2),
+      m.games.length ? m.games.filter(Boolean).join('; ') : m.score,
+      winnerText(m.winner),
+    ]),
+  };
+}
+
+export function resultTables(
+  state: TournamentState,
+  format: FormatKey,
+  divisions: DivisionKey[],
+  parts: ExportPart[],
+): Table[] {
+  return divisions.flatMap(division => [
+    ...(parts.includes('matches') ? [matchesTable(state, format, division)] : []),
+    ...(parts.includes('standings') ? standingsTables(state, format, division) : []),
+    ...(parts.includes('playoffs') ? [playoffsTable(state, format, division)] : []),
+  ]);
+}
+
+// Names are typed by hand, so text that a spreadsheet would run as a formula
+// is prefixed with an apostrophe.
+function csvCell(v: Cell): string {
+  let s = v === null || v === undefined ? '' : String(v);
+  if (typeof v === 'string' && /^[=+@\t]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Tables one after another, separated by a blank line. Starts with a BOM so
+// Excel reads names with accents correctly.
+export function tablesToCsv(tables: Table[]): string {
+  const lines: string[] = [];
+  for (const t of tables) {
+    if (lines.length) lines.push('');
+    lines.push(csvCell(t.title));
+    lines.push(t.header.map(csvCell).join(','));
+    for (const r of t.rows) lines.push(r.map(csvCell).join(','));
+  }
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,261 @@
+import type { DivisionKey, FormatKey } from './types';
+import { DEFAULT_SKILL, parseMickeyFreeGendered, parseMickeyPairsGendered, slug, stripGenderMarker, type Gender } from './utils';
+
+// ── CSV roster import ────────────────────────────────────────────────────────
+// Turns a sign-up form export (name, gender, skill, partner request,
+// division) into the same roster text admins would otherwise type: guys and
+// girls lists for the individual formats, "A(F4) & B(M3)" pairs plus free
+// agents for Mickey & Minnie. Every problem is reported against its CSV row
+// so the preview can show what was skipped and why.
+
+export type RosterFields = { guysText?: string; girlsText?: string; pairsText?: string; freeAgentsText?: string };
+
+export type ImportIssue = { row: number; severity: 'error' | 'warning'; message: string };
+
+export type DivisionImport = {
+  guys: string[];
+  girls: string[];
+  // Each entry is one pair line, members already carrying their markers.
+  pairs: string[];
+  freeAgents: string[];
+};
+
+export type RosterImportPlan = {
+  divisions: Partial<Record<DivisionKey, DivisionImport>>;
+  issues: ImportIssue[];
+  // Rows that made it into a roster.
+  imported: number;
+};
+
+type Column = 'name' | 'first' | 'last' | 'gender' | 'skill' | 'partner' | 'division';
+
+// Header text (lowercased, punctuation dropped) -> column. Covers the usual
+// wording of sign-up form exports.
+const HEADER_ALIASES: Record<string, Column> = {
+  name: 'name', 'full name': 'name', player: 'name', 'player name': 'name',
+  first: 'first', 'first name': 'first', 'given name': 'first',
+  last: 'last', 'last name': 'last', surname: 'last', 'family name': 'last',
+  gender: 'gender', sex: 'gender',
+  skill: 'skill', 'skill level': 'skill', rating: 'skill', level: 'skill',
+  partner: 'partner', 'partner request': 'partner', 'requested partner': 'partner', teammate: 'partner',
+  division: 'division', div: 'division', bracket: 'division',
+};
+
+export const PAIRED_FORMATS: FormatKey[] = ['MICKEY', 'MICKEYBD'];
+
+// Matches what parseMickeyPairsGendered splits pair lines on.
+const PAIR_SEPARATOR_RE = /\band\b|[&/+,]/gi;
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF. Blank
+// lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows;
+}
+
+function parseGender(raw: string): Gender | null {
+  const t = raw.trim().toLowerCase();
+  if (/^(m|male|man|men|guy|boy)$/.test(t)) return 'M';
+  if (/^(f|w|female|woman|women|girl|lady)$/.test(t)) return 'F';
+  return null;
+}
+
+function parseDivision(raw: string): DivisionKey | null {
+  const t = raw.trim().toLowerCase();
+  if (t.startsWith('u')) return 'UPPER';
+  if (t.startsWith('l')) return 'LOWER';
+  return null;
+}
+
+const marker = (gender: Gender | null, skill: number) => (gender ? `(${gender}${skill})` : '');
+
+type Signup = { row: number; name: string; gender: Gender | null; skill: number; partner: string; division: DivisionKey };
+
+// Names already on the target rosters (when adding rather than replacing),
+// so they count as duplicates too.
+export type ExistingRosters = Partial<Record<DivisionKey, RosterFields>>;
+
+function existingNames(fields: RosterFields | undefined): Set<string> {
+  if (!fields) return new Set();
+  const lines = (text?: string) => (text || '').split(/\r?\n/).map(s => stripGenderMarker(s).trim()).filter(Boolean);
+  return new Set([
+    ...lines(fields.guysText),
+    ...lines(fields.girlsText),
+    ...parseMickeyPairsGendered(fields.pairsText || '').flat().map(m => m.name),
+    ...parseMickeyFreeGendered(fields.freeAgentsText || '').map(m => m.name),
+  ].map(slug));
+}
+
+export function planRosterImport(
+  csvText: string,
+  format: FormatKey,
+  defaultDivision: DivisionKey,
+  existing: ExistingRosters = {},
+): RosterImportPlan {
+  const paired = PAIRED_FORMATS.includes(format);
+  const issues: ImportIssue[] = [];
+  const plan: RosterImportPlan = { divisions: {}, issues, imported: 0 };
+
+  const [header, ...body] = parseCsv(csvText);
+  if (!header) {
+    issues.push({ row: 1, severity: 'error', message: 'The file is empty' });
+    return plan;
+  }
+  const columns = new Map<Column, number>();
+  header.forEach((h, i) => {
+    const col = HEADER_ALIASES[h.trim().toLowerCase().replace(/[^a-z ]/g, '').replace(/\s+/g, ' ')];
+    if (col && !columns.has(col)) columns.set(col, i);
+  });
+  if (!columns.has('name') && !columns.has('first')) {
+    issues.push({ row: 1, severity: 'error', message: 'No name column found (expected a "Name" or "First Name" header)' });
+    return plan;
+  }
+  const cell = (r: string[], col: Column) => (columns.has(col) ? (r[columns.get(col)!] ?? '').trim() : '');
+  const clean = (name: string) => (paired ? name.replace(PAIR_SEPARATOR_RE, ' ').replace(/\s+/g, ' ').trim() : name);
+
+  // Rows become sign-ups first; duplicates are dropped here so partner
+  // matching only ever sees one entry per person.
+  const signups: Signup[] = [];
+  const seen = new Map<string, number>();
+  const onRoster = { UPPER: existingNames(existing.UPPER), LOWER: existingNames(existing.LOWER) };
+  body.forEach((r, i) => {
+    const row = i + 2; // 1-based, after the header
+    let name = (cell(r, 'name') || [cell(r, 'first'), cell(r, 'last')].filter(Boolean).join(' ')).replace(/\s+/g, ' ');
+    // Pair lines are split on these, so they can't appear inside a name.
+    const cleaned = clean(name);
+    if (cleaned !== name) {
+      issues.push({ row, severity: 'warning', message: `"${name}" imported as "${cleaned}"` });
+      name = cleaned;
+    }
+    if (!name) {
+      issues.push({ row, severity: 'warning', message: 'No name, skipped' });
+      return;
+    }
+
+    const rawDivision = cell(r, 'division');
+    const division = rawDivision ? parseDivision(rawDivision) : defaultDivision;
+    if (!division) {
+      issues.push({ row, severity: 'error', message: `${name}: unknown division "${rawDivision}", skipped` });
+      return;
+    }
+
+    const key = `${division}:${slug(name)}`;
+    if (seen.has(key)) {
+      issues.push({ row, severity: 'error', message: `${name} is already on row ${seen.get(key)}, skipped` });
+      return;
+    }
+    if (onRoster[division].has(slug(name))) {
+      issues.push({ row, severity: 'error', message: `${name} is already on the ${division} roster, skipped` });
+      return;
+    }
+
+    const rawGender = cell(r, 'gender');
+    const gender = parseGender(rawGender);
+    if (!gender) {
+      const why = rawGender ? `unrecognised gender "${rawGender}"` : 'no gender';
+      if (!paired) {
+        issues.push({ row, severity: 'error', message: `${name}: ${why}, skipped (guys and girls are listed separately)` });
+        return;
+      }
+      issues.push({ row, severity: 'warning', message: `${name}: ${why}, imported without a marker` });
+    }
+
+    const rawSkill = cell(r, 'skill');
+    let skill = DEFAULT_SKILL;
+    if (rawSkill) {
+      const n = Number(rawSkill);
+      if (Number.isInteger(n) && n >= 1 && n <= 5) skill = n;
+      else issues.push({ row, severity: 'warning', message: `${name}: skill "${rawSkill}" isn't 1–5, using ${DEFAULT_SKILL}` });
+    }
+
+    seen.set(key, row);
+    signups.push({ row, name, gender, skill, partner: clean(cell(r, 'partner')), division });
+  });
+
+  const divisionOf = (d: DivisionKey) => (plan.divisions[d] ??= { guys: [], girls: [], pairs: [], freeAgents: [] });
+  const label = (s: Signup) => `${s.name}${marker(s.gender, s.skill)}`;
+
+  if (!paired) {
+    // Doubles, Quads and Triples lines take the (M3)-style marker for skill
+    // balancing; KOB names are used exactly as typed, so they stay bare.
+    const line = format === 'KOB' ? (s: Signup) => s.name : label;
+    for (const s of signups) {
+      (s.gender === 'M' ? divisionOf(s.division).guys : divisionOf(s.division).girls).push(line(s));
+    }
+    plan.imported = signups.length;
+    return plan;
+  }
+
+  // Pair up partner requests within each division. A request is honoured
+  // when the partner signed up in the same division and isn't already
+  // paired (or asking for someone else); otherwise both stay free agents.
+  const byName = new Map(signups.map(s => [`${s.division}:${slug(s.name)}`, s]));
+  const matched = new Set<Signup>();
+  for (const s of signups) {
+    if (matched.has(s) || !s.partner) continue;
+    const partner = byName.get(`${s.division}:${slug(s.partner)}`);
+    if (!partner) {
+      const elsewhere = signups.find(o => slug(o.name) === slug(s.partner));
+      issues.push({
+        row: s.row,
+        severity: 'warning',
+        message: elsewhere
+          ? `${s.name}: partner ${s.partner} signed up for ${elsewhere.division}, added as a free agent`
+          : `${s.name}: partner ${s.partner} didn't sign up, added as a free agent`,
+      });
+      continue;
+    }
+    if (partner === s) {
+      issues.push({ row: s.row, severity: 'warning', message: `${s.name} requested themselves as partner, added as a free agent` });
+      continue;
+    }
+    if (matched.has(partner) || (partner.partner && slug(partner.partner) !== slug(s.name))) {
+      issues.push({ row: s.row, severity: 'warning', message: `${s.name}: ${partner.name} asked to partner someone else, added as a free agent` });
+      continue;
+    }
+    matched.add(s);
+    matched.add(partner);
+    divisionOf(s.division).pairs.push(`${label(s)} & ${label(partner)}`);
+  }
+  for (const s of signups) {
+    if (!matched.has(s)) divisionOf(s.division).freeAgents.push(label(s));
+  }
+  plan.imported = signups.length;
+  issues.sort((a, b) => a.row - b.row);
+  return plan;
+}
+
+// Roster fields after applying `imported` to `current`, either replacing the
+// lists or adding below what's there.
+export function mergeRosterFields(current: RosterFields, imported: DivisionImport, format: FormatKey, replace: boolean): RosterFields {
+  const join = (before: string | undefined, lines: string[]) =>
+    replace ? lines.join('\n') : [...(before || '').split(/\r?\n/).filter(l => l.trim()), ...lines].join('\n');
+  return PAIRED_FORMATS.includes(format)
+    ? { pairsText: join(current.pairsText, imported.pairs), freeAgentsText: join(current.freeAgentsText, imported.freeAgents) }
+    : { guysText: join(current.guysText, imported.guys), girlsText: join(current.girlsText, imported.girls) };
+}
@@ -0,0 +1,199 @@
+import type { DivisionKey, FormatKey, TournamentState } from './types';
+import { firstName, stripGenderMarker, uniq } from './utils';
+import { lineTokens, playerKey, renamePlayer, rosterText, type RosterField } from './players';
+import { FORMAT_STATE_KEYS, formatDivision } from './scorePatch';
+
+// ── Roster linter ────────────────────────────────────────────────────────────
+// The roster boxes only catch exact repeats within one box. The linter looks
+// across a division's boxes for the same person entered twice in different
+// ways: one name typed twice in a box with different case or spacing,
+// near-identical spellings, a bare first name next to a full one, a name in
+// both the Guys and Girls boxes, or a player in a pair who is also listed as
+// a free agent. Each issue comes with one-click fixes.
+
+export type LintKind = 'exact' | 'similar' | 'first-name' | 'both-boxes' | 'pair-and-free';
+
+export type LintFix = {
+  label: string;
+  apply: (state: TournamentState) => TournamentState;
+};
+
+export type LintIssue = {
+  // Stable across edits elsewhere on the roster, so a dismissal sticks.
+  id: string;
+  kind: LintKind;
+  message: string;
+  fixes: LintFix[];
+};
+
+type Box = { field: RosterField; label: string };
+
+const BOXES: Record<FormatKey, Box[]> = {
+  DOUBLES: [{ field: 'guysText', label: 'Guys' }, { field: 'girlsText', label: 'Girls' }],
+  QUADS: [{ field: 'guysText', label: 'Guys' }, { field: 'girlsText', label: 'Girls' }],
+  TRIPLES: [{ field: 'guysText', label: 'Guys' }, { field: 'girlsText', label: 'Girls' }],
+  KOB: [{ field: 'guysText', label: 'Men' }, { field: 'girlsText', label: 'Women' }],
+  MICKEY: [{ field: 'pairsText', label: 'Pairs' }, { field: 'freeAgentsText', label: 'Free Agents' }],
+  MICKEYBD: [{ field: 'pairsText', label: 'Pairs' }, { field: 'freeAgentsText', label: 'Free Agents' }],
+};
+
+// `spellings` holds every occurrence per box, as typed (markers stripped).
+type Listed = { key: string; name: string; boxes: Box[]; spellings: Map<Box, string[]> };
+
+// Levenshtein distance, stopping early once it's clearly over `max`.
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, cur[j]);
+    }
+    if (best > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed between two spellings of one name: one for short names, two
+// once there's a surname to absorb them.
+const similarityLimit = (a: string, b: string) => (Math.min(a.length, b.length) >= 8 ? 2 : 1);
+
+function withDivision(state: TournamentState, format: FormatKey, division: DivisionKey, fn: (div: any) => any): TournamentState {
+  const key = FORMAT_STATE_KEYS[format];
+  return { ...state, [key]: { ...state[key], [division]: fn(state[key][division]) } };
+}
+
+// Drop a player's lines from a one-name-per-line box.
+const removeFrom = (format: FormatKey, division: DivisionKey, box: Box, key: string) => (state: TournamentState) =>
+  withDivision(state, format, division, div => ({
+    ...div,
+    [box.field]: String(div[box.field] ?? '').split('\n').filter(line => playerKey(line) !== key).join('\n'),
+  }));
+
+// Merge two spellings everywhere (rounds and brackets included), keeping `keep`.
+const mergeInto = (from: string, keep: string) => (state: TournamentState) => renamePlayer(state, from, keep);
+
+export function lintRoster(state: TournamentState, format: FormatKey, division: DivisionKey): LintIssue[] {
+  const div = formatDivision(state, format, division);
+  const byKey = new Map<string, Listed>();
+  for (const box of BOXES[format]) {
+    for (const line of rosterText(div, box.field).split(/\r?\n/)) {
+      for (const token of lineTokens(box.field, line)) {
+        const key = playerKey(token);
+        if (!key) continue;
+        const name = stripGenderMarker(token).trim();
+        const listed: Listed = byKey.get(key) ?? { key, name, boxes: [], spellings: new Map() };
+        if (!listed.boxes.includes(box)) listed.boxes.push(box);
+        listed.spellings.set(box, [...(listed.spellings.get(box) ?? []), name]);
+        byKey.set(key, listed);
+      }
+    }
+  }
+  const listed = [...byKey.values()];
+  const issues: LintIssue[] = [];
+
+  // One person twice in the same box, spelled the same or differing only in
+  // case or spacing. Merging onto one spelling also drops the extra lines
+  // (pair lines stay, since the pairs themselves need sorting out).
+  for (const l of listed) {
+    for (const [box, names] of l.spellings) {
+      if (names.length < 2) continue;
+      const distinct = uniq(names);
+      issues.push({
+        id: `exact:${box.field}:${l.key}`,
+        kind: 'exact',
+        message: distinct.length > 1
+          ? `${distinct.map(n => `“${n}”`).join(' and ')} are the same name in ${box.label}.`
+          : `${l.name} is listed ${names.length} times in ${box.label}.`,
+        fixes: box.field === 'pairsText' ? [] : distinct.map(keep => ({
+          label: distinct.length > 1 ? `Same person: use ${keep}` : 'Remove the repeats',
+          apply: mergeInto(keep, keep),
+        })),
+      });
+    }
+  }
+
+  for (const l of listed) {
+    if (l.boxes.length < 2) continue;
+    if (format === 'MICKEY' || format === 'MICKEYBD') {
+      const free = BOXES[format][1];
+      issues.push({
+        id: `pair-and-free:${l.key}`,
+        kind: 'pair-and-free',
+        message: `${l.name} is in a pair and also listed as a free agent.`,
+        fixes: [{ label: 'Remove from Free Agents', apply: removeFrom(format, division, free, l.key) }],
+      });
+    } else {
+      issues.push({
+        id: `both-boxes:${l.key}`,
+        kind: 'both-boxes',
+        message: `${l.name} is listed under both ${l.boxes.map(b => b.label).join(' and ')}.`,
+        fixes: l.boxes.map(keep => ({
+          label: `Keep in ${keep.label}`,
+          apply: removeFrom(format, division, l.boxes.find(b => b !== keep)!, l.key),
+        })),
+      });
+    }
+  }
+
+  for (let i = 0; i < listed.length; i++) {
+    for (let j = i + 1; j < listed.length; j++) {
+      const [a, b] = [listed[i], listed[j]];
+      const id = (kind: LintKind) => `${kind}:${[a.key, b.key].sort().join('|')}`;
+      const sameOrBoth = [
+        { label: `Same person: use ${a.name}`, apply: mergeInto(b.name, a.name) },
+        { label: `Same person: use ${b.name}`, apply: mergeInto(a.name, b.name) },
+      ];
+      if (a.key.length >= 4 && b.key.length >= 4 && editDistance(a.key, b.key, 2) <= similarityLimit(a.key, b.key)) {
+        issues.push({ id: id('similar'), kind: 'similar', message: `${a.name} and ${b.name} look like the same name.`, fixes: sameOrBoth });
+        continue;
+      }
+      const fa = firstName(a.key), fb = firstName(b.key);
+      if (fa !== fb) continue;
+      // "Alex" next to "Alex Smith" is usually one person entered twice;
+      // two full names sharing a first name only read the same on team
+      // labels, which show first names.
+      const bare = a.key === fa ? a : b.key === fb ? b : null;
+      if (bare) {
+        const full = bare === a ? b : a;
+        issues.push({
+          id: id('first-name'),
+          kind: 'first-name',
+          message: `${bare.name} may be ${full.name}.`,
+          fixes: [{ label: `Same person: use ${full.name}`, apply: mergeInto(bare.name, full.name) }],
+        });
+      } else if (format === 'MICKEY' || format === 'MICKEYBD') {
+        issues.push({
+          id: id('first-name'),
+          kind: 'first-name',
+          message: `${a.name} and ${b.name} both show as “${firstName(a.name)}” on team labels.`,
+          fixes: [],
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+// ── Dismissals ───────────────────────────────────────────────────────────────
+// Issues an admin marked as "not a duplicate", per event, in this browser.
+
+const dismissedKey = (eventId: string) => `sunnysports.rosterLint:${eventId}`;
+
+export function loadDismissed(eventId: string): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(dismissedKey(eventId)) || '[]');
+    return Array.isArray(raw) ? raw.filter(x => typeof x === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveDismissed(eventId: string, ids: string[]) {
+  try {
+    localStorage.setItem(dismissedKey(eventId), JSON.stringify(ids));
+  } catch {}
+}
@@ -0,0 +1,291 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type {
+  DivisionState, MickeyBDDivisionState, MickeyDivisionState, ScoreSettings, TournamentState,
+} from './types.js';
+
+// ── Versioned tournament state ───────────────────────────────────────────────
+// Every save carries a schemaVersion. Older saves (localStorage autosaves,
+// server copies, history entries) are upgraded one step at a time by
+// MIGRATIONS, then checked by validateState before the app or the API trusts
+// them. To change the saved shape, append a migration (the version number
+// follows from the list) and update TournamentState / validateState to match.
+
+export function emptyDivisionState<TMatch>(): DivisionState<TMatch> {
+  return { guysText: "", girlsText: "", matches: [], brackets: [] };
+}
+
+export function emptyMickeyState(): MickeyDivisionState {
+  return {
+    pairsText: "", freeAgentsText: "", teams: [], matches: [], brackets: [],
+    courtCount: 1, firstFormat: 'MICKEY', matchFormat: 'ALTERNATING',
+  };
+}
+
+export function emptyMickeyBDState(): MickeyBDDivisionState {
+  return { pairsText: "", freeAgentsText: "", rounds: [], brackets: [], courtCount: 1 };
+}
+
+type ScoreSettingsKey = 'dScoreSettings' | 'qScoreSettings' | 'tScoreSettings' | 'kobScoreSettings' | 'mScoreSettings' | 'mbdScoreSettings';
+
+const DEFAULT_SCORE_SETTINGS: Record<ScoreSettingsKey, ScoreSettings> = {
+  dScoreSettings: { playTo: 21, cap: null },
+  qScoreSettings: { playTo: 21, cap: 25 },
+  tScoreSettings: { playTo: 21, cap: null },
+  kobScoreSettings: { playTo: 21, cap: 23 },
+  mScoreSettings: { playTo: 21, cap: null },
+  mbdScoreSettings: { playTo: 21, cap: null },
+};
+
+const DIVISION_FACTORIES: Record<string, () => object> = {
+  doubles: emptyDivisionState,
+  quads: emptyDivisionState,
+  triples: emptyDivisionState,
+  kob: emptyDivisionState,
+  mickey: emptyMickeyState,
+  mickeyBD: emptyMickeyBDState,
+};
+
+const defaultScoreSettings = () => Object.fromEntries(
+  Object.entries(DEFAULT_SCORE_SETTINGS).map(([key, settings]) => [key, { ...settings }]),
+) as Record<ScoreSettingsKey, ScoreSettings>;
+
+export function emptyTournamentState(): TournamentState {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    activeTab: 'DOUBLES',
+    activeDivision: 'UPPER',
+    doubles: { UPPER: emptyDivisionState(), LOWER: emptyDivisionState() },
+    quads: { UPPER: emptyDivisionState(), LOWER: emptyDivisionState() },
+    triples: { UPPER: emptyDivisionState(), LOWER: emptyDivisionState() },
+    kob: { UPPER: emptyDivisionState(), LOWER: emptyDivisionState() },
+    mickey: { UPPER: emptyMickeyState(), LOWER: emptyMickeyState() },
+    mickeyBD: { UPPER: emptyMickeyBDState(), LOWER: emptyMickeyBDState() },
+    players: [],
+    ...defaultScoreSettings(),
+  };
+}
+
+// ── Migrations ───────────────────────────────────────────────────────────────
+// MIGRATIONS[n] upgrades a version-n save to version n+1. Saves from before
+// versioning have no schemaVersion and count as version 0.
+
+const arr = (v: unknown): any[] => (Array.isArray(v) ? v : []);
+const str = (v: unknown): string => (typeof v === 'string' ? v : "");
+
+// The single-division app kept Doubles, Quads and Triples as flat top-level
+// fields, and later saves mirrored the UPPER division back into them. Move
+// them into the nested layout (unless a nested copy already exists) and drop
+// the mirrors.
+const LEGACY_FLAT_FIELDS: Record<string, [string, string, string, string]> = {
+  doubles: ['guysText', 'girlsText', 'matches', 'brackets'],
+  quads: ['qGuysText', 'qGirlsText', 'qMatches', 'qBrackets'],
+  triples: ['tGuysText', 'tGirlsText', 'tMatches', 'tBrackets'],
+};
+
+function liftLegacyFields(old: any): any {
+  const next: any = { ...old };
+  for (const [key, [guys, girls, matches, brackets]] of Object.entries(LEGACY_FLAT_FIELDS)) {
+    if (!next[key]?.UPPER) {
+      next[key] = {
+        ...next[key],
+        UPPER: { guysText: str(old[guys]), girlsText: str(old[girls]), matches: arr(old[matches]), brackets: arr(old[brackets]) },
+      };
+    }
+    delete next[guys]; delete next[girls]; delete next[matches]; delete next[brackets];
+  }
+  // Quads used to have a single cap toggle before per-format score settings.
+  if (!next.qScoreSettings && (old.qScoreCap === 21 || old.qScoreCap === 25)) {
+    next.qScoreSettings = { playTo: 21, cap: old.qScoreCap };
+  }
+  delete next.qScoreCap;
+  return next;
+}
+
+// Formats added over time (KOB, Mickey, blind-draw Mickey, LOWER divisions,
+// score settings) are simply missing from older saves. Fill every gap with
+// the empty defaults; blind-draw divisions also merge field by field since
+// early versions saved them without `brackets`.
+function fillMissingFormats(old: any): any {
+  const next: any = { ...old };
+  for (const [key, empty] of Object.entries(DIVISION_FACTORIES)) {
+    const byDiv = next[key] ?? {};
+    next[key] = {
+      UPPER: key === 'mickeyBD' ? { ...empty(), ...byDiv.UPPER } : byDiv.UPPER ?? empty(),
+      LOWER: key === 'mickeyBD' ? { ...empty(), ...byDiv.LOWER } : byDiv.LOWER ?? empty(),
+    };
+  }
+  for (const [key, settings] of Object.entries(DEFAULT_SCORE_SETTINGS)) {
+    if (!next[key]) next[key] = { ...settings };
+  }
+  if (!next.activeTab) next.activeTab = 'DOUBLES';
+  if (!next.activeDivision) next.activeDivision = 'UPPER';
+  return next;
+}
+
+// The player registry started out as whoever was on the rosters at the time:
+// one record per name (ignoring case, spacing and markers), with the gender
+// and skill the first marker or box gave it. Kept as it was written, not
+// shared with players.ts, so later changes to how the registry syncs can't
+// change what this step produces for a version-2 save.
+const SEED_ROSTER_BOXES: [string, string, 'M' | 'F' | null][] = [
+  ...['doubles', 'quads', 'triples', 'kob'].flatMap(key => [
+    [key, 'guysText', 'M'], [key, 'girlsText', 'F'],
+  ] as [string, string, 'M' | 'F' | null][]),
+  ...['mickey', 'mickeyBD'].flatMap(key => [
+    [key, 'pairsText', null], [key, 'freeAgentsText', null],
+  ] as [string, string, 'M' | 'F' | null][]),
+];
+const SEED_MARKER_RE = /\s*\(\s*([MmFf])\s*([1-5])?\s*\)\s*$/;
+const SEED_PAIR_SEPARATOR = /\band\b|[&/+,]/i;
+
+function seedPlayerRegistry(old: any): any {
+  const players: any[] = [];
+  const byKey = new Map<string, any>();
+  const ids = new Set<string>();
+  for (const [key, field, boxGender] of SEED_ROSTER_BOXES) {
+    for (const division of ['UPPER', 'LOWER']) {
+      for (const line of str(old[key]?.[division]?.[field]).split(/\r?\n/)) {
+        for (const token of field === 'pairsText' ? line.split(SEED_PAIR_SEPARATOR) : [line]) {
+          const marker = token.trim().match(SEED_MARKER_RE);
+          const name = token.replace(SEED_MARKER_RE, '').trim();
+          if (!name) continue;
+          const gender = marker ? marker[1].toUpperCase() : boxGender;
+          const skill = marker?.[2] ? parseInt(marker[2], 10) : undefined;
+          const nameKey = name.toLowerCase().replace(/\s+/g, ' ');
+          const seen = byKey.get(nameKey);
+          if (seen) {
+            if (!seen.gender && gender) seen.gender = gender;
+            if (!seen.skill && skill) seen.skill = skill;
+            continue;
+          }
+          const base = `p-${nameKey.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'player'}`;
+          let id = base;
+          for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+          ids.add(id);
+          const record = { id, name, ...(gender ? { gender } : {}), ...(skill ? { skill } : {}) };
+          byKey.set(nameKey, record);
+          players.push(record);
+        }
+      }
+    }
+  }
+  return { ...old, players };
+}
+
+const MIGRATIONS: ((old: any) => any)[] = [
+  liftLegacyFields,   // 0 → 1
+  fillMissingFormats, // 1 → 2
+  seedPlayerRegistry, // 2 → 3
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length;
+
+// Upgrade any saved state to the current version. Throws for a save written
+// by a newer build, which this one can't safely read or overwrite.
+export function migrateState(raw: any): any {
+  let state: any = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  let version = typeof state.schemaVersion === 'number' ? state.schemaVersion : 0;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved data is schema version ${version}, newer than this app supports (${CURRENT_SCHEMA_VERSION}). Reload to update.`);
+  }
+  for (; version < CURRENT_SCHEMA_VERSION; version++) {
+    state = MIGRATIONS[version](state);
+  }
+  return { ...state, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+// Checks the shape every view relies on (lists are lists, ids are strings,
+// roster text is text) without re-checking each match field. Returns a list
+// of problems as paths, empty when the state is usable.
+
+const isObj = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+function checkList(errors: string[], path: string, v: unknown) {
+  if (!Array.isArray(v)) { errors.push(`${path}: expected a list`); return; }
+  v.forEach((item, i) => {
+    if (!isObj(item) || typeof item.id !== 'string') errors.push(`${path}[${i}]: expected an object with a string id`);
+  });
+}
+
+function checkText(errors: string[], path: string, v: unknown) {
+  if (typeof v !== 'string') errors.push(`${path}: expected text`);
+}
+
+function checkDivision(errors: string[], path: string, div: any, key: string) {
+  if (!isObj(div)) { errors.push(`${path}: missing`); return; }
+  if (key === 'mickey' || key === 'mickeyBD') {
+    checkText(errors, `${path}.pairsText`, div.pairsText);
+    checkText(errors, `${path}.freeAgentsText`, div.freeAgentsText);
+  } else {
+    checkText(errors, `${path}.guysText`, div.guysText);
+    checkText(errors, `${path}.girlsText`, div.girlsText);
+  }
+  checkList(errors, `${path}.brackets`, div.brackets);
+  if (key === 'mickeyBD') {
+    checkList(errors, `${path}.rounds`, div.rounds);
+    arr(div.rounds).forEach((r: any, i: number) => {
+      if (!isObj(r)) return;
+      checkList(errors, `${path}.rounds[${i}].teams`, r.teams);
+      checkList(errors, `${path}.rounds[${i}].matches`, r.matches);
+    });
+  } else {
+    checkList(errors, `${path}.matches`, div.matches);
+    if (key === 'mickey') checkList(errors, `${path}.teams`, div.teams);
+  }
+  if (div.courtCount !== undefined && !(Number.isInteger(div.courtCount) && div.courtCount > 0)) {
+    errors.push(`${path}.courtCount: expected a positive whole number`);
+  }
+  if (div.catchUp !== undefined && div.catchUp !== 'PRIORITY' && div.catchUp !== 'PER_GAME') {
+    errors.push(`${path}.catchUp: expected PRIORITY or PER_GAME`);
+  }
+  if (div.scheduleDate !== undefined && (typeof div.scheduleDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(div.scheduleDate))) {
+    errors.push(`${path}.scheduleDate: expected a YYYY-MM-DD date`);
+  }
+}
+
+export function validateState(state: any): string[] {
+  const errors: string[] = [];
+  if (!isObj(state)) return ['state: expected an object'];
+  if (state.schemaVersion !== CURRENT_SCHEMA_VERSION) errors.push(`schemaVersion: expected ${CURRENT_SCHEMA_VERSION}`);
+  if (!['DOUBLES', 'QUADS', 'TRIPLES', 'KOB', 'MICKEY', 'MICKEYBD'].includes(state.activeTab)) errors.push('activeTab: unknown format');
+  if (state.activeDivision !== 'UPPER' && state.activeDivision !== 'LOWER') errors.push('activeDivision: expected UPPER or LOWER');
+  for (const key of Object.keys(DIVISION_FACTORIES)) {
+    if (!isObj(state[key])) { errors.push(`${key}: missing`); continue; }
+    checkDivision(errors, `${key}.UPPER`, state[key].UPPER, key);
+    checkDivision(errors, `${key}.LOWER`, state[key].LOWER, key);
+  }
+  checkList(errors, 'players', state.players);
+  arr(state.players).forEach((p: any, i: number) => {
+    if (!isObj(p)) return;
+    checkText(errors, `players[${i}].name`, p.name);
+    for (const field of ['arrivesRound', 'leavesAfterRound']) {
+      if (p[field] !== undefined && !(Number.isInteger(p[field]) && p[field] > 0)) {
+        errors.push(`players[${i}].${field}: expected a positive whole number`);
+      }
+    }
+  });
+  for (const key of Object.keys(DEFAULT_SCORE_SETTINGS)) {
+    const s = state[key];
+    if (!isObj(s) || typeof s.playTo !== 'number' || !(s.cap === null || typeof s.cap === 'number')) {
+      errors.push(`${key}: expected { playTo, cap }`);
+    }
+  }
+  return errors;
+}
+
+export type ParsedState = { ok: true; state: TournamentState } | { ok: false; errors: string[] };
+
+// Migrate then validate untrusted data (a server response, a POST body, a
+// localStorage autosave).
+export function parseTournamentState(raw: unknown): ParsedState {
+  if (!isObj(raw)) return { ok: false, errors: ['state: expected an object'] };
+  let state: any;
+  try {
+    state = migrateState(raw);
+  } catch (e: any) {
+    return { ok: false, errors: [e?.message || 'Unreadable saved data'] };
+  }
+  const errors = validateState(state);
+  return errors.length ? { ok: false, errors } : { ok: true, state };
+}
@@ -0,0 +1,167 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { BracketMatch, TournamentState } from './types.js';
+import { mickeyGamesWinner } from './utils.js';
+
+// ── Granular score patches ───────────────────────────────────────────────────
+// A single score edit addressed by format, division and match id. The server
+// applies these to the stored state so court-side scorers never have to
+// re-post rosters or brackets just to record one game.
+
+export type ScoreFormat = 'DOUBLES' | 'QUADS' | 'TRIPLES' | 'KOB' | 'MICKEY' | 'MICKEYBD';
+export type ScoreDivision = 'UPPER' | 'LOWER';
+
+type PatchBase = { format: ScoreFormat; division: ScoreDivision; matchId: string };
+
+// The field names don't overlap between shapes, so the field alone says
+// which kind of match is being patched:
+// - scoreText:                 MatchRow, QuadsMatchRow, TriplesMatchRow, KobGameRow
+// - mickeyScore / minnieScore: MickeyMatchRow (pool play, both M&M formats)
+// - score / games:             BracketMatch (any format's playoff bracket)
+export type ScorePatch = PatchBase & (
+  | { field: 'scoreText'; value: string }
+  | { field: 'mickeyScore' | 'minnieScore'; value: string }
+  | { field: 'score'; value: string }
+  | { field: 'games'; value: string[] }
+);
+
+// Where each format lives in the saved state.
+export const FORMAT_STATE_KEYS = {
+  DOUBLES: 'doubles',
+  QUADS: 'quads',
+  TRIPLES: 'triples',
+  KOB: 'kob',
+  MICKEY: 'mickey',
+  MICKEYBD: 'mickeyBD',
+} as const satisfies { [F in ScoreFormat]: keyof TournamentState };
+
+export type FormatStateKey = (typeof FORMAT_STATE_KEYS)[ScoreFormat];
+export type FormatDivisionState<F extends ScoreFormat = ScoreFormat> =
+  TournamentState[(typeof FORMAT_STATE_KEYS)[F]][ScoreDivision];
+
+export const SCORE_FORMATS = Object.keys(FORMAT_STATE_KEYS) as ScoreFormat[];
+
+// One format's division as saved; undefined when a partial or older state
+// doesn't have it.
+export function formatDivision<F extends ScoreFormat>(
+  state: Partial<TournamentState> | null | undefined,
+  format: F,
+  division: ScoreDivision,
+): FormatDivisionState<F> | undefined {
+  const byDivision: Partial<Record<ScoreDivision, FormatDivisionState<F>>> | undefined = state?.[FORMAT_STATE_KEYS[format]];
+  return byDivision?.[division];
+}
+
+const isStr = (v: unknown): v is string => typeof v === 'string';
+
+// Validate an untrusted request body. Returns null if it isn't a patch this
+// format can accept (e.g. a mickeyScore for a Doubles match).
+export function parseScorePatch(raw: any): ScorePatch | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { format, division, matchId, field, value } = raw;
+  if (!Object.prototype.hasOwnProperty.call(FORMAT_STATE_KEYS, format)) return null;
+  if (division !== 'UPPER' && division !== 'LOWER') return null;
+  if (!isStr(matchId) || !matchId) return null;
+  const mickey = format === 'MICKEY' || format === 'MICKEYBD';
+  switch (field) {
+    case 'scoreText':
+      return !mickey && isStr(value) ? { format, division, matchId, field, value } : null;
+    case 'mickeyScore':
+    case 'minnieScore':
+      return mickey && isStr(value) ? { format, division, matchId, field, value } : null;
+    case 'score':
+      return isStr(value) ? { format, division, matchId, field, value } : null;
+    case 'games':
+      return Array.isArray(value) && value.every(isStr) ? { format, division, matchId, field, value } : null;
+    default:
+      return null;
+  }
+}
+
+// Lenient "a-b" parse used by the standard brackets (accepts en dash too).
+export function parseScoreLoose(s?: string): [number, number] | null {
+  if (!s) return null;
+  const txt = String(s).trim();
+  const sep = txt.includes('–') ? '–' : '-';
+  const parts = txt.split(sep).map(p => p.trim());
+  if (parts.length !== 2) return null;
+  const a = parseInt(parts[0], 10), b = parseInt(parts[1], 10);
+  return (isFinite(a) && isFinite(b)) ? [a, b] : null;
+}
+
+// Push the winner (and loser, for Redemption Rally feeds) of `m` into the
+// matches they advance to. `byId` must map ids to mutable copies.
+export function advanceBracketWinner(
+  byId: Map<string, BracketMatch>,
+  m: BracketMatch,
+  winnerSide: 'team1' | 'team2' | null,
+) {
+  if (!winnerSide) return;
+  const winner = winnerSide === 'team1' ? m.team1 : m.team2;
+  const loser = winnerSide === 'team1' ? m.team2 : m.team1;
+  if (winner && m.nextId && m.nextSide) {
+    const p = byId.get(m.nextId);
+    if (p) { if (m.nextSide === 'team1') p.team1 = winner; else p.team2 = winner; }
+  }
+  if (loser && m.loserNextId && m.loserNextSide) {
+    const q = byId.get(m.loserNextId);
+    if (q) { if (m.loserNextSide === 'team1') q.team1 = loser; else q.team2 = loser; }
+  }
+}
+
+function standardBracketWinner(score?: string): 'team1' | 'team2' | null {
+  const parsed = parseScoreLoose(score);
+  if (!parsed || parsed[0] === parsed[1]) return null;
+  return parsed[0] > parsed[1] ? 'team1' : 'team2';
+}
+
+// Which side won a playoff match so far: Mickey & Minnie brackets go by
+// games won, every other bracket by its single score.
+export function bracketMatchWinner(m: BracketMatch, mickey: boolean): 'team1' | 'team2' | null {
+  return mickey ? mickeyGamesWinner(m.games, m.score) : standardBracketWinner(m.score);
+}
+
+function patchBrackets(brackets: BracketMatch[], patch: ScorePatch, mickey: boolean): BracketMatch[] | null {
+  const copy = brackets.map(x => ({ ...x, games: x.games ? [...x.games] : x.games }));
+  const byId = new Map(copy.map(m => [m.id, m] as const));
+  const m = byId.get(patch.matchId);
+  if (!m) return null;
+  if (patch.field === 'games') m.games = [...patch.value];
+  else if (patch.field === 'score') m.score = patch.value;
+  else return null;
+  advanceBracketWinner(byId, m, bracketMatchWinner(m, mickey));
+  return copy;
+}
+
+function patchRows<T extends { id: string }>(rows: T[], patch: ScorePatch): T[] | null {
+  if (!rows.some(r => r.id === patch.matchId)) return null;
+  return rows.map(r => (r.id === patch.matchId ? { ...r, [patch.field]: patch.value } : r));
+}
+
+// Apply a patch to a full tournament state, returning a new state, or null
+// if the addressed match doesn't exist.
+export function applyScorePatch(state: any, patch: ScorePatch): any | null {
+  const key = FORMAT_STATE_KEYS[patch.format];
+  const div = state?.[key]?.[patch.division];
+  if (!div) return null;
+  const mickey = patch.format === 'MICKEY' || patch.format === 'MICKEYBD';
+  let nextDiv: any = null;
+
+  if (patch.field === 'score' || patch.field === 'games') {
+    const brackets = patchBrackets(div.brackets ?? [], patch, mickey);
+    if (brackets) nextDiv = { ...div, brackets };
+  } else if (patch.format === 'MICKEYBD') {
+    const rounds = div.rounds ?? [];
+    const idx = rounds.findIndex((r: any) => (r.matches ?? []).some((m: any) => m.id === patch.matchId));
+    if (idx >= 0) {
+      const nextRounds = rounds.slice();
+      nextRounds[idx] = { ...rounds[idx], matches: patchRows(rounds[idx].matches, patch) };
+      nextDiv = { ...div, rounds: nextRounds };
+    }
+  } else {
+    const matches = patchRows(div.matches ?? [], patch);
+    if (matches) nextDiv = { ...div, matches };
+  }
+  if (!nextDiv) return null;
+
+  return { ...state, [key]: { ...state[key], [patch.division]: nextDiv } };
+}
@@ -0,0 +1,192 @@
+import type {
+  BracketMatch, DivisionKey, FormatKey, KobGameRow, MatchRow, MickeyTeam, QuadsMatchRow, ScoreSettings, Team, TriplesMatchRow,
+} from './types';
+import { FORMAT_LABELS } from './stateDiff';
+import { escapeHtml as esc, printHtml } from './print';
+
+// ── Printable court scoresheets ──────────────────────────────────────────────
+// One page per match for a round: the court, who plays, who sits, the scoring
+// rule and a running-score grid the ref strikes through point by point. The
+// sheets open in a new window and go straight to the browser's print dialog.
+
+export type SheetSide = { label: string; players: string[] };
+// `rule` is null when the app doesn't know it (plain playoff brackets); the
+// sheet then leaves blanks for the ref to fill in.
+export type SheetSet = { label: string; rule: ScoreSettings | null };
+
+export type Scoresheet = {
+  court: number | null;
+  detail?: string;
+  team1: SheetSide;
+  team2: SheetSide;
+  sets: SheetSet[];
+  sitOuts: string[];
+  ref?: string | null;
+};
+
+const TAG_LABELS: Record<string, string> = { ULTIMATE_REVCO: 'Ultimate Revco', POWER_PUFF: 'Power Puff' };
+
+export const sheetTitle = (format: FormatKey, division: DivisionKey | undefined, what: string) =>
+  [FORMAT_LABELS[format], division, what].filter(Boolean).join(' · ');
+
+export function ruleText(rule: ScoreSettings | null): string {
+  if (!rule) return 'Play to ____ · cap ____';
+  return rule.cap === null
+    ? `Play to ${rule.playTo}, win by 2, no cap`
+    : `Play to ${rule.playTo}, win by 2, cap at ${rule.cap}`;
+}
+
+// Enough boxes to reach the cap, or a few deuce rallies past play-to without one.
+const gridLength = (rule: ScoreSettings | null) => (rule ? rule.cap ?? rule.playTo + 6 : 30);
+
+const byCourt = <T extends { court?: number }>(a: T, b: T) => (a.court ?? 0) - (b.court ?? 0);
+
+// Sit-outs are stored on some of a round's matches only; every sheet lists them all.
+const roundSitOuts = (matches: { sitOuts?: string[] }[]) => [...new Set(matches.flatMap(m => m.sitOuts ?? []))];
+
+const oneGame = (settings: ScoreSettings): SheetSet[] => [{ label: 'Game', rule: settings }];
+
+const tagged = (label: string, tag?: string | null) => (tag ? `${label} — ${TAG_LABELS[tag] ?? tag}` : label);
+
+export function doublesSheets(matches: MatchRow[], settings: ScoreSettings): Scoresheet[] {
+  const sitOuts = roundSitOuts(matches);
+  return [...matches].sort(byCourt).map(m => ({
+    court: m.court,
+    detail: m.tag ? TAG_LABELS[m.tag] : undefined,
+    team1: { label: 'Team 1', players: [m.t1p1, m.t1p2] },
+    team2: { label: 'Team 2', players: [m.t2p1, m.t2p2] },
+    sets: oneGame(settings),
+    sitOuts,
+  }));
+}
+
+export function quadsSheets(matches: QuadsMatchRow[], settings: ScoreSettings): Scoresheet[] {
+  const sitOuts = roundSitOuts(matches);
+  return [...matches].sort(byCourt).map(m => ({
+    court: m.court,
+    team1: { label: tagged(m.isTriple1 ? 'Team 1 (triple)' : 'Team 1', m.tag1), players: m.t1 },
+    team2: { label: tagged(m.isTriple2 ? 'Team 2 (triple)' : 'Team 2', m.tag2), players: m.t2 },
+    sets: oneGame(settings),
+    sitOuts,
+  }));
+}
+
+export function triplesSheets(matches: TriplesMatchRow[], settings: ScoreSettings): Scoresheet[] {
+  const sitOuts = roundSitOuts(matches);
+  return [...matches].sort(byCourt).map(m => ({
+    court: m.court,
+    team1: { label: 'Team 1', players: m.t1 },
+    team2: { label: 'Team 2', players: m.t2 },
+    sets: oneGame(settings),
+    sitOuts,
+  }));
+}
+
+// A KOB pool shares one court, so its games print one after another.
+export function kobSheets(games: KobGameRow[], settings: ScoreSettings): Scoresheet[] {
+  return [...games].sort((a, b) => a.game - b.game).map(g => ({
+    court: g.court ?? null,
+    detail: `Game ${g.game}`,
+    team1: { label: 'Team 1', players: [...g.t1] },
+    team2: { label: 'Team 2', players: [...g.t2] },
+    sets: oneGame(settings),
+    sitOuts: g.sitOut == null ? [] : ([] as string[]).concat(g.sitOut),
+  }));
+}
+
+// Mickey & Minnie matchups play one set in the chosen format, or both for
+// matches made before formats alternated between meetings.
+export function mickeySets(format: 'MICKEY' | 'MINNIE' | undefined, settings: ScoreSettings): SheetSet[] {
+  const mickey = { label: 'Mickey (coed)', rule: settings };
+  const minnie = { label: 'Minnie (revco)', rule: settings };
+  return format === 'MICKEY' ? [mickey] : format === 'MINNIE' ? [minnie] : [mickey, minnie];
+}
+
+export const mickeySide = (team: MickeyTeam | undefined): SheetSide =>
+  team ? { label: team.name, players: team.players } : { label: '(deleted team)', players: [] };
+
+const bracketSide = (t: Team | undefined): SheetSide =>
+  t ? { label: `#${t.seed} ${t.name}`, players: t.members } : { label: 'TBD', players: [] };
+
+// Skips BYEs; matches still waiting on a feeder print with TBD sides.
+export function bracketSheets(matches: BracketMatch[], setsFor: (m: BracketMatch) => SheetSet[]): Scoresheet[] {
+  return matches
+    .filter(m => m.score !== 'BYE' && (m.team1 || m.team2 || m.team1SourceId || m.team2SourceId))
+    .sort((a, b) => a.slot - b.slot)
+    .map(m => ({
+      court: m.court ?? null,
+      detail: [m.redemption ? 'Redemption Rally' : null, `Game ${m.slot}`].filter(Boolean).join(' · '),
+      team1: bracketSide(m.team1),
+      team2: bracketSide(m.team2),
+      sets: setsFor(m),
+      sitOuts: [],
+    }));
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+function sideHtml(side: SheetSide): string {
+  const players = side.players.filter(p => p.trim());
+  return `<td><div class="label">${esc(side.label)}</div>${players.length ? `<div>${players.map(esc).join(' · ')}</div>` : ''}</td>`;
+}
+
+function setHtml(set: SheetSet, sheet: Scoresheet): string {
+  const n = gridLength(set.rule);
+  const cells = Array.from({ length: n }, (_, i) => `<td>${i + 1}</td>`).join('');
+  const row = (side: SheetSide) => `<tr><th>${esc(side.label)}</th>${cells}<td class="final"></td></tr>`;
+  return `
+    <h2>${esc(set.label)} <span>${esc(ruleText(set.rule))}</span></h2>
+    <table class="grid">
+      <tr><th></th><td colspan="${n}" class="hint">Strike through each point as it's scored</td><td class="final">Final</td></tr>
+      ${row(sheet.team1)}${row(sheet.team2)}
+    </table>`;
+}
+
+function sheetHtml(title: string, sheet: Scoresheet): string {
+  return `
+  <section class="sheet">
+    <header>
+      <div>
+        <h1>${esc(title)}</h1>
+        ${sheet.detail ? `<div class="detail">${esc(sheet.detail)}</div>` : ''}
+      </div>
+      <div class="court">${sheet.court !== null ? `Court ${sheet.court}` : 'Court ____'}</div>
+    </header>
+    <table class="teams"><tr>${sideHtml(sheet.team1)}<td class="vs">vs</td>${sideHtml(sheet.team2)}</tr></table>
+    ${sheet.sitOuts.length ? `<p><b>Sitting out:</b> ${sheet.sitOuts.map(esc).join(', ')}</p>` : ''}
+    <p><b>Ref:</b> ${sheet.ref ? esc(sheet.ref) : '______________________'}</p>
+    ${sheet.sets.map(s => setHtml(s, sheet)).join('')}
+    <p class="sign">Winner ______________________ &nbsp; Ref initials ________</p>
+  </section>`;
+}
+
+const STYLES = `
+  @page { size: letter landscape; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 0; }
+  .sheet { page-break-after: always; break-after: page; padding: 4mm 0; }
+  .sheet:last-child { page-break-after: auto; break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #0f172a; padding-bottom: 4px; }
+  h1 { font-size: 18px; margin: 0; }
+  .detail { font-size: 13px; color: #475569; }
+  .court { font-size: 28px; font-weight: 700; }
+  .teams { width: 100%; margin: 10px 0; border-collapse: collapse; font-size: 15px; }
+  .teams td { vertical-align: top; width: 45%; }
+  .teams td.vs { width: 10%; text-align: center; color: #64748b; }
+  .label { font-weight: 700; }
+  p { margin: 6px 0; font-size: 13px; }
+  h2 { font-size: 15px; margin: 14px 0 4px; }
+  h2 span { font-weight: 400; font-size: 12px; color: #475569; margin-left: 8px; }
+  .grid { width: 100%; border-collapse: collapse; table-layout: fixed; font-size: 10px; }
+  .grid th { width: 110px; text-align: left; font-size: 11px; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; padding-right: 4px; }
+  .grid td { border: 1px solid #94a3b8; height: 24px; text-align: center; color: #94a3b8; }
+  .grid td.hint { border: none; height: auto; text-align: left; font-size: 10px; }
+  .grid td.final { width: 48px; color: #0f172a; font-weight: 700; }
+  .sign { margin-top: 14px; }
+`;
+
+/** Open `sheets` in a print-ready window titled `title`. */
+export function printScoresheets(title: string, sheets: Scoresheet[]) {
+  if (!sheets.length) return;
+  printHtml(title, sheets.map(s => sheetHtml(title, s)).join(''), STYLES);
+}
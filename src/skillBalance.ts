@@ -0,0 +1,71 @@
+import { DEFAULT_SKILL, parseGenderedName, uniq } from './utils';
+import { playerKey } from './players';
+import { withRatedSkill, type RatingTable } from './ratings';
+
+// ── Skill balance for the blind draws ────────────────────────────────────────
+// Doubles, Quads and Triples roster lines take the same (M3)/(F4) markers as
+// Mickey & Minnie. The box a name sits in still decides gender; the marker
+// only carries skill, and rounds are drawn on the bare names. Each generator
+// adds a penalty for the gap between the two sides' total skill, weighed
+// against its repeat-partner and repeat-opponent penalties.
+
+// Keyed by playerKey(name).
+export type SkillMap = Map<string, number>;
+
+// Penalty per skill point of gap between the two sides of a match: a
+// two-point gap costs as much as one repeat opponent.
+export const BALANCE_WEIGHT = 50;
+
+// Bare names from a one-name-per-line roster box, markers stripped.
+export const rosterNames = (text: string) =>
+  uniq((text || '').split(/\r?\n/).map(s => parseGenderedName(s).name).filter(Boolean));
+
+// Skill per player across the given boxes: the roster marker, or the
+// player's rating when a table is passed and they have a trusted one.
+export function rosterSkills(texts: string[], table?: RatingTable | null): SkillMap {
+  const skills: SkillMap = new Map();
+  for (const text of texts) {
+    for (const line of (text || '').split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const m = withRatedSkill(table, parseGenderedName(line));
+      skills.set(playerKey(m.name), m.skill);
+    }
+  }
+  return skills;
+}
+
+export const skillOf = (skills: SkillMap, name: string) => skills.get(playerKey(name)) ?? DEFAULT_SKILL;
+
+export const teamSkill = (skills: SkillMap, names: string[]) =>
+  names.filter(Boolean).reduce((n, name) => n + skillOf(skills, name), 0);
+
+export const skillGap = (skills: SkillMap, a: string[], b: string[]) =>
+  Math.abs(teamSkill(skills, a) - teamSkill(skills, b));
+
+// Whether any player differs from the default, i.e. balancing has anything
+// to work with.
+export const hasSkillSpread = (skills: SkillMap) => [...skills.values()].some(s => s !== DEFAULT_SKILL);
+
+export type RoundBalance = { round: number; matches: number; avgGap: number; worstGap: number };
+
+// Per-round gap between the sides of each match, for the generators'
+// "Balance" readout.
+export function roundBalance(
+  rows: { round: number; sides: [string[], string[]] }[],
+  skills: SkillMap,
+): RoundBalance[] {
+  const byRound = new Map<number, number[]>();
+  for (const r of rows) {
+    const gaps = byRound.get(r.round) ?? [];
+    gaps.push(skillGap(skills, r.sides[0], r.sides[1]));
+    byRound.set(r.round, gaps);
+  }
+  return [...byRound.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([round, gaps]) => ({
+      round,
+      matches: gaps.length,
+      avgGap: gaps.reduce((n, g) => n + g, 0) / gaps.length,
+      worstGap: Math.max(...gaps),
+    }));
+}
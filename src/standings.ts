@@ -0,0 +1,339 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import type { CatchUpPolicy, KobGameRow, MatchRow, MickeyBDRound, MickeyMatchRow, MickeyTeam, PlayerStats, QuadsMatchRow, TriplesMatchRow } from './types.js';
+import {
+  slug, uniq, stripGenderMarker, parseScore, isScoredGame, computeStandings, computeMickeyTeamStats, mickeyTeamLabel,
+  parseMickeyPairsGendered, parseMickeyFreeGendered,
+} from './utils.js';
+
+// ── Standings ────────────────────────────────────────────────────────────────
+// The per-format standings the leaderboards and playoff builders show, kept
+// free of React so /api/standings serves exactly the same numbers.
+
+export type StandingRow = { name: string; W: number; L: number; PD: number };
+
+const rosterList = (text: string) =>
+  Array.from(new Set((text || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)));
+
+// Doubles, Quads and Triples draw on bare names, so a roster line's skill
+// marker (and one left on an older round) mustn't split a player in two.
+const drawRosterList = (text: string) => uniq(rosterList(text).map(stripGenderMarker));
+
+const sortRows = <T extends StandingRow>(arr: T[]) =>
+  arr.sort((x, y) => y.W - x.W || y.PD - x.PD || x.name.localeCompare(y.name));
+
+// What a Doubles / Quads / Triples row ranks on: totals, or wins and point
+// differential per game when the division ranks late arrivals per game.
+export function rankStats(r: Pick<StandingRow, 'W' | 'L' | 'PD'>, catchUp?: CatchUpPolicy): { W: number; PD: number } {
+  if (catchUp !== 'PER_GAME') return { W: r.W, PD: r.PD };
+  const games = r.W + r.L;
+  return games ? { W: r.W / games, PD: r.PD / games } : { W: 0, PD: 0 };
+}
+
+const rankRows = <T extends StandingRow>(arr: T[], catchUp?: CatchUpPolicy) => {
+  if (catchUp !== 'PER_GAME') return sortRows(arr);
+  const stats = new Map(arr.map(r => [r, rankStats(r, catchUp)] as const));
+  return arr.sort((x, y) => {
+    const a = stats.get(x)!, b = stats.get(y)!;
+    return b.W - a.W || b.PD - a.PD || x.name.localeCompare(y.name);
+  });
+};
+
+// ── Doubles ──────────────────────────────────────────────────────────────────
+export function computeDoublesStandings(matches: MatchRow[], guysText: string, girlsText: string, catchUp?: CatchUpPolicy) {
+  const guysList = drawRosterList(guysText);
+  const girlsList = drawRosterList(girlsText);
+  const guysSet = new Set(guysList.map(slug));
+  const girlsSet = new Set(girlsList.map(slug));
+  const g = new Map<string, StandingRow>(), h = new Map<string, StandingRow>();
+  const ensure = (map: Map<string, StandingRow>, n: string) => {
+    if (!map.has(n)) map.set(n, { name: n, W: 0, L: 0, PD: 0 });
+    return map.get(n)!;
+  };
+  for (const n of guysList) ensure(g, n);
+  for (const n of girlsList) ensure(h, n);
+  for (const m of matches) {
+    const s = parseScore(m.scoreText); if (!s) continue;
+    const [a, b] = s;
+    if (a === b) continue;
+    const t1 = [m.t1p1, m.t1p2], t2 = [m.t2p1, m.t2p2];
+    const diff = Math.abs(a - b);
+    const t1Won = a > b;
+    const apply = (raw: string, won: boolean) => {
+      const name = stripGenderMarker(raw);
+      // Names on neither roster (removed since, or a blank slot) aren't ranked.
+      const map = guysSet.has(slug(name)) ? g : girlsSet.has(slug(name)) ? h : null;
+      if (!map) return;
+      const row = ensure(map, name);
+      if (won) { row.W++; row.PD += diff; } else { row.L++; row.PD -= diff; }
+    };
+    for (const p of t1) apply(p, t1Won);
+    for (const p of t2) apply(p, !t1Won);
+  }
+  return { guysRows: rankRows(Array.from(g.values()), catchUp), girlsRows: rankRows(Array.from(h.values()), catchUp) };
+}
+
+// ── Quads ────────────────────────────────────────────────────────────────────
+export type QuadsPlayerRow = StandingRow & { gender: "M" | "F" };
+
+export function computeQuadsStandingsFull(
+  matches: QuadsMatchRow[],
+  guysText: string,
+  girlsText: string,
+  catchUp?: CatchUpPolicy,
+) {
+  const guysList = drawRosterList(guysText);
+  const girlsList = drawRosterList(girlsText);
+
+  const guysSet = new Set(guysList.map(slug));
+  const girlsSet = new Set(girlsList.map(slug));
+
+  const g = new Map<string, StandingRow>();
+  const h = new Map<string, StandingRow>();
+
+  const ensure = (map: Map<string, StandingRow>, n: string) => {
+    if (!map.has(n)) map.set(n, { name: n, W: 0, L: 0, PD: 0 });
+    return map.get(n)!;
+  };
+
+  for (const n of guysList) ensure(g, n);
+  for (const n of girlsList) ensure(h, n);
+
+  for (const m of matches) {
+    const s = parseScore(m.scoreText);
+    if (!s) continue;
+
+    const [a, b] = s;
+    if (a === b) continue;
+
+    const diff = Math.abs(a - b);
+    const t1Won = a > b;
+
+    const apply = (raw: string, won: boolean) => {
+      const name = stripGenderMarker(raw);
+      const isGuy = guysSet.has(slug(name));
+      const isGirl = girlsSet.has(slug(name));
+      // Same rule as Doubles: names on neither roster aren't ranked.
+      const map = isGuy ? g : isGirl ? h : null;
+      if (!map) return;
+      const row = ensure(map, name);
+
+      if (won) {
+        row.W++;
+        row.PD += diff;
+      } else {
+        row.L++;
+        row.PD -= diff;
+      }
+    };
+
+    for (const p of m.t1) apply(p, t1Won);
+    for (const p of m.t2) apply(p, !t1Won);
+  }
+
+  const guysRows = rankRows(Array.from(g.values()), catchUp);
+  const girlsRows = rankRows(Array.from(h.values()), catchUp);
+
+  const allRows: QuadsPlayerRow[] = rankRows([
+    ...guysRows.map((r) => ({ ...r, gender: "M" as const })),
+    ...girlsRows.map((r) => ({ ...r, gender: "F" as const })),
+  ], catchUp);
+
+  return { guysRows, girlsRows, allRows };
+}
+
+// ── Triples ──────────────────────────────────────────────────────────────────
+export function computeTriplesStandings(matches: TriplesMatchRow[], guysText: string, girlsText: string, catchUp?: CatchUpPolicy) {
+  const guysList = drawRosterList(guysText);
+  const girlsList = drawRosterList(girlsText);
+  const guysSet = new Set(guysList.map(slug));
+  const girlsSet = new Set(girlsList.map(slug));
+  const g = new Map<string, StandingRow>();
+  const h = new Map<string, StandingRow>();
+  const ensure = (map: Map<string, StandingRow>, n: string) => { if (!map.has(n)) map.set(n, { name: n, W: 0, L: 0, PD: 0 }); return map.get(n)!; };
+  for (const n of guysList) ensure(g, n);
+  for (const n of girlsList) ensure(h, n);
+  for (const m of matches) {
+    const s = parseScore(m.scoreText); if (!s) continue;
+    const [a, b] = s; if (a === b) continue;
+    const diff = Math.abs(a - b); const t1Won = a > b;
+    const apply = (raw: string, won: boolean) => {
+      const name = stripGenderMarker(raw);
+      // Same rule as Doubles: names on neither roster aren't ranked.
+      const map = guysSet.has(slug(name)) ? g : girlsSet.has(slug(name)) ? h : null;
+      if (!map) return;
+      const row = ensure(map, name);
+      if (won) { row.W++; row.PD += diff; } else { row.L++; row.PD -= diff; }
+    };
+    for (const p of m.t1) apply(p, t1Won);
+    for (const p of m.t2) apply(p, !t1Won);
+  }
+  return { guysRows: rankRows(Array.from(g.values()), catchUp), girlsRows: rankRows(Array.from(h.values()), catchUp) };
+}
+
+// ── KOB / QOB ────────────────────────────────────────────────────────────────
+// Pool numbers: KOB pools 1-499, QOB pools 501-999, gold finals 1001 (KOB) /
+// 1002 (QOB), silver finals 1011 (KOB) / 1012 (QOB).
+
+export type KobFinalsStandings = { players: string[]; standings: PlayerStats[]; games: number; complete: boolean };
+
+export type KobStandings = {
+  kobPool: PlayerStats[];
+  qobPool: PlayerStats[];
+  goldKob: KobFinalsStandings;
+  goldQob: KobFinalsStandings;
+  silverKob: KobFinalsStandings;
+  silverQob: KobFinalsStandings;
+};
+
+export function computeKobStandings(games: KobGameRow[], guysText: string, girlsText: string): KobStandings {
+  const guys = uniq(rosterList(guysText));
+  const girls = uniq(rosterList(girlsText));
+
+  const kobPoolGames = games.filter(g => !g.isFinals && g.pool >= 1 && g.pool <= 499);
+  const qobPoolGames = games.filter(g => !g.isFinals && g.pool >= 501 && g.pool <= 999);
+
+  // Active roster = players who've actually appeared in pool games (by gender range)
+  const played = (list: KobGameRow[]) => new Set(list.flatMap(g => [...g.t1, ...g.t2]).map(slug));
+  const activeKob = played(kobPoolGames);
+  const activeQob = played(qobPoolGames);
+
+  // Finals standings — roster derived from the games themselves
+  const finals = (pool: number): KobFinalsStandings => {
+    const fGames = games.filter(g => g.pool === pool);
+    const players = Array.from(new Set(fGames.flatMap(g => [...g.t1, ...g.t2])));
+    return {
+      players,
+      standings: computeStandings(fGames, players),
+      games: fGames.length,
+      complete: fGames.length > 0 && fGames.every(g => isScoredGame(g.scoreText)),
+    };
+  };
+
+  return {
+    kobPool: computeStandings(kobPoolGames, guys.filter(p => activeKob.has(slug(p)))),
+    qobPool: computeStandings(qobPoolGames, girls.filter(p => activeQob.has(slug(p)))),
+    goldKob: finals(1001),
+    goldQob: finals(1002),
+    silverKob: finals(1011),
+    silverQob: finals(1012),
+  };
+}
+
+// ── Mickey & Minnie (fixed teams) ────────────────────────────────────────────
+export type MickeyTeamStanding = {
+  id: string; name: string; label: string; pool: number;
+  W: number; L: number; PD: number; sets: number;
+};
+
+// Teams ranked within each pool by sets won, then point differential.
+export function computeMickeyPoolStandings(
+  matches: MickeyMatchRow[],
+  teams: MickeyTeam[],
+  pairsText: string,
+): { pool: number; teams: MickeyTeamStanding[] }[] {
+  const stats = computeMickeyTeamStats(matches, teams);
+  const byPool = new Map<number, MickeyTeamStanding[]>();
+  for (const t of teams) {
+    const s = stats.get(t.id) ?? { W: 0, L: 0, PD: 0, sets: 0 };
+    if (!byPool.has(t.pool)) byPool.set(t.pool, []);
+    byPool.get(t.pool)!.push({ id: t.id, name: t.name, label: mickeyTeamLabel(t, pairsText), pool: t.pool, W: s.W, L: s.L, PD: s.PD, sets: s.sets });
+  }
+  return [...byPool.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([pool, list]) => ({ pool, teams: sortRows(list) }));
+}
+
+// ── Mickey & Minnie Blind Draw ───────────────────────────────────────────────
+// Teams change every round, so records belong to each pair / free agent,
+// summed over whichever team they landed on in each round.
+export type MickeyBDUnitRow = {
+  key: string;
+  label: string;
+  kind: 'pair' | 'free';
+  W: number;
+  L: number;
+  PD: number;
+  sets: number;
+  mickeyW: number;
+  mickeyL: number;
+  minnieW: number;
+  minnieL: number;
+  rounds: number; // how many rounds this unit appeared in
+};
+
+export function computeMickeyBDStandings(rounds: MickeyBDRound[], pairsText: string, freeAgentsText: string): MickeyBDUnitRow[] {
+  // Each unit is a pair or single free agent. Members are identified by
+  // their (slug'd) names so we can match them to teams across rounds.
+  const pairUnits = parseMickeyPairsGendered(pairsText).map((u, i) => ({
+    kind: 'pair' as const,
+    key: `pair-${i}-${u.map(m => slug(m.name)).join('|')}`,
+    label: u.map(m => m.name).join(' & '),
+    slugs: u.map(m => slug(m.name)),
+  }));
+  const freeUnits = parseMickeyFreeGendered(freeAgentsText).map((m, i) => ({
+    kind: 'free' as const,
+    key: `free-${i}-${slug(m.name)}`,
+    label: m.name,
+    slugs: [slug(m.name)],
+  }));
+  const allUnits = [...pairUnits, ...freeUnits];
+
+  const rows = new Map<string, MickeyBDUnitRow>();
+  for (const u of allUnits) {
+    rows.set(u.key, {
+      key: u.key, label: u.label, kind: u.kind,
+      W: 0, L: 0, PD: 0, sets: 0,
+      mickeyW: 0, mickeyL: 0, minnieW: 0, minnieL: 0,
+      rounds: 0,
+    });
+  }
+
+  for (const round of rounds) {
+    // For this round, find which team each unit landed on.
+    const teamFor = (slugs: string[]) => {
+      const team = round.teams.find(t => {
+        const set = new Set(t.players.map(slug));
+        return slugs.every(s => set.has(s));
+      });
+      if (team) return team;
+      // Fallback: find any team containing the first member
+      return round.teams.find(t => t.players.some(p => slug(p) === slugs[0])) ?? null;
+    };
+
+    for (const u of allUnits) {
+      const team = teamFor(u.slugs);
+      if (!team) continue;
+      const acc = rows.get(u.key)!;
+      acc.rounds += 1;
+
+      // Find the match this team played in (each team plays one per round
+      // in BD format — could be zero if they sat out).
+      const match = round.matches.find(m => m.teamAId === team.id || m.teamBId === team.id);
+      if (!match) continue;
+      const isTeamA = match.teamAId === team.id;
+
+      for (const fmt of ['mickey', 'minnie'] as const) {
+        const scoreText = fmt === 'mickey' ? match.mickeyScore : match.minnieScore;
+        const p = parseScore(scoreText);
+        if (!p || p[0] === p[1]) continue;
+        const diff = Math.abs(p[0] - p[1]);
+        const teamAWon = p[0] > p[1];
+        const won = (isTeamA && teamAWon) || (!isTeamA && !teamAWon);
+        acc.sets += 1;
+        if (won) {
+          acc.W += 1; acc.PD += diff;
+          if (fmt === 'mickey') acc.mickeyW += 1; else acc.minnieW += 1;
+        } else {
+          acc.L += 1; acc.PD -= diff;
+          if (fmt === 'mickey') acc.mickeyL += 1; else acc.minnieL += 1;
+        }
+      }
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => {
+    if (b.W !== a.W) return b.W - a.W;
+    if (b.PD !== a.PD) return b.PD - a.PD;
+    return a.label.localeCompare(b.label);
+  });
+}
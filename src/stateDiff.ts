@@ -0,0 +1,177 @@
+// Shared with the API routes, so relative imports carry .js extensions for Node ESM.
+import { FORMAT_STATE_KEYS, parseScorePatch, SCORE_FORMATS, type ScoreDivision, type ScorePatch, type ScoreFormat } from './scorePatch.js';
+import { deepEqual } from './merge.js';
+
+// ── Structured diff between two tournament states ────────────────────────────
+// Describes what changed in terms admins recognise (a score, a roster line, a
+// bracket game) rather than raw JSON paths. Used to preview a history restore
+// and to record each write in the server's audit log.
+
+export type ChangeKind = 'roster' | 'match' | 'bracket' | 'team' | 'round' | 'setting' | 'player';
+
+export type StateChange = {
+  format: ScoreFormat | null; // null for the player registry and settings outside any one format
+  division: ScoreDivision | null;
+  kind: ChangeKind;
+  action: 'added' | 'removed' | 'changed';
+  // Match / bracket / team / round / player id, or the roster or setting field name.
+  id: string;
+  // For 'changed' records: which field of the item changed.
+  field?: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export const FORMAT_LABELS: Record<ScoreFormat, string> = {
+  DOUBLES: 'Doubles',
+  QUADS: 'Quads',
+  TRIPLES: 'Triples',
+  KOB: 'KOB / QOB',
+  MICKEY: 'Mickey & Minnie',
+  MICKEYBD: 'M&M Blind Draw',
+};
+
+const ROSTER_FIELDS = ['guysText', 'girlsText', 'pairsText', 'freeAgentsText'];
+const LIST_FIELDS: Record<string, ChangeKind> = { matches: 'match', brackets: 'bracket', teams: 'team' };
+const SCORE_SETTING_KEYS: Record<string, ScoreFormat> = {
+  dScoreSettings: 'DOUBLES',
+  qScoreSettings: 'QUADS',
+  tScoreSettings: 'TRIPLES',
+  kobScoreSettings: 'KOB',
+  mScoreSettings: 'MICKEY',
+  mbdScoreSettings: 'MICKEYBD',
+};
+
+const rosterLines = (text: unknown) =>
+  String(text ?? '').split(/\r?\n/).map(s => s.trim()).filter(Boolean);
+
+function diffList(
+  out: StateChange[],
+  where: Pick<StateChange, 'format' | 'division'>,
+  kind: ChangeKind,
+  before: any[] = [],
+  after: any[] = [],
+) {
+  const beforeById = new Map(before.map(x => [x.id, x]));
+  const afterById = new Map(after.map(x => [x.id, x]));
+  for (const b of before) {
+    if (!afterById.has(b.id)) out.push({ ...where, kind, action: 'removed', id: b.id, before: b });
+  }
+  for (const a of after) {
+    const b = beforeById.get(a.id);
+    if (!b) { out.push({ ...where, kind, action: 'added', id: a.id, after: a }); continue; }
+    for (const field of new Set([...Object.keys(b), ...Object.keys(a)])) {
+      if (!deepEqual(b[field], a[field])) {
+        out.push({ ...where, kind, action: 'changed', id: a.id, field, before: b[field], after: a[field] });
+      }
+    }
+  }
+}
+
+function diffDivision(out: StateChange[], format: ScoreFormat, division: ScoreDivision, before: any, after: any) {
+  const where = { format, division };
+  before = before ?? {};
+  after = after ?? {};
+
+  for (const field of ROSTER_FIELDS) {
+    if ((before[field] ?? '') === (after[field] ?? '')) continue;
+    const was = new Set(rosterLines(before[field]));
+    const now = new Set(rosterLines(after[field]));
+    out.push({
+      ...where, kind: 'roster', action: 'changed', id: field,
+      before: [...was].filter(l => !now.has(l)),
+      after: [...now].filter(l => !was.has(l)),
+    });
+  }
+
+  for (const [field, kind] of Object.entries(LIST_FIELDS)) {
+    if (!deepEqual(before[field] ?? [], after[field] ?? [])) diffList(out, where, kind, before[field], after[field]);
+  }
+
+  // Blind-draw Mickey keeps matches and teams inside each round.
+  if (!deepEqual(before.rounds ?? [], after.rounds ?? [])) {
+    const roundsBefore: any[] = before.rounds ?? [];
+    const roundsAfter: any[] = after.rounds ?? [];
+    const afterIds = new Set(roundsAfter.map(r => r.id));
+    const beforeIds = new Set(roundsBefore.map(r => r.id));
+    for (const r of roundsBefore) if (!afterIds.has(r.id)) out.push({ ...where, kind: 'round', action: 'removed', id: r.id, before: r });
+    for (const r of roundsAfter) if (!beforeIds.has(r.id)) out.push({ ...where, kind: 'round', action: 'added', id: r.id, after: r });
+    const kept = (rounds: any[], ids: Set<string>) => rounds.filter(r => ids.has(r.id));
+    diffList(out, where, 'match',
+      kept(roundsBefore, afterIds).flatMap(r => r.matches ?? []),
+      kept(roundsAfter, beforeIds).flatMap(r => r.matches ?? []));
+    diffList(out, where, 'team',
+      kept(roundsBefore, afterIds).flatMap(r => r.teams ?? []),
+      kept(roundsAfter, beforeIds).flatMap(r => r.teams ?? []));
+  }
+
+  for (const field of ['courtCount', 'firstFormat', 'matchFormat', 'scheduleDate', 'catchUp']) {
+    if (!deepEqual(before[field], after[field])) {
+      out.push({ ...where, kind: 'setting', action: 'changed', id: field, before: before[field], after: after[field] });
+    }
+  }
+}
+
+export function diffStates(before: any, after: any): StateChange[] {
+  const out: StateChange[] = [];
+  for (const format of SCORE_FORMATS) {
+    const key = FORMAT_STATE_KEYS[format];
+    for (const division of ['UPPER', 'LOWER'] as const) {
+      const b = before?.[key]?.[division];
+      const a = after?.[key]?.[division];
+      if (!deepEqual(b, a)) diffDivision(out, format, division, b, a);
+    }
+  }
+  if (!deepEqual(before?.players ?? [], after?.players ?? [])) {
+    diffList(out, { format: null, division: null }, 'player', before?.players, after?.players);
+  }
+  for (const [id, format] of Object.entries(SCORE_SETTING_KEYS)) {
+    if (!deepEqual(before?.[id], after?.[id])) {
+      out.push({ format, division: null, kind: 'setting', action: 'changed', id, before: before?.[id], after: after?.[id] });
+    }
+  }
+  return out;
+}
+
+// Is this change a score being entered or edited (as opposed to structure)?
+export function isScoreChange(c: StateChange): boolean {
+  return c.action === 'changed' && (c.kind === 'match' || c.kind === 'bracket')
+    && ['scoreText', 'mickeyScore', 'minnieScore', 'score', 'games'].includes(c.field ?? '');
+}
+
+// The score changes among `changes` as patches for /api/score, which is how
+// scorekeepers save. Bracket advancement isn't included: the server re-derives
+// it from the patched score.
+export function scorePatchesFrom(changes: StateChange[]): ScorePatch[] {
+  const patches: ScorePatch[] = [];
+  for (const c of changes) {
+    if (!isScoreChange(c)) continue;
+    const value = c.after ?? (c.field === 'games' ? [] : '');
+    const patch = parseScorePatch({ format: c.format, division: c.division, matchId: c.id, field: c.field, value });
+    if (patch) patches.push(patch);
+  }
+  return patches;
+}
+
+// One-line human summary of a change, e.g. "Doubles UPPER · match d-r3-c2 scoreText: 21-18 → 21-19".
+export function describeChange(c: StateChange): string {
+  const where = [c.format ? FORMAT_LABELS[c.format] : null, c.division].filter(Boolean).join(' ');
+  const show = (v: unknown) => {
+    if (v === undefined || v === null || v === '') return '—';
+    if (Array.isArray(v)) return v.length ? v.join(', ') : '—';
+    if (typeof v === 'object') return JSON.stringify(v);
+    return String(v);
+  };
+  let what: string;
+  if (c.kind === 'roster') {
+    const added = (c.after as string[]) ?? [];
+    const removed = (c.before as string[]) ?? [];
+    what = `${c.id}: ${[added.length ? `+${added.join(', +')}` : '', removed.length ? `−${removed.join(', −')}` : ''].filter(Boolean).join(' ') || 'reordered'}`;
+  } else if (c.action === 'changed') {
+    const label = c.kind === 'setting' ? c.id : `${c.kind} ${c.id} ${c.field}`;
+    what = `${label}: ${show(c.before)} → ${show(c.after)}`;
+  } else {
+    what = `${c.kind} ${c.id} ${c.action}`;
+  }
+  return where ? `${where} · ${what}` : what;
+}
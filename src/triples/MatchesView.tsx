@@ -1,17 +1,24 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { TriplesMatchRow, ScoreSettings } from '../types';
+import type { DivisionKey, TriplesMatchRow, ScoreSettings } from '../types';
 import { uniq, parseScore, isValidScore, isScoredGame } from '../utils';
+import { triplesSheets, printScoresheets, sheetTitle } from '../scoresheets';
 
 export function TriplesMatchesView({
   matches,
   setMatches,
   isAdmin,
+  canScore = isAdmin,
   scoreSettings = { playTo: 21, cap: null },
+  division,
 }: {
   matches: TriplesMatchRow[];
   setMatches: (f: (prev: TriplesMatchRow[]) => TriplesMatchRow[] | TriplesMatchRow[]) => void;
   isAdmin?: boolean;
+  // Score entry only (scorekeepers); structural controls follow isAdmin.
+  canScore?: boolean;
   scoreSettings?: ScoreSettings;
+  // Only labels printed scoresheets.
+  division?: DivisionKey;
 }) {
   const rounds = useMemo(() => uniq(matches.map(m => m.round)).sort((a, b) => a - b), [matches]);
   const [open, setOpen] = useState(() => new Set<number>(rounds.length ? [rounds[rounds.length - 1]] : []));
@@ -65,9 +72,18 @@ export function TriplesMatchesView({
                 )}
                 <span className="text-[11px] text-slate-400 font-normal">{open.has(r) ? '▲' : '▼'}</span>
               </button>
-              {isAdmin && (
-                <button className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700" onClick={() => setConfirmR(r)}>Delete Round</button>
-              )}
+              <div className="flex items-center gap-2">
+                <button
+                  className="text-[11px] px-2 py-1 rounded border hover:bg-slate-100"
+                  onClick={() => printScoresheets(sheetTitle('TRIPLES', division, `Round ${r}`), triplesSheets(matches.filter(m => m.round === r), scoreSettings))}
+                  title="Print a scoresheet for every court in this round"
+                >
+                  Print
+                </button>
+                {isAdmin && (
+                  <button className="text-[11px] px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700" onClick={() => setConfirmR(r)}>Delete Round</button>
+                )}
+              </div>
             </div>
             {confirmR === r && (
               <div className="px-3 py-2 bg-red-50 border-b border-red-200 flex items-center justify-between text-[12px]">
@@ -109,7 +125,7 @@ export function TriplesMatchesView({
                               onChange={(e) => update(m.id, { scoreText: e.target.value })}
                               placeholder={`to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ''}`}
                               title={warning ? `Score doesn't match current rules (play to ${scoreSettings.playTo}${scoreSettings.cap ? ', cap ' + scoreSettings.cap : ', no cap'})` : ''}
-                              disabled={!isAdmin}
+                              disabled={!canScore}
                             />
                           </td>
                         </tr>
@@ -1,31 +1,39 @@
 import React, { useMemo, useState } from 'react';
-import type { TriplesMatchRow, BracketMatch, Team } from '../types';
+import type { CatchUpPolicy, TriplesMatchRow, BracketMatch, Team } from '../types';
 import { slug, clampN } from '../utils';
 import { buildBracket } from '../components/BracketView';
-import { computeTriplesStandings } from './Leaderboard';
+import { computeTriplesStandings, rankStats } from '../standings';
+import { byTeamRating, type RatingTable } from '../ratings';
 
 export function TriplesPlayoffBuilder({
   matches,
   guysText,
   girlsText,
   setBrackets,
+  ratings,
+  catchUp,
 }: {
   matches: TriplesMatchRow[];
   guysText: string;
   girlsText: string;
   setBrackets: (f: (prev: BracketMatch[]) => BracketMatch[] | BracketMatch[]) => void;
+  // Player ratings from past results, offered as a seeding tiebreak.
+  ratings?: RatingTable | null;
+  catchUp?: CatchUpPolicy;
 }) {
   const { guysRows, girlsRows } = useMemo(
-    () => computeTriplesStandings(matches, guysText, girlsText),
-    [matches, guysText, girlsText]
+    () => computeTriplesStandings(matches, guysText, girlsText, catchUp),
+    [matches, guysText, girlsText, catchUp]
   );
   const [teamCount, setTeamCount] = useState(8);
+  const [rateTies, setRateTies] = useState(false);
 
   function onBuild() {
     const all = [
-      ...guysRows.map(r => ({ ...r, gender: 'M' as const })),
-      ...girlsRows.map(r => ({ ...r, gender: 'F' as const })),
-    ].sort((a, b) => b.W - a.W || b.PD - a.PD || a.name.localeCompare(b.name));
+      ...guysRows.map(r => ({ ...r, gender: 'M' as const, rank: rankStats(r, catchUp) })),
+      ...girlsRows.map(r => ({ ...r, gender: 'F' as const, rank: rankStats(r, catchUp) })),
+    ].sort((a, b) =>
+      b.rank.W - a.rank.W || b.rank.PD - a.rank.PD || byTeamRating(rateTies ? ratings : null, [a.name], [b.name]) || a.name.localeCompare(b.name));
 
     const selected = all.slice(0, Math.min(teamCount * 3, all.length));
     const teams: Team[] = [];
@@ -53,6 +61,12 @@ export function TriplesPlayoffBuilder({
           Teams in bracket
           <input className="w-20 border rounded px-2 py-1" type="number" min={2} value={teamCount} onChange={(e) => setTeamCount(clampN(+e.target.value || 2, 2))} />
         </label>
+        {ratings && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={rateTies} onChange={(e) => setRateTies(e.target.checked)} />
+            Break seeding ties by rating
+          </label>
+        )}
         <button className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 shadow-sm text-[13px]" onClick={onBuild}>Build Triples Bracket</button>
       </div>
       <p className="text-[11px] text-slate-500 mt-2">Builds a simple triples bracket from the top triples standings pool.</p>
@@ -1,26 +1,71 @@
 import React, { useMemo, useState } from 'react';
-import type { TriplesMatchRow } from '../types';
-import { uniq, shuffle, clampN } from '../utils';
+import type { CatchUpPolicy, TriplesMatchRow } from '../types';
+import { shuffle, clampN, slug, uniq } from '../utils';
+import { BalanceReadout } from '../components/BalanceReadout';
+import { AvailabilityPanel } from '../components/AvailabilityPanel';
+import { isAvailable, roundsAway, type Availability } from '../players';
+import { MIN_RATED_GAMES, ratingSkill, type RatingTable } from '../ratings';
+import { hasSkillSpread, rosterNames, rosterSkills, roundBalance, skillGap } from '../skillBalance';
+
+// Random draws tried per round when balancing; the one with the smallest
+// total skill gap across its matches is kept.
+const BALANCE_CANDIDATES = 30;
 
 export function TriplesRoundGenerator({
   guysText,
   girlsText,
   matches,
   setMatches,
+  ratings,
+  availability,
+  catchUp,
+  setCatchUp,
 }: {
   guysText: string;
   girlsText: string;
   matches: TriplesMatchRow[];
   setMatches: (f: (prev: TriplesMatchRow[]) => TriplesMatchRow[] | TriplesMatchRow[]) => void;
+  // Player ratings from past results; when given, the draw can balance on
+  // them instead of roster markers.
+  ratings?: RatingTable | null;
+  // Arrival / departure rounds from the player registry.
+  availability?: Availability;
+  catchUp?: CatchUpPolicy;
+  setCatchUp: (policy: CatchUpPolicy | undefined) => void;
 }) {
   const [roundsToGen, setRoundsToGen] = useState(1);
   const [startCourt, setStartCourt] = useState(1);
   const [minGirlsPerTeam, setMinGirlsPerTeam] = useState(1);
-  const guys = useMemo(() => uniq((guysText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)), [guysText]);
-  const girls = useMemo(() => uniq((girlsText || '').split(/\r?\n/).map(s => s.trim()).filter(Boolean)), [girlsText]);
+  const [balance, setBalance] = useState(true);
+  const [useRatings, setUseRatings] = useState(false);
+  const guys = useMemo(() => rosterNames(guysText), [guysText]);
+  const girls = useMemo(() => rosterNames(girlsText), [girlsText]);
+  const skills = useMemo(() => rosterSkills([guysText, girlsText], useRatings ? ratings : null), [guysText, girlsText, useRatings, ratings]);
+  const ratedCount = useMemo(() => [...guys, ...girls].filter(p => ratingSkill(ratings, p) !== null).length, [guys, girls, ratings]);
+  const balanceRows = useMemo(() => roundBalance(matches.map(m => ({ round: m.round, sides: [m.t1, m.t2] })), skills), [matches, skills]);
+
+  // With the priority catch-up policy, players who missed rounds and are
+  // still below the average game count go into teams first, and the odd
+  // team left without a match is one without them.
+  function behindPlayers(roundIdx: number, history: TriplesMatchRow[]) {
+    if (catchUp !== 'PRIORITY') return new Set<string>();
+    const games = new Map<string, number>();
+    for (const m of history) for (const p of [...m.t1, ...m.t2]) games.set(slug(p), (games.get(slug(p)) || 0) + 1);
+    const present = [...guys, ...girls].filter(p => isAvailable(availability, p, roundIdx));
+    const avg = present.reduce((n, p) => n + (games.get(slug(p)) || 0), 0) / Math.max(1, present.length);
+    const pastRounds = uniq(history.map(m => m.round));
+    return new Set(present
+      .filter(p => roundsAway(availability, p, pastRounds) > 0 && (games.get(slug(p)) || 0) < avg)
+      .map(slug));
+  }
 
-  function buildRound(roundIdx: number) {
-    const gPool = shuffle(guys); const fPool = shuffle(girls);
+  function drawRound(roundIdx: number, behind: Set<string>) {
+    // Players outside their arrival / departure window aren't drawn at all.
+    const pool = (names: string[]) => {
+      const here = shuffle(names.filter(p => isAvailable(availability, p, roundIdx)));
+      return [...here.filter(p => behind.has(slug(p))), ...here.filter(p => !behind.has(slug(p)))];
+    };
+    const gPool = pool(guys); const fPool = pool(girls);
     const total = gPool.length + fPool.length; const teamsCount = Math.floor(total / 3);
     const teams: string[][] = [];
     for (let i = 0; i < teamsCount; i++) {
@@ -33,6 +78,10 @@ export function TriplesRoundGenerator({
     }
     const made: TriplesMatchRow[] = []; let court = startCourt;
     const list = shuffle(teams);
+    if (list.length % 2 === 1) {
+      const spare = list.findIndex(t => !t.some(p => behind.has(slug(p))));
+      if (spare >= 0) list.push(list.splice(spare, 1)[0]);
+    }
     while (list.length >= 2) {
       const a = list.shift()!; const b = list.shift()!;
       made.push({
@@ -48,10 +97,22 @@ export function TriplesRoundGenerator({
     return made;
   }
 
+  function buildRound(roundIdx: number, history: TriplesMatchRow[]) {
+    const tries = balance ? BALANCE_CANDIDATES : 1;
+    const behind = behindPlayers(roundIdx, history);
+    let best: { made: TriplesMatchRow[]; gap: number } | null = null;
+    for (let i = 0; i < tries; i++) {
+      const made = drawRound(roundIdx, behind);
+      const gap = made.reduce((n, m) => n + skillGap(skills, m.t1, m.t2), 0);
+      if (!best || gap < best.gap) best = { made, gap };
+    }
+    return best!.made;
+  }
+
   function onGenerate() {
     const n = clampN(roundsToGen, 1); const out: TriplesMatchRow[] = [];
     const currentMax = matches.reduce((mx, m) => Math.max(mx, m.round), 0) || 0;
-    for (let i = 1; i <= n; i++) out.push(...buildRound(currentMax + i));
+    for (let i = 1; i <= n; i++) out.push(...buildRound(currentMax + i, [...matches, ...out]));
     setMatches(prev => (Array.isArray(prev) ? prev : []).concat(out));
   }
 
@@ -72,10 +133,29 @@ export function TriplesRoundGenerator({
             Min girls / team
             <input type="number" min={0} max={3} value={minGirlsPerTeam} onChange={(e) => setMinGirlsPerTeam(clampN(+e.target.value || 0, 0))} className="w-16 border rounded px-2 py-1" />
           </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={balance} onChange={(e) => setBalance(e.target.checked)} />
+            Balance team skill
+          </label>
+          {ratings && (
+            <label className="flex items-center gap-1" title={`Balance on ratings from past results; players with fewer than ${MIN_RATED_GAMES} rated games keep their roster marker`}>
+              <input type="checkbox" checked={useRatings} onChange={(e) => setUseRatings(e.target.checked)} />
+              Balance skill by ratings
+              <span className="text-slate-400">({ratedCount}/{guys.length + girls.length} rated)</span>
+            </label>
+          )}
           <button className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 shadow-sm active:scale-[.99]" onClick={onGenerate}>Generate</button>
         </div>
       </div>
-      <p className="text-[11px] text-slate-500 mt-2">Triples uses teams of 3 and tries to honor the minimum girls-per-team setting whenever the roster makes that possible.</p>
+      <p className="text-[11px] text-slate-500 mt-2">Triples uses teams of 3 and tries to honor the minimum girls-per-team setting whenever the roster makes that possible. With skill balancing on, it tries {BALANCE_CANDIDATES} draws per round and keeps the one whose matches are closest in total skill, using (M3)/(F4) markers on roster lines.</p>
+      {hasSkillSpread(skills) && <BalanceReadout rounds={balanceRows} />}
+      <AvailabilityPanel
+        players={[...guys, ...girls]}
+        availability={availability}
+        nextRound={matches.reduce((mx, m) => Math.max(mx, m.round), 0) + 1}
+        catchUp={catchUp}
+        setCatchUp={setCatchUp}
+      />
     </section>
   );
 }
@@ -117,3 +117,98 @@ export type KobGameRow = {
   finalsLabel?: 'Gold KOB' | 'Gold QOB' | 'Silver KOB' | 'Silver QOB';
   sitOut?: string | string[];  // player(s) sitting this game (string for 1, string[] for 2+)
 };
+
+// Mickey & Minnie Blind Draw — teams re-randomize every round, but pairs
+// stay together within each round (same draw algorithm as fixed M&M).
+export type MickeyBDRound = {
+  id: string;
+  number: number;
+  teams: MickeyTeam[];
+  matches: MickeyMatchRow[];
+};
+
+// ── Player registry ──────────────────────────────────────────────────────────
+// One record per person in the event, shared by every format. Stored
+// rosters, match rows and brackets refer to players by `id` and the app
+// shows the record's name in their place; the registry holds the details
+// that belong to the person rather than to one roster. See players.ts.
+
+export type PlayerRecord = {
+  id: string;
+  name: string;
+  gender?: 'M' | 'F';
+  skill?: number; // 1-5, same scale as the (M3) / (F4) roster markers
+  contact?: string; // phone or email; only admins are sent it
+  // Late arrivals and early departures, in rounds of whichever format is
+  // being drawn (first and last round they can play). See players.ts.
+  arrivesRound?: number;
+  leavesAfterRound?: number;
+};
+
+// ── Saved tournament state ───────────────────────────────────────────────────
+// The whole tournament as persisted (server + localStorage autosave). Every
+// format keeps separate UPPER and LOWER division data. See schema.ts for the
+// version number, migrations and runtime validation.
+
+export type FormatKey = 'DOUBLES' | 'QUADS' | 'TRIPLES' | 'KOB' | 'MICKEY' | 'MICKEYBD';
+export type DivisionKey = 'UPPER' | 'LOWER';
+export type ByDivision<T> = Record<DivisionKey, T>;
+
+// How players who arrive late make up for the rounds they missed (Doubles,
+// Quads and Triples). 'PRIORITY': they're the last to sit out until their
+// game count catches up. 'PER_GAME': standings rank on win rate and point
+// differential per game. Without one, missed rounds count neither as played
+// nor as sat out, and standings use totals.
+export type CatchUpPolicy = 'PRIORITY' | 'PER_GAME';
+
+export type DivisionState<TMatch> = {
+  guysText: string;
+  girlsText: string;
+  matches: TMatch[];
+  brackets: BracketMatch[];
+  catchUp?: CatchUpPolicy;
+};
+
+export type MickeyDivisionState = {
+  pairsText: string;
+  freeAgentsText: string;
+  teams: MickeyTeam[];
+  matches: MickeyMatchRow[];
+  brackets: BracketMatch[];
+  courtCount?: number;
+  firstFormat?: 'MICKEY' | 'MINNIE';
+  // 'COMBINED' = single round-robin, each match plays both Mickey + Minnie
+  // sets back-to-back (one match card with two score columns).
+  // 'ALTERNATING' = double round-robin, round 1 all one format and round 2
+  // the other (one set per match card).
+  matchFormat?: 'COMBINED' | 'ALTERNATING';
+  // Play date (YYYY-MM-DD) the pool schedule's times fall on, for team calendars.
+  scheduleDate?: string;
+};
+
+export type MickeyBDDivisionState = {
+  pairsText: string;
+  freeAgentsText: string;
+  rounds: MickeyBDRound[];
+  brackets: BracketMatch[];
+  courtCount?: number;
+};
+
+export type TournamentState = {
+  schemaVersion: number;
+  activeTab: FormatKey;
+  activeDivision: DivisionKey;
+  doubles: ByDivision<DivisionState<MatchRow>>;
+  quads: ByDivision<DivisionState<QuadsMatchRow>>;
+  triples: ByDivision<DivisionState<TriplesMatchRow>>;
+  kob: ByDivision<DivisionState<KobGameRow>>;
+  mickey: ByDivision<MickeyDivisionState>;
+  mickeyBD: ByDivision<MickeyBDDivisionState>;
+  players: PlayerRecord[];
+  dScoreSettings: ScoreSettings;
+  qScoreSettings: ScoreSettings;
+  tScoreSettings: ScoreSettings;
+  kobScoreSettings: ScoreSettings;
+  mScoreSettings: ScoreSettings;
+  mbdScoreSettings: ScoreSettings;
+};
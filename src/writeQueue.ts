@@ -0,0 +1,169 @@
+import type { TournamentState } from './types';
+import { applyScorePatch, type ScorePatch } from './scorePatch';
+import { apiPatchScore, apiSaveState, DEFAULT_EVENT_ID, SessionExpiredError, StateConflictError } from './api';
+
+// ── Offline write queue ──────────────────────────────────────────────────────
+// Every save goes through this queue, which lives in localStorage per event,
+// so a write that can't reach the server (venue wifi dropping out, a phone
+// going to sleep) survives a reload and is replayed in order once the
+// connection is back. Whole-state saves carry the revision and state they
+// were based on, so a replay that finds someone else saved meanwhile comes
+// back as a conflict to merge rather than overwriting their changes. A
+// conflict waiting on the admin is kept next to the queue until it's
+// resolved, so a reload doesn't lose the edits it's holding back.
+
+export type QueuedWrite =
+  | { id: string; kind: 'state'; state: TournamentState; base: TournamentState | null; baseRevision: number; queuedAt: number }
+  | { id: string; kind: 'score'; patch: ScorePatch; queuedAt: number };
+
+const storageKey = (eventId: string) =>
+  eventId === DEFAULT_EVENT_ID ? 'sunnysports.pending' : `sunnysports.pending:${eventId}`;
+
+const conflictKey = (eventId: string) =>
+  eventId === DEFAULT_EVENT_ID ? 'sunnysports.conflict' : `sunnysports.conflict:${eventId}`;
+
+let nextId = 0;
+const newId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+// The write currently on its way to the server, per event. Later saves
+// never fold into it, since the server may already have it.
+const sendingIds = new Map<string, string>();
+
+export function loadQueue(eventId: string): QueuedWrite[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(storageKey(eventId)) || '[]');
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(eventId: string, queue: QueuedWrite[]) {
+  try {
+    if (queue.length) localStorage.setItem(storageKey(eventId), JSON.stringify(queue));
+    else localStorage.removeItem(storageKey(eventId));
+  } catch {}
+}
+
+// A state save the server turned down because someone else saved first:
+// their copy and revision, the base both sides started from, and ours.
+export type PendingConflict = {
+  revision: number;
+  theirs: TournamentState | null;
+  base: TournamentState | null;
+  mine: TournamentState;
+};
+
+export function loadConflict(eventId: string): PendingConflict | null {
+  try {
+    const raw = JSON.parse(localStorage.getItem(conflictKey(eventId)) || 'null');
+    return raw && typeof raw === 'object' && raw.mine ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveConflict(eventId: string, conflict: PendingConflict | null) {
+  try {
+    if (conflict) localStorage.setItem(conflictKey(eventId), JSON.stringify(conflict));
+    else localStorage.removeItem(conflictKey(eventId));
+  } catch {}
+}
+
+// Queue a whole-state save. Only the newest state matters, so it replaces a
+// waiting state save at the end of the queue, keeping that one's base.
+export function enqueueState(eventId: string, state: TournamentState, base: TournamentState | null, baseRevision: number): number {
+  const queue = loadQueue(eventId);
+  const last = queue[queue.length - 1];
+  if (last?.kind === 'state' && last.id !== sendingIds.get(eventId)) {
+    queue[queue.length - 1] = { ...last, state };
+  } else {
+    queue.push({ id: newId(), kind: 'state', state, base, baseRevision, queuedAt: Date.now() });
+  }
+  saveQueue(eventId, queue);
+  return queue.length;
+}
+
+export function enqueueScores(eventId: string, patches: ScorePatch[]): number {
+  const queue = loadQueue(eventId);
+  for (const patch of patches) queue.push({ id: newId(), kind: 'score', patch, queuedAt: Date.now() });
+  saveQueue(eventId, queue);
+  return queue.length;
+}
+
+// Lay the queued score patches over a state from the server, so an update
+// arriving before they're sent doesn't wipe them off the screen.
+export function withQueuedScores(eventId: string, state: TournamentState): TournamentState {
+  return loadQueue(eventId).reduce<TournamentState>((s, w) => (w.kind === 'score' ? applyScorePatch(s, w.patch) ?? s : s), state);
+}
+
+export type FlushHandlers = {
+  // A queued state save landed at `revision`.
+  onSaved?: (state: TournamentState, revision: number) => void;
+  // Someone else saved since `write.baseRevision`. Queued state saves are
+  // dropped and the conflict is kept (see loadConflict) until the caller
+  // merges it and clears it with saveConflict(eventId, null).
+  onConflict: (err: StateConflictError, write: Extract<QueuedWrite, { kind: 'state' }>) => void;
+  onSessionExpired: () => void;
+  // The server refused a write outright (invalid data, wrong role). It is
+  // dropped so it can't block the rest of the queue.
+  onRejected: (message: string) => void;
+};
+
+// Network errors and server errors are worth retrying; other 4xx never will be.
+export const isRetryable = (e: any): boolean => !(e?.status >= 400 && e.status < 500);
+
+// The run in progress, per event: switching events mid-flush mustn't make
+// the new event wait on (or skip) the old one's queue.
+const flushing = new Map<string, Promise<FlushResult>>();
+
+export type FlushResult = { pending: number; offline: boolean };
+
+// Send queued writes oldest first until the queue is empty or the server
+// can't be reached. Concurrent calls share the same run.
+export function flushQueue(eventId: string, token: string, handlers: FlushHandlers): Promise<FlushResult> {
+  let run = flushing.get(eventId);
+  if (!run) {
+    run = runQueue(eventId, token, handlers).finally(() => {
+      flushing.delete(eventId);
+      sendingIds.delete(eventId);
+    });
+    flushing.set(eventId, run);
+  }
+  return run;
+}
+
+async function runQueue(eventId: string, token: string, handlers: FlushHandlers): Promise<FlushResult> {
+  const drop = (keep: (w: QueuedWrite) => boolean) => saveQueue(eventId, loadQueue(eventId).filter(keep));
+  for (;;) {
+    const write = loadQueue(eventId)[0];
+    if (!write) return { pending: 0, offline: false };
+    sendingIds.set(eventId, write.id);
+    try {
+      if (write.kind === 'state') {
+        const revision = await apiSaveState(eventId, write.state, token, write.baseRevision);
+        // A save queued while this one was in flight was based on it.
+        saveQueue(eventId, loadQueue(eventId).filter(w => w.id !== write.id).map(w =>
+          w.kind === 'state' && w.baseRevision === write.baseRevision ? { ...w, base: write.state, baseRevision: revision } : w));
+        handlers.onSaved?.(write.state, revision);
+      } else {
+        await apiPatchScore(eventId, write.patch, token);
+        drop(w => w.id !== write.id);
+      }
+    } catch (e: any) {
+      if (e instanceof StateConflictError && write.kind === 'state') {
+        drop(w => w.kind !== 'state');
+        saveConflict(eventId, { revision: e.revision, theirs: e.data, base: write.base, mine: write.state });
+        handlers.onConflict(e, write);
+      } else if (e instanceof SessionExpiredError) {
+        handlers.onSessionExpired();
+        return { pending: loadQueue(eventId).length, offline: false };
+      } else if (isRetryable(e)) {
+        return { pending: loadQueue(eventId).length, offline: true };
+      } else {
+        drop(w => w.id !== write.id);
+        handlers.onRejected(e?.message || 'The server refused a change');
+      }
+    }
+  }
+}